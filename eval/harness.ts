@@ -0,0 +1,214 @@
+import { readdirSync, readFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+import { parseArgs } from "node:util";
+import { ChatEngine } from "../src/extract/llm";
+import { extractPayment, extractStatement, PipelineOptions, PipelineResult } from "../src/extract/pipeline";
+import { ExtractionMode } from "../src/extract/rules";
+import { BUILT_IN_TEMPLATES, parseBankSummary } from "../src/extract/statement";
+import { extractEmailBody } from "../src/mail/gmail";
+import { fromGmailPayload } from "../src/mail/mime";
+
+// ----------------------
+// Extraction Evaluation Harness
+// ----------------------
+// Runs every email in the golden corpus through the same steps as the service worker
+// (Gmail payload decoding, the statement parser and the extraction pipeline) and scores
+// the resulting records field by field against the golden values. The model is replaced
+// by a stub replaying each case's recorded responses, so no GPU or network is needed.
+//
+//   npm run eval -- [--mode rules,hybrid,llm] [--case hdfc] [--min-precision 0.9] [--min-recall 0.9] [--verbose]
+
+interface CorpusCase {
+  name: string;
+  description?: string;
+  stream: "statements" | "payments";
+  message: { id: string; payload: unknown };
+  recordedResponses?: string[]; // Model answers, replayed in order
+  golden: Record<string, string | number>; // Expected record fields; fields left out must be absent
+}
+
+interface CaseResult {
+  name: string;
+  mode: ExtractionMode;
+  usedMode?: ExtractionMode; // Mode the pipeline reports; hybrid falls back to rules
+  skipped?: string;
+  error?: string;
+  diffs: string[];
+  summaryDict?: Record<string, string>;
+}
+
+interface FieldScore {
+  truePositives: number;
+  predicted: number;
+  expected: number;
+}
+
+const ALL_MODES: ExtractionMode[] = ["rules", "hybrid", "llm"];
+const MAX_EMAIL_CONTENT_LENGTH = 4096;
+
+const { values: args } = parseArgs({
+  options: {
+    corpus: { type: "string", default: resolve(__dirname, "corpus") },
+    mode: { type: "string", default: ALL_MODES.join(",") },
+    case: { type: "string" },
+    "min-precision": { type: "string" },
+    "min-recall": { type: "string" },
+    verbose: { type: "boolean", default: false },
+  },
+});
+
+function loadCorpus(directory: string, filter?: string): CorpusCase[] {
+  return readdirSync(directory)
+    .filter(file => file.endsWith(".json") && (!filter || file.includes(filter)))
+    .sort()
+    .map(file => ({ name: file.replace(/\.json$/, ""), ...JSON.parse(readFileSync(join(directory, file), "utf8")) }));
+}
+
+// Replays recorded completions in order; the prompt is ignored.
+function recordedEngine(responses: string[]): ChatEngine {
+  let next = 0;
+  const create = async () => {
+    if (next >= responses.length) throw new Error(`Recorded responses exhausted after ${responses.length}`);
+    return { choices: [{ message: { role: "assistant", content: responses[next++] } }] };
+  };
+  return { chat: { completions: { create } } } as unknown as ChatEngine;
+}
+
+function normalizeValue(field: string, value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  return field === "bankName" ? value.trim().toLowerCase().replace(/\s+/g, " ") : value.trim();
+}
+
+// The pipeline logs every step; keep the report readable unless --verbose is given.
+async function quietly<T>(run: () => Promise<T>): Promise<T> {
+  if (args.verbose) return run();
+  const { log, warn, error } = console;
+  console.log = console.warn = console.error = () => {};
+  try {
+    return await run();
+  } finally {
+    Object.assign(console, { log, warn, error });
+  }
+}
+
+async function runCase(testCase: CorpusCase, mode: ExtractionMode, scores: Map<string, FieldScore>): Promise<CaseResult> {
+  const result: CaseResult = { name: testCase.name, mode, diffs: [] };
+  const responses = testCase.recordedResponses || [];
+  if (mode === "llm" && responses.length === 0) {
+    result.skipped = "no recorded responses";
+    return result;
+  }
+  const root = fromGmailPayload(testCase.message.payload);
+  const sender = root.headers["from"] || "";
+  const content = extractEmailBody(testCase.message.payload);
+  const options: PipelineOptions = {
+    mode,
+    templates: BUILT_IN_TEMPLATES,
+    maxEmailContentLength: MAX_EMAIL_CONTENT_LENGTH,
+    getEngine: async () => (responses.length > 0 ? recordedEngine(responses) : null),
+  };
+  let record: Record<string, unknown> = {};
+  try {
+    const extraction = await quietly<PipelineResult<object, unknown>>(() => testCase.stream === "statements"
+      ? extractStatement(content, sender, options)
+      : extractPayment(content, sender, options));
+    result.usedMode = extraction.mode;
+    if (extraction.ok) {
+      record = { ...extraction.record };
+    } else {
+      result.error = extraction.error;
+    }
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
+  }
+  delete record.extractionMode;
+
+  const fields = new Set([...Object.keys(testCase.golden), ...Object.keys(record).filter(field => record[field] !== undefined)]);
+  for (const field of fields) {
+    const expected = testCase.golden[field];
+    const actual = record[field];
+    const score = scores.get(field) || { truePositives: 0, predicted: 0, expected: 0 };
+    if (expected !== undefined) score.expected++;
+    if (actual !== undefined) score.predicted++;
+    if (expected !== undefined && normalizeValue(field, expected) === normalizeValue(field, actual)) {
+      score.truePositives++;
+    } else {
+      result.diffs.push(`${field}: expected ${expected === undefined ? "nothing" : JSON.stringify(expected)}, got ${actual === undefined ? "nothing" : JSON.stringify(actual)}`);
+    }
+    scores.set(field, score);
+  }
+  if (result.diffs.length > 0 && testCase.stream === "statements") {
+    result.summaryDict = await quietly(async () => parseBankSummary(content, sender, BUILT_IN_TEMPLATES));
+  }
+  return result;
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator === 0 ? 1 : numerator / denominator;
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`.padStart(7);
+}
+
+function printScores(mode: ExtractionMode, scores: Map<string, FieldScore>): { precision: number; recall: number } {
+  console.log(`\n  ${"field".padEnd(18)}${"precision".padStart(10)}${"recall".padStart(10)}   (${mode})`);
+  const total: FieldScore = { truePositives: 0, predicted: 0, expected: 0 };
+  for (const [field, score] of [...scores].sort(([a], [b]) => a.localeCompare(b))) {
+    console.log(`  ${field.padEnd(18)}${percent(ratio(score.truePositives, score.predicted)).padStart(10)}${percent(ratio(score.truePositives, score.expected)).padStart(10)}`);
+    total.truePositives += score.truePositives;
+    total.predicted += score.predicted;
+    total.expected += score.expected;
+  }
+  const precision = ratio(total.truePositives, total.predicted);
+  const recall = ratio(total.truePositives, total.expected);
+  console.log(`  ${"all fields".padEnd(18)}${percent(precision).padStart(10)}${percent(recall).padStart(10)}`);
+  return { precision, recall };
+}
+
+function printResult(result: CaseResult) {
+  if (result.skipped) {
+    console.log(`  - ${result.name}: skipped (${result.skipped})`);
+    return;
+  }
+  const fallback = result.usedMode && result.usedMode !== result.mode ? ` via ${result.usedMode}` : "";
+  if (result.diffs.length === 0 && !result.error) {
+    console.log(`  ✓ ${result.name}${fallback}`);
+    return;
+  }
+  console.log(`  ✗ ${result.name}${fallback}`);
+  if (result.error) console.log(`      error: ${result.error}`);
+  for (const diff of result.diffs) console.log(`      ${diff}`);
+  if (result.summaryDict) console.log(`      parser: ${JSON.stringify(result.summaryDict)}`);
+}
+
+async function main() {
+  const corpus = loadCorpus(args.corpus!, args.case);
+  if (corpus.length === 0) throw new Error(`No corpus cases found in ${args.corpus}`);
+  const modes = args.mode!.split(",").map(mode => mode.trim()) as ExtractionMode[];
+  const unknown = modes.filter(mode => !ALL_MODES.includes(mode));
+  if (unknown.length > 0) throw new Error(`Unknown mode(s): ${unknown.join(", ")}`);
+  const minPrecision = args["min-precision"] !== undefined ? Number(args["min-precision"]) : 0;
+  const minRecall = args["min-recall"] !== undefined ? Number(args["min-recall"]) : 0;
+
+  console.log(`Evaluating ${corpus.length} case(s) in ${modes.join(", ")} mode`);
+  let failed = false;
+  for (const mode of modes) {
+    console.log(`\n== ${mode} ==`);
+    const scores = new Map<string, FieldScore>();
+    for (const testCase of corpus) {
+      printResult(await runCase(testCase, mode, scores));
+    }
+    const { precision, recall } = printScores(mode, scores);
+    if (precision < minPrecision || recall < minRecall) {
+      console.log(`  below the gate (precision ≥ ${percent(minPrecision).trim()}, recall ≥ ${percent(minRecall).trim()})`);
+      failed = true;
+    }
+  }
+  process.exitCode = failed ? 1 : 0;
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 2;
+});
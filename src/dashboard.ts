@@ -0,0 +1,236 @@
+import { OPEN_STATUSES } from "./db/summaries";
+import { formatAmount, formatPlainAmount } from "./extract/normalize";
+import { ExtractionMode } from "./extract/rules";
+import { sendRequest, SummaryView } from "./protocol";
+
+// ----------------------
+// Bills Dashboard
+// ----------------------
+// Lists the stored bills as upcoming, overdue or paid, filterable by bank, with inline
+// editing for wrong extractions. Every change goes through the background, which owns
+// the database and reschedules reminders afterwards.
+
+type BillList = "upcoming" | "overdue" | "paid";
+type Notify = (title: string, message: string, type?: "success" | "error") => void;
+
+const STATUS_LABELS: Record<SummaryView["status"], string> = {
+  unpaid: "Unpaid",
+  partially_paid: "Partially paid",
+  minimum_paid: "Minimum paid",
+  paid: "Paid",
+  overpaid: "Overpaid",
+};
+
+const MODE_LABELS: Record<ExtractionMode, string> = {
+  llm: "read by the model",
+  rules: "read by rules",
+  hybrid: "read by rules and the model",
+};
+
+let bills: SummaryView[] = [];
+let activeList: BillList = "upcoming";
+let bankFilter = "";
+let notify: Notify = () => {};
+
+function todayIso(): string {
+  const now = new Date();
+  return new Date(now.getTime() - now.getTimezoneOffset() * 60000).toISOString().substring(0, 10);
+}
+
+function billList(bill: SummaryView, today: string): BillList {
+  if (!OPEN_STATUSES.includes(bill.status)) return "paid";
+  return bill.dueDate && bill.dueDate < today ? "overdue" : "upcoming";
+}
+
+// Soonest first for open bills, most recent first for paid ones.
+function compareBills(list: BillList) {
+  return (a: SummaryView, b: SummaryView) => {
+    const order = (a.dueDate || "9999").localeCompare(b.dueDate || "9999");
+    return list === "paid" ? -order : order;
+  };
+}
+
+function iconButton(icon: string, title: string, onClick: () => void): HTMLButtonElement {
+  const button = document.createElement("button");
+  button.className = "btn";
+  button.type = "button";
+  button.title = title;
+  const iconElement = document.createElement("i");
+  iconElement.className = `fa-solid ${icon}`;
+  button.appendChild(iconElement);
+  button.addEventListener("click", onClick);
+  return button;
+}
+
+async function runAction(action: () => Promise<unknown>, success: string) {
+  try {
+    await action();
+    notify("Saved", success, "success");
+    await refreshDashboard();
+  } catch (error) {
+    console.error(" Dashboard action failed:", error);
+    notify("Error", error instanceof Error ? error.message : String(error), "error");
+  }
+}
+
+function createEditForm(bill: SummaryView, onCancel: () => void): HTMLFormElement {
+  const form = document.createElement("form");
+  form.className = "billEdit";
+  const fields = [
+    { name: "bankName", label: "Bank", type: "text", value: bill.bankName },
+    { name: "amount", label: "Amount", type: "text", value: formatPlainAmount(bill) },
+    { name: "dueDate", label: "Due", type: "date", value: bill.dueDate || "" },
+  ];
+  for (const field of fields) {
+    const label = document.createElement("label");
+    label.textContent = field.label;
+    const input = document.createElement("input");
+    input.name = field.name;
+    input.type = field.type;
+    input.value = field.value;
+    label.appendChild(input);
+    form.appendChild(label);
+  }
+  const save = document.createElement("button");
+  save.className = "btn";
+  save.type = "submit";
+  save.textContent = "Save";
+  const cancel = document.createElement("button");
+  cancel.className = "btn";
+  cancel.type = "button";
+  cancel.textContent = "Cancel";
+  cancel.addEventListener("click", onCancel);
+  form.append(save, cancel);
+  form.addEventListener("submit", (event) => {
+    event.preventDefault();
+    const data = new FormData(form);
+    const dueDate = String(data.get("dueDate") || "");
+    runAction(() => sendRequest({
+      type: "editSummary",
+      summaryId: bill.id,
+      bankName: String(data.get("bankName") || ""),
+      amount: String(data.get("amount") || ""),
+      dueDate: dueDate || undefined,
+    }), "Bill updated");
+  });
+  return form;
+}
+
+function createBillRow(bill: SummaryView): HTMLLIElement {
+  const row = document.createElement("li");
+  row.className = "bill";
+
+  const header = document.createElement("div");
+  header.className = "billHeader";
+  const bank = document.createElement("span");
+  bank.className = "billBank";
+  bank.textContent = `${bill.bankName}${bill.cardLast4 ? ` ••${bill.cardLast4}` : ""}`;
+  const status = document.createElement("span");
+  status.className = `billStatus ${bill.status}`;
+  status.textContent = STATUS_LABELS[bill.status];
+  header.append(bank, status);
+
+  const details = document.createElement("p");
+  details.className = "billDetails";
+  const paid = bill.paidMinor > 0 && bill.status !== "paid"
+    ? ` · ${formatAmount({ amountMinor: bill.paidMinor, currency: bill.currency })} paid`
+    : "";
+  details.textContent = `${formatAmount(bill)} due ${bill.dueDate || "on an unknown date"}${paid}`;
+  if (bill.extractionMode) details.title = `Bill ${MODE_LABELS[bill.extractionMode]}`;
+
+  const actions = document.createElement("div");
+  actions.className = "billActions";
+  const form = createEditForm(bill, () => {
+    form.style.display = "none";
+  });
+  form.style.display = "none";
+  actions.appendChild(iconButton("fa-pen", "Edit", () => {
+    form.style.display = form.style.display === "none" ? "flex" : "none";
+  }));
+  if (OPEN_STATUSES.includes(bill.status)) {
+    actions.appendChild(iconButton("fa-check", "Mark paid", () =>
+      runAction(() => sendRequest({ type: "markPaid", summaryId: bill.id }), "Bill marked paid")));
+  } else {
+    actions.appendChild(iconButton("fa-rotate-left", "Mark unpaid", () =>
+      runAction(() => sendRequest({ type: "markUnpaid", summaryId: bill.id }), "Bill marked unpaid")));
+  }
+  actions.appendChild(iconButton("fa-trash", "Delete", () => {
+    if (!confirm(`Delete the ${bill.bankName} bill due ${bill.dueDate || "on an unknown date"}?`)) return;
+    runAction(() => sendRequest({ type: "deleteSummary", summaryId: bill.id }), "Bill deleted");
+  }));
+  if (bill.sourceLink) {
+    const link = document.createElement("a");
+    link.className = "btn";
+    link.href = bill.sourceLink;
+    link.target = "_blank";
+    link.title = "Open the statement email";
+    const icon = document.createElement("i");
+    icon.className = "fa-solid fa-envelope-open-text";
+    link.appendChild(icon);
+    actions.appendChild(link);
+  }
+
+  row.append(header, details);
+  if (bill.account) {
+    const mailbox = document.createElement("p");
+    mailbox.className = "billMailbox";
+    mailbox.textContent = `From ${bill.account}`;
+    row.appendChild(mailbox);
+  }
+  row.append(actions, form);
+  return row;
+}
+
+function renderDashboard() {
+  const list = document.getElementById("billList");
+  const empty = document.getElementById("billsEmpty");
+  const filter = document.getElementById("bankFilter") as HTMLSelectElement | null;
+  if (!list || !empty || !filter) return;
+
+  const banks = [...new Set(bills.map(bill => bill.bankName))].sort();
+  if (bankFilter && !banks.includes(bankFilter)) bankFilter = "";
+  const allBanks = document.createElement("option");
+  allBanks.value = "";
+  allBanks.textContent = "All banks";
+  filter.replaceChildren(allBanks, ...banks.map((bank) => {
+    const option = document.createElement("option");
+    option.value = bank;
+    option.textContent = bank;
+    return option;
+  }));
+  filter.value = bankFilter;
+
+  const today = todayIso();
+  const visible = bills.filter(bill => !bankFilter || bill.bankName === bankFilter);
+  for (const name of ["upcoming", "overdue", "paid"] as BillList[]) {
+    const count = document.getElementById(`count-${name}`);
+    if (count) count.textContent = String(visible.filter(bill => billList(bill, today) === name).length);
+  }
+  document.querySelectorAll<HTMLButtonElement>(".billTab").forEach((tab) => {
+    tab.classList.toggle("active", tab.dataset.list === activeList);
+  });
+
+  const shown = visible.filter(bill => billList(bill, today) === activeList).sort(compareBills(activeList));
+  list.replaceChildren(...shown.map(createBillRow));
+  empty.style.display = shown.length === 0 ? "block" : "none";
+}
+
+export async function refreshDashboard() {
+  const { summaries } = await sendRequest({ type: "getSummaries" });
+  bills = summaries;
+  renderDashboard();
+}
+
+export function initDashboard(onNotify: Notify) {
+  notify = onNotify;
+  document.getElementById("bankFilter")?.addEventListener("change", (event) => {
+    bankFilter = (event.target as HTMLSelectElement).value;
+    renderDashboard();
+  });
+  document.querySelectorAll<HTMLButtonElement>(".billTab").forEach((tab) => {
+    tab.addEventListener("click", () => {
+      activeList = tab.dataset.list as BillList;
+      renderDashboard();
+    });
+  });
+}
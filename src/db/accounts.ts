@@ -0,0 +1,79 @@
+import { log } from "../diagnostics/log";
+import { exclusive, openDatabase, writeStores } from "./database";
+import { getPayments, PaymentRecord } from "./payments";
+import { statusAfterPayment } from "./reconcile";
+import { getPaymentSummariesFromIndexedDB, PaymentSummary } from "./summaries";
+import { sealRecord } from "./vault";
+
+// ----------------------
+// Account Data
+// ----------------------
+// Removes everything read from one mailbox in a single write: its bills, its
+// payments and its ledger entries. Payments from other mailboxes that had paid one of
+// the removed bills go back to unmatched, and bills from other mailboxes that one of
+// the removed payments had paid are reopened by that amount.
+
+export interface RemovedAccountData {
+  summaries: number;
+  payments: number;
+  messages: number;
+}
+
+function getMessageKeys(account: string): Promise<IDBValidKey[]> {
+  return new Promise((resolve, reject) => {
+    openDatabase().then((db) => {
+      const request = db.transaction("processedMessages", "readonly").objectStore("processedMessages").index("account").getAllKeys(account);
+      request.onsuccess = function() {
+        resolve(request.result);
+      };
+      request.onerror = function() {
+        reject(`Error reading the messages of ${account} from IndexedDB`);
+      };
+    }).catch(reject);
+  });
+}
+
+export function removeAccountData(account: string): Promise<RemovedAccountData> {
+  return exclusive(async () => {
+    const [allSummaries, allPayments, messageKeys] = await Promise.all([getPaymentSummariesFromIndexedDB(), getPayments(), getMessageKeys(account)]);
+    const now = new Date().toISOString();
+    const byId = new Map<number, PaymentSummary>(allSummaries.map(summary => [summary.id, summary]));
+    const removedIds = new Set<number>();
+    for (const summary of byId.values()) {
+      if (summary.account === account) removedIds.add(summary.id);
+    }
+    const removedPayments: number[] = [];
+    const updatedPayments: PaymentRecord[] = [];
+    const reopened = new Map<number, PaymentSummary>();
+    for (const payment of allPayments) {
+      if (payment.account === account) {
+        removedPayments.push(payment.id);
+        const paid = payment.status === "matched" && payment.summaryId !== undefined ? byId.get(payment.summaryId) : undefined;
+        if (paid && !removedIds.has(paid.id)) {
+          paid.paidMinor -= payment.amountMinor;
+          paid.status = statusAfterPayment(paid);
+          reopened.set(paid.id, paid);
+        }
+      } else if (payment.summaryId !== undefined && removedIds.has(payment.summaryId)) {
+        updatedPayments.push({ ...payment, status: "unmatched", summaryId: undefined, updatedAt: now });
+      } else if (payment.status === "needs_confirmation" && payment.candidateIds?.some(id => removedIds.has(id))) {
+        const candidateIds = payment.candidateIds.filter(id => !removedIds.has(id));
+        updatedPayments.push({ ...payment, status: candidateIds.length > 0 ? "needs_confirmation" : "unmatched", candidateIds, updatedAt: now });
+      }
+    }
+    await writeStores({
+      summaries: {
+        delete: [...removedIds],
+        put: await Promise.all([...reopened.values()].map(summary => sealRecord("summaries", { ...summary, updatedAt: now }))),
+      },
+      payments: {
+        delete: removedPayments,
+        put: await Promise.all(updatedPayments.map(payment => sealRecord("payments", payment))),
+      },
+      processedMessages: { delete: messageKeys },
+    }, `Error removing the data of ${account} from IndexedDB`);
+    const removed: RemovedAccountData = { summaries: removedIds.size, payments: removedPayments.length, messages: messageKeys.length };
+    log.info("save", `Removed the data of ${account}`, { data: removed });
+    return removed;
+  });
+}
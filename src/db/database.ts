@@ -0,0 +1,78 @@
+import { log } from "../diagnostics/log";
+import { LATEST_VERSION, MIGRATIONS } from "./migrations";
+
+// ----------------------
+// IndexedDB Connection
+// ----------------------
+// Shared by the service worker and the extension pages, so all of them always open
+// the same schema version. Upgrades run the pending migrations from migrations.ts.
+// Opening is not logged: the diagnostics log itself opens the database to write.
+const DB_NAME = "PaymentSummariesDB";
+
+export function openDatabase(): Promise<IDBDatabase> {
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, LATEST_VERSION);
+    request.onupgradeneeded = function(event: IDBVersionChangeEvent) {
+      const db = (event.target as IDBOpenDBRequest).result;
+      const transaction = (event.target as IDBOpenDBRequest).transaction;
+      if (!db || !transaction) {
+        log.error("system", "Unable to access the database during upgrade.");
+        return;
+      }
+      for (const migration of MIGRATIONS) {
+        if (migration.version > event.oldVersion && migration.version <= LATEST_VERSION) {
+          log.info("system", `Migrating database to version ${migration.version}: ${migration.description}`);
+          migration.migrate(db, transaction);
+        }
+      }
+    };
+    request.onerror = function() {
+      reject("Error opening IndexedDB");
+    };
+    request.onsuccess = function(event) {
+      const db = (event.target as IDBRequest).result;
+      resolve(db);
+    };
+  });
+}
+
+// ----------------------
+// Exclusive Writes
+// ----------------------
+// Sealed records are decrypted and encrypted between transactions (WebCrypto is
+// asynchronous and a transaction commits while it waits), so operations that write
+// bills or payments run one at a time through this queue. An operation must not wait
+// for another exclusive one, or both wait forever.
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+export function exclusive<T>(operation: () => Promise<T>): Promise<T> {
+  const result = writeQueue.then(operation);
+  writeQueue = result.catch(() => {});
+  return result;
+}
+
+export interface StoreWrites {
+  put?: unknown[];
+  delete?: IDBValidKey[];
+}
+
+// Applies puts and deletes to several stores in one transaction; used for the write
+// half of an exclusive operation, once its records are sealed.
+export function writeStores(writes: Record<string, StoreWrites>, errorMessage: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    openDatabase().then((db) => {
+      const transaction = db.transaction(Object.keys(writes), "readwrite");
+      for (const [name, { put = [], delete: keys = [] }] of Object.entries(writes)) {
+        const store = transaction.objectStore(name);
+        for (const key of keys) store.delete(key);
+        for (const record of put) store.put(record);
+      }
+      transaction.oncomplete = function() {
+        resolve();
+      };
+      transaction.onerror = function() {
+        reject(errorMessage);
+      };
+    }).catch(reject);
+  });
+}
@@ -0,0 +1,153 @@
+import { MailMessage, MailSourceKind } from "../mail/types";
+import { exclusive, openDatabase } from "./database";
+import { openRecord, openRecords, sealRecord } from "./vault";
+
+// ----------------------
+// Processed Message Ledger
+// ----------------------
+// One entry per pipeline stream and mail message ID, recording what the pipeline did
+// with it. A message with an entry is never fetched for that stream or sent to the
+// model again unless it is retried; the other stream still reads it. With encryption
+// on, what an entry says about the email (subject, sender, text, model output and
+// errors quoting it) is sealed like a bill, so it can only be written while unlocked.
+
+export type PipelineStream = "statements" | "payments";
+export type ProcessingStatus = "queued" | "success" | "parse_failure" | "skipped" | "error";
+
+export interface ProcessingResult {
+  status: ProcessingStatus;
+  error?: string;
+  rawOutput?: string; // Last model response, kept when extraction fails
+}
+
+export interface LedgerEntry {
+  messageId: string; // IndexedDB key, with the stream
+  source: MailSourceKind;
+  account?: string; // Mailbox the message was read from
+  stream: PipelineStream;
+  status: ProcessingStatus;
+  subject: string;
+  sender: string;
+  receivedAt?: string;
+  link?: string;
+  content?: string; // Kept only while the message is queued or failed, so it can be retried
+  attempts: number;
+  error?: string;
+  rawOutput?: string;
+  updatedAt: string;
+}
+
+// What the ledger keeps in the clear: enough to show the queue while the bills are locked.
+export type LedgerStatus = Omit<LedgerEntry, "subject" | "sender" | "content" | "error" | "rawOutput">;
+
+const RETRYABLE_STATUSES: ProcessingStatus[] = ["parse_failure", "error"];
+
+function runLedgerRequest<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    openDatabase().then((db) => {
+      const transaction = db.transaction("processedMessages", mode);
+      const request = operation(transaction.objectStore("processedMessages"));
+      request.onsuccess = function() {
+        resolve(request.result);
+      };
+      request.onerror = function() {
+        reject("Error accessing the processed message ledger");
+      };
+    }).catch(reject);
+  });
+}
+
+// Writes wait for a running re-encryption, so no entry is sealed under a stale key.
+function putEntry(entry: LedgerEntry): Promise<void> {
+  return exclusive(async () => {
+    const stored = await sealRecord("processedMessages", entry);
+    await runLedgerRequest("readwrite", store => store.put(stored));
+  });
+}
+
+export async function hasLedgerEntry(stream: PipelineStream, messageId: string): Promise<boolean> {
+  return (await runLedgerRequest("readonly", store => store.count([stream, messageId]))) > 0;
+}
+
+export async function countLedgerEntries(status: ProcessingStatus): Promise<number> {
+  return runLedgerRequest("readonly", store => store.index("status").count(status));
+}
+
+// Rejects with VaultLockedError when the entry is sealed and the bills are locked.
+export async function getLedgerEntry(stream: PipelineStream, messageId: string): Promise<LedgerEntry | undefined> {
+  return openRecord("processedMessages", await runLedgerRequest("readonly", store => store.get([stream, messageId])));
+}
+
+export async function getLedgerEntries(status?: ProcessingStatus): Promise<LedgerEntry[]> {
+  const stored = await runLedgerRequest("readonly", store =>
+    status ? store.index("status").getAll(status) : store.getAll()
+  );
+  const entries = await openRecords<LedgerEntry>("processedMessages", stored);
+  return entries.sort((a, b) => (a.receivedAt || "").localeCompare(b.receivedAt || ""));
+}
+
+// Every entry without its sealed fields; readable while the bills are locked.
+export async function getLedgerStatuses(): Promise<LedgerStatus[]> {
+  const stored = await runLedgerRequest("readonly", store => store.getAll());
+  return stored
+    .map(({ sealed: _sealed, subject: _subject, sender: _sender, content: _content, error: _error, rawOutput: _rawOutput, ...status }) => status as LedgerStatus)
+    .sort((a, b) => (a.receivedAt || "").localeCompare(b.receivedAt || ""));
+}
+
+function newEntry(email: MailMessage, stream: PipelineStream, status: ProcessingStatus): LedgerEntry {
+  return {
+    messageId: email.id,
+    source: email.source,
+    account: email.account,
+    stream,
+    status,
+    subject: email.subject,
+    sender: email.sender,
+    receivedAt: email.receivedAt,
+    link: email.link,
+    content: status === "queued" ? email.content : undefined,
+    attempts: 0,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+// Records a message the pipeline has seen. Qualifying messages are queued with their
+// content; non-qualifying ones are recorded as skipped so they are not fetched again.
+export async function recordMessage(email: MailMessage, stream: PipelineStream, qualifies: boolean): Promise<void> {
+  await putEntry(newEntry(email, stream, qualifies ? "queued" : "skipped"));
+}
+
+// A statement that may be in a PDF no password opened is recorded as an error with this
+// reason, so it is not fetched again until the PDF passwords change.
+export const NEEDS_PDF_PASSWORD = "No PDF password opened the statement attachment";
+
+export async function recordNeedsPassword(email: MailMessage, stream: PipelineStream): Promise<void> {
+  await putEntry({ ...newEntry(email, stream, "error"), error: NEEDS_PDF_PASSWORD });
+}
+
+export async function getEntriesNeedingPassword(): Promise<LedgerEntry[]> {
+  return (await getLedgerEntries("error")).filter(entry => entry.error === NEEDS_PDF_PASSWORD);
+}
+
+export async function recordOutcome(entry: LedgerEntry, result: ProcessingResult): Promise<void> {
+  const updated: LedgerEntry = {
+    ...entry,
+    status: result.status,
+    error: result.error,
+    rawOutput: result.rawOutput,
+    attempts: entry.attempts + 1,
+    content: RETRYABLE_STATUSES.includes(result.status) ? entry.content : undefined,
+    updatedAt: new Date().toISOString(),
+  };
+  await putEntry(updated);
+}
+
+// Moves every failed entry back onto the queue and returns how many were requeued.
+export async function requeueFailedMessages(): Promise<number> {
+  const entries = await getLedgerEntries();
+  const failed = entries.filter(entry => RETRYABLE_STATUSES.includes(entry.status) && entry.content);
+  for (const entry of failed) {
+    await putEntry({ ...entry, status: "queued", updatedAt: new Date().toISOString() });
+  }
+  return failed.length;
+}
@@ -0,0 +1,149 @@
+import { detectCurrency, parseAmount, parseDate } from "../extract/normalize";
+
+// ----------------------
+// Schema Migrations
+// ----------------------
+// Each migration upgrades the database from the previous version to its own. On open,
+// every migration newer than the stored version runs in order inside the single
+// versionchange transaction, so an upgrade either completes or leaves the old data.
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrate(db: IDBDatabase, transaction: IDBTransaction): void;
+}
+
+// Shape of summaries written before the v2 schema.
+interface LegacySummary {
+  id: number;
+  DueDate: any;
+  totalAmountDue: string;
+  paymentStatus: string;
+  summaryTimestamp: string;
+  BankName: string;
+}
+
+// Dedup key for a statement: the same bank, card and statement period is the same bill.
+export function summaryIdentity(bankName: string, cardLast4: string | undefined, statementPeriod: string | undefined): string {
+  return [bankName.trim().toLowerCase(), cardLast4 || "", statementPeriod || ""].join("|");
+}
+
+function migrateLegacySummary(legacy: LegacySummary) {
+  const amount = parseAmount(String(legacy.totalAmountDue ?? ""));
+  const dueDate = typeof legacy.DueDate === "string" ? parseDate(legacy.DueDate) : null;
+  const bankName = String(legacy.BankName ?? "").trim();
+  // v1 rows carry no statement date, so the due month stands in for the period.
+  const statementPeriod = dueDate ? dueDate.substring(0, 7) : undefined;
+  return {
+    id: legacy.id,
+    bankName,
+    statementPeriod,
+    amountMinor: amount ? amount.amountMinor : 0,
+    currency: amount?.currency || detectCurrency(String(legacy.totalAmountDue ?? "")) || "INR",
+    dueDate: dueDate || undefined,
+    status: legacy.paymentStatus === "paid" ? "paid" : "unpaid",
+    identity: summaryIdentity(bankName, undefined, statementPeriod || `legacy-${legacy.id}`),
+    createdAt: legacy.summaryTimestamp,
+    updatedAt: new Date().toISOString(),
+    // The original row, so nothing the v1 schema held is lost.
+    legacy,
+  };
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Create the summaries store",
+    migrate(db) {
+      if (!db.objectStoreNames.contains("summaries")) {
+        db.createObjectStore("summaries", { keyPath: "id", autoIncrement: true });
+      }
+    },
+  },
+  {
+    version: 2,
+    description: "Create the processed message ledger",
+    migrate(db) {
+      if (!db.objectStoreNames.contains("processedMessages")) {
+        const ledger = db.createObjectStore("processedMessages", { keyPath: "messageId" });
+        ledger.createIndex("status", "status");
+      }
+    },
+  },
+  {
+    version: 3,
+    description: "Summary schema v2: minor-unit amounts, ISO due dates, bill identity and indexes",
+    migrate(_db, transaction) {
+      const store = transaction.objectStore("summaries");
+      store.createIndex("status", "status");
+      store.createIndex("dueDate", "dueDate");
+      store.createIndex("bank", "bankName");
+      store.createIndex("identity", "identity");
+      store.createIndex("sourceMessageId", "sourceMessageId");
+      store.openCursor().onsuccess = function(event) {
+        const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (!cursor) return;
+        if (!("identity" in cursor.value)) {
+          cursor.update(migrateLegacySummary(cursor.value as LegacySummary));
+        }
+        cursor.continue();
+      };
+    },
+  },
+  {
+    version: 4,
+    description: "Payment ledger, and the amount paid so far on each summary",
+    migrate(db, transaction) {
+      const payments = db.createObjectStore("payments", { keyPath: "id", autoIncrement: true });
+      payments.createIndex("status", "status");
+      payments.createIndex("summaryId", "summaryId");
+      payments.createIndex("sourceMessageId", "sourceMessageId", { unique: true });
+      transaction.objectStore("summaries").openCursor().onsuccess = function(event) {
+        const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (!cursor) return;
+        if (cursor.value.paidMinor === undefined) {
+          // Summaries marked paid before the ledger existed count as paid in full.
+          cursor.update({ ...cursor.value, paidMinor: cursor.value.status === "paid" ? cursor.value.amountMinor : 0 });
+        }
+        cursor.continue();
+      };
+    },
+  },
+  {
+    version: 5,
+    description: "Index records by the mail account they came from",
+    migrate(_db, transaction) {
+      for (const store of ["summaries", "payments", "processedMessages"]) {
+        transaction.objectStore(store).createIndex("account", "account");
+      }
+    },
+  },
+  {
+    version: 6,
+    description: "Create the diagnostics log",
+    migrate(db) {
+      const logs = db.createObjectStore("logs", { keyPath: "id", autoIncrement: true });
+      logs.createIndex("messageId", "messageId");
+    },
+  },
+  {
+    version: 7,
+    description: "Key the processed message ledger by stream and message ID",
+    migrate(db, transaction) {
+      // An email can be both a statement candidate and a payment candidate, so each
+      // stream keeps its own entry. The key path cannot change in place: the entries are
+      // read, and the store is recreated and refilled.
+      const request = transaction.objectStore("processedMessages").getAll();
+      request.onsuccess = function() {
+        db.deleteObjectStore("processedMessages");
+        const ledger = db.createObjectStore("processedMessages", { keyPath: ["stream", "messageId"] });
+        ledger.createIndex("status", "status");
+        ledger.createIndex("account", "account");
+        ledger.createIndex("messageId", "messageId");
+        for (const entry of request.result) ledger.put(entry);
+      };
+    },
+  },
+];
+
+export const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
@@ -0,0 +1,97 @@
+import { ExtractionMode } from "../extract/rules";
+import { exclusive, openDatabase } from "./database";
+import { openRecord, openRecords, sealRecord } from "./vault";
+
+// ----------------------
+// Payment Ledger
+// ----------------------
+// Every payment confirmation email becomes its own record, so a payment is never lost
+// when it cannot be matched to a bill yet. The reconciliation engine in reconcile.ts
+// links each record to the summary it paid.
+
+export type PaymentMatchStatus = "matched" | "unmatched" | "needs_confirmation" | "dismissed";
+
+export interface PaymentRecord {
+  id: number; // IndexedDB key
+  amountMinor: number;
+  currency: string; // ISO 4217 code
+  paidOn?: string; // YYYY-MM-DD
+  bankName?: string;
+  cardLast4?: string;
+  sourceMessageId: string;
+  account?: string; // Mailbox the confirmation came from
+  extractionMode?: ExtractionMode; // How the payment was read from its email
+  status: PaymentMatchStatus;
+  summaryId?: number; // Set once matched
+  candidateIds?: number[]; // Summaries the user chooses between while awaiting confirmation
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NewPaymentRecord = Pick<PaymentRecord, "amountMinor" | "currency" | "paidOn" | "bankName" | "cardLast4" | "sourceMessageId" | "account" | "extractionMode">;
+
+// Records are stored sealed when encryption is on; see vault.ts.
+export function getPayments(status?: PaymentMatchStatus): Promise<PaymentRecord[]> {
+  return new Promise<any[]>((resolve, reject) => {
+    openDatabase().then((db) => {
+      const store = db.transaction("payments", "readonly").objectStore("payments");
+      const request = status ? store.index("status").getAll(status) : store.getAll();
+      request.onsuccess = function() {
+        resolve(request.result);
+      };
+      request.onerror = function() {
+        reject("Error reading payments from IndexedDB");
+      };
+    }).catch(reject);
+  }).then(stored => openRecords<PaymentRecord>("payments", stored));
+}
+
+export function getPayment(id: number): Promise<PaymentRecord | undefined> {
+  return new Promise<any>((resolve, reject) => {
+    openDatabase().then((db) => {
+      const request = db.transaction("payments", "readonly").objectStore("payments").get(id);
+      request.onsuccess = function() {
+        resolve(request.result);
+      };
+      request.onerror = function() {
+        reject(`Error reading payment ${id} from IndexedDB`);
+      };
+    }).catch(reject);
+  }).then(stored => stored && openRecord<PaymentRecord>("payments", stored));
+}
+
+// Adds an unmatched payment and resolves with its record, or with the existing record
+// when this email was already recorded.
+export function addPayment(payment: NewPaymentRecord): Promise<PaymentRecord> {
+  return exclusive(async () => {
+    const now = new Date().toISOString();
+    const added = { ...payment, status: "unmatched" as const, createdAt: now, updatedAt: now };
+    const sealed = await sealRecord("payments", added);
+    const stored = await new Promise<any>((resolve, reject) => {
+      openDatabase().then((db) => {
+        const transaction = db.transaction("payments", "readwrite");
+        const store = transaction.objectStore("payments");
+        let record: any;
+        const lookup = store.index("sourceMessageId").get(payment.sourceMessageId);
+        lookup.onsuccess = function() {
+          if (lookup.result) {
+            record = lookup.result;
+            return;
+          }
+          const request = store.add(sealed);
+          request.onsuccess = function() {
+            record = { ...added, id: request.result as number };
+          };
+        };
+        transaction.oncomplete = function() {
+          if (record) resolve(record);
+          else reject("Payment was not recorded");
+        };
+        transaction.onerror = function() {
+          reject("Error recording payment in IndexedDB");
+        };
+      }).catch(reject);
+    });
+    return openRecord<PaymentRecord>("payments", stored);
+  });
+}
@@ -0,0 +1,253 @@
+import { log } from "../diagnostics/log";
+import { exclusive, openDatabase, writeStores } from "./database";
+import { summaryIdentity } from "./migrations";
+import { getPayment, getPayments, PaymentRecord } from "./payments";
+import { getPaymentSummariesFromIndexedDB, getSummary, OPEN_STATUSES, PaymentStatus, PaymentSummary } from "./summaries";
+import { sealRecord } from "./vault";
+
+// ----------------------
+// Payment Reconciliation
+// ----------------------
+// Matches recorded payments to open bills. A bill is a candidate when its currency,
+// bank and card agree with the payment and the payment date falls in a window around
+// its due date. A single candidate is matched; among several, one whose outstanding
+// or minimum amount equals the payment wins. Anything else waits for the user to pick
+// the bill in the confirmation queue.
+
+const DAYS_BEFORE_DUE = 45; // Statements usually arrive 15-25 days before the due date
+const DAYS_AFTER_DUE = 30; // Late payments still settle the bill
+
+export type ReconcileOutcome =
+  | { status: "matched"; summary: PaymentSummary }
+  | { status: "needs_confirmation"; candidates: PaymentSummary[] }
+  | { status: "unmatched" }
+  | { status: "unchanged" };
+
+// "HDFC Bank Ltd" and "hdfc" name the same issuer.
+function normalizeBankName(name: string): string {
+  return name.toLowerCase().replace(/\b(?:bank|card|cards|credit|ltd|limited)\b/g, "").replace(/[^a-z0-9]/g, "");
+}
+
+function sameBank(a: string, b: string): boolean {
+  const left = normalizeBankName(a);
+  const right = normalizeBankName(b);
+  return left.length > 0 && right.length > 0 && (left.includes(right) || right.includes(left));
+}
+
+function addDays(isoDate: string, days: number): string {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().substring(0, 10);
+}
+
+function inPaymentWindow(payment: PaymentRecord, summary: PaymentSummary): boolean {
+  if (!payment.paidOn) return true;
+  const start = summary.dueDate
+    ? addDays(summary.dueDate, -DAYS_BEFORE_DUE)
+    : summary.statementPeriod ? `${summary.statementPeriod}-01` : null;
+  const end = summary.dueDate ? addDays(summary.dueDate, DAYS_AFTER_DUE) : null;
+  return (!start || payment.paidOn >= start) && (!end || payment.paidOn <= end);
+}
+
+export function findCandidates(payment: PaymentRecord, summaries: PaymentSummary[]): PaymentSummary[] {
+  return summaries.filter(summary =>
+    OPEN_STATUSES.includes(summary.status) &&
+    summary.currency === payment.currency &&
+    (!payment.bankName || sameBank(payment.bankName, summary.bankName)) &&
+    (!payment.cardLast4 || !summary.cardLast4 || payment.cardLast4 === summary.cardLast4) &&
+    inPaymentWindow(payment, summary));
+}
+
+// Picks the bill a payment settles, or null when the user has to choose.
+export function chooseSummary(payment: PaymentRecord, candidates: PaymentSummary[]): PaymentSummary | null {
+  // Without a bank or card, an open bill of the same amount may still be the wrong one.
+  if (!payment.bankName && !payment.cardLast4) return null;
+  if (candidates.length === 1) return candidates[0];
+  const exact = candidates.filter(summary =>
+    summary.amountMinor - summary.paidMinor === payment.amountMinor || summary.minimumDueMinor === payment.amountMinor);
+  return exact.length === 1 ? exact[0] : null;
+}
+
+export function statusAfterPayment(summary: PaymentSummary): PaymentStatus {
+  if (summary.paidMinor > summary.amountMinor) return "overpaid";
+  if (summary.paidMinor === summary.amountMinor) return "paid";
+  if (summary.minimumDueMinor !== undefined && summary.paidMinor >= summary.minimumDueMinor) return "minimum_paid";
+  return summary.paidMinor > 0 ? "partially_paid" : "unpaid";
+}
+
+// Records the payment against the bill and returns both records as they are to be
+// written.
+function applyPayment(payment: PaymentRecord, summary: PaymentSummary): { summary: PaymentSummary; payment: PaymentRecord } {
+  const now = new Date().toISOString();
+  const paid = { ...summary, paidMinor: summary.paidMinor + payment.amountMinor, updatedAt: now };
+  paid.status = statusAfterPayment(paid);
+  log.info("save", `Payment ${payment.id} reconciled against summary ${summary.id}; bill is now ${paid.status}.`, { messageId: payment.sourceMessageId });
+  return {
+    summary: paid,
+    payment: { ...payment, status: "matched", summaryId: summary.id, candidateIds: undefined, updatedAt: now },
+  };
+}
+
+async function writeReconciled(reconciled: { summary: PaymentSummary; payment: PaymentRecord }, errorMessage: string): Promise<void> {
+  await writeStores({
+    summaries: { put: [await sealRecord("summaries", reconciled.summary)] },
+    payments: { put: [await sealRecord("payments", reconciled.payment)] },
+  }, errorMessage);
+}
+
+// Only unmatched payments are reconciled. A payment email processed again, e.g. when
+// its outcome could not be saved, finds its payment already settled and changes nothing.
+export function reconcilePayment(payment: PaymentRecord): Promise<ReconcileOutcome> {
+  return exclusive(async () => {
+    const current = await getPayment(payment.id);
+    if (current?.status !== "unmatched") {
+      log.info("save", `Payment ${payment.id} was already reconciled; leaving it as it is.`, { messageId: payment.sourceMessageId });
+      return { status: "unchanged" };
+    }
+    const candidates = findCandidates(current, await getPaymentSummariesFromIndexedDB());
+    const chosen = chooseSummary(current, candidates);
+    if (chosen) {
+      const reconciled = applyPayment(current, chosen);
+      await writeReconciled(reconciled, "Error reconciling payment in IndexedDB");
+      return { status: "matched", summary: reconciled.summary };
+    }
+    const status = candidates.length > 0 ? "needs_confirmation" : "unmatched";
+    const updated = { ...current, status, candidateIds: candidates.map(summary => summary.id), updatedAt: new Date().toISOString() };
+    await writeStores({ payments: { put: [await sealRecord("payments", updated)] } }, "Error reconciling payment in IndexedDB");
+    return candidates.length > 0 ? { status: "needs_confirmation", candidates } : { status: "unmatched" };
+  });
+}
+
+// Retries payments that had no bill to match, e.g. after a new statement was saved.
+export async function reconcileUnmatchedPayments(): Promise<number> {
+  let matched = 0;
+  for (const payment of await getPayments("unmatched")) {
+    const outcome = await reconcilePayment(payment);
+    if (outcome.status === "matched") matched++;
+  }
+  return matched;
+}
+
+// ----------------------
+// Manual Corrections
+// ----------------------
+export type SummaryEdits = Partial<Pick<PaymentSummary, "bankName" | "amountMinor" | "dueDate">>;
+
+// Runs `change` on one summary and resolves with the updated summary. `change` may
+// return a replacement, or null to delete it; payments reconciled against a deleted
+// summary go back to unmatched, and payments awaiting confirmation stop offering it.
+// A replacement whose identity another bill already has is rejected.
+function changeSummary(summaryId: number, change: (summary: PaymentSummary) => PaymentSummary | null): Promise<PaymentSummary | null> {
+  return exclusive(async () => {
+    const summary = await getSummary(summaryId);
+    if (!summary) throw new Error(`Summary ${summaryId} does not exist`);
+    const result = change(summary);
+    const errorMessage = `Error updating summary ${summaryId} in IndexedDB`;
+    const now = new Date().toISOString();
+    if (result) {
+      if (result.identity !== summary.identity) {
+        const duplicate = (await getPaymentSummariesFromIndexedDB()).find(other => other.id !== summaryId && other.identity === result.identity);
+        if (duplicate) throw new Error(`Bill ${duplicate.id} already has the same bank, card and statement period`);
+      }
+      await writeStores({ summaries: { put: [await sealRecord("summaries", { ...result, updatedAt: now })] } }, errorMessage);
+      return result;
+    }
+    // Only fields kept in the clear change, so the stored records are updated as they are.
+    const linked = await getLinkedPayments(summaryId);
+    const pending = (await getPayments("needs_confirmation")).filter(payment => payment.candidateIds?.includes(summaryId));
+    const withoutCandidate = await Promise.all(pending.map((payment) => {
+      const candidateIds = (payment.candidateIds || []).filter(id => id !== summaryId);
+      return sealRecord("payments", { ...payment, status: candidateIds.length > 0 ? "needs_confirmation" : "unmatched", candidateIds, updatedAt: now });
+    }));
+    await writeStores({
+      summaries: { delete: [summaryId] },
+      payments: { put: [...linked.map(payment => ({ ...payment, status: "unmatched", summaryId: undefined, updatedAt: now })), ...withoutCandidate] },
+    }, errorMessage);
+    return null;
+  });
+}
+
+// The stored (possibly sealed) payments reconciled against a summary.
+function getLinkedPayments(summaryId: number): Promise<any[]> {
+  return new Promise((resolve, reject) => {
+    openDatabase().then((db) => {
+      const request = db.transaction("payments", "readonly").objectStore("payments").index("summaryId").getAll(summaryId);
+      request.onsuccess = function() {
+        resolve(request.result);
+      };
+      request.onerror = function() {
+        reject(`Error reading payments of summary ${summaryId} from IndexedDB`);
+      };
+    }).catch(reject);
+  });
+}
+
+// Marks a bill paid in full by hand, e.g. when the payment email never arrived.
+export async function markSummaryPaid(summaryId: number): Promise<void> {
+  await changeSummary(summaryId, (summary) => {
+    summary.paidMinor = Math.max(summary.paidMinor, summary.amountMinor);
+    return { ...summary, status: statusAfterPayment(summary) };
+  });
+}
+
+// Reopens a bill marked paid by mistake. Payments reconciled against it stay linked.
+export async function markSummaryUnpaid(summaryId: number): Promise<void> {
+  await changeSummary(summaryId, summary => ({ ...summary, paidMinor: 0, status: "unpaid" }));
+}
+
+// Corrects fields the extraction got wrong. The identity follows the bank name, so
+// the corrected bill still deduplicates against later copies of the statement; an edit
+// that would make it a duplicate of another bill is rejected.
+export async function editSummary(summaryId: number, edits: SummaryEdits): Promise<PaymentSummary | null> {
+  return changeSummary(summaryId, (summary) => {
+    const edited = { ...summary, ...edits };
+    edited.bankName = edited.bankName.trim();
+    edited.identity = summaryIdentity(edited.bankName, edited.cardLast4, edited.statementPeriod);
+    // A paid bill whose amount is corrected upwards is open again, and vice versa.
+    edited.status = statusAfterPayment(edited);
+    return edited;
+  });
+}
+
+// Deletes a bill. Payments that were reconciled against it go back to unmatched, and
+// payments awaiting confirmation no longer offer it.
+export async function deleteSummary(summaryId: number): Promise<void> {
+  await changeSummary(summaryId, () => null);
+}
+
+// ----------------------
+// Confirmation Queue
+// ----------------------
+export interface PendingPayment {
+  payment: PaymentRecord;
+  candidates: PaymentSummary[];
+}
+
+export async function getPendingPayments(): Promise<PendingPayment[]> {
+  const [payments, summaries] = await Promise.all([getPayments("needs_confirmation"), getPaymentSummariesFromIndexedDB()]);
+  const byId = new Map<number, PaymentSummary>(summaries.map(summary => [summary.id, summary]));
+  return payments.map(payment => ({
+    payment,
+    // Bills paid off since the payment was queued are no longer offered.
+    candidates: (payment.candidateIds || [])
+      .map(id => byId.get(id))
+      .filter((summary): summary is PaymentSummary => !!summary && OPEN_STATUSES.includes(summary.status)),
+  }));
+}
+
+// Applies the user's choice for a payment: the summary it paid, or null to dismiss it.
+export function resolvePayment(paymentId: number, summaryId: number | null): Promise<void> {
+  return exclusive(async () => {
+    const payment = await getPayment(paymentId);
+    if (!payment || payment.status === "matched") throw new Error(`Payment ${paymentId} is not awaiting confirmation`);
+    const errorMessage = "Error resolving payment in IndexedDB";
+    if (summaryId === null) {
+      const dismissed = { ...payment, status: "dismissed", candidateIds: undefined, updatedAt: new Date().toISOString() };
+      await writeStores({ payments: { put: [await sealRecord("payments", dismissed)] } }, errorMessage);
+      return;
+    }
+    const summary = await getSummary(summaryId);
+    if (!summary) throw new Error(`Summary ${summaryId} does not exist`);
+    await writeReconciled(applyPayment(payment, summary), errorMessage);
+  });
+}
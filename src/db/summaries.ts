@@ -0,0 +1,187 @@
+import { exclusive, openDatabase, writeStores } from "./database";
+import { log } from "../diagnostics/log";
+import { ExtractionMode } from "../extract/rules";
+import { summaryIdentity } from "./migrations";
+import { openRecord, openRecords, sealRecord } from "./vault";
+
+export type PaymentStatus = "unpaid" | "partially_paid" | "minimum_paid" | "paid" | "overpaid";
+
+export const PAYMENT_STATUSES: PaymentStatus[] = ["unpaid", "partially_paid", "minimum_paid", "paid", "overpaid"];
+
+// Statuses of bills that still have something left to pay.
+export const OPEN_STATUSES: PaymentStatus[] = ["unpaid", "partially_paid", "minimum_paid"];
+
+export interface PaymentSummary {
+  id: number; // IndexedDB key
+  bankName: string;
+  cardLast4?: string;
+  statementPeriod?: string; // YYYY-MM
+  amountMinor: number; // Total amount due in minor units
+  minimumDueMinor?: number;
+  paidMinor: number; // Sum of the payments reconciled against this bill
+  currency: string; // ISO 4217 code
+  dueDate?: string; // YYYY-MM-DD
+  status: PaymentStatus;
+  identity: string; // bank|card|period, the dedup key
+  sourceMessageId?: string;
+  account?: string; // Mailbox the statement came from; unset for imported files and older bills
+  extractionMode?: ExtractionMode; // How the bill was read from its email; unset for bills entered before modes existed
+  lastRemindedAt?: string; // When the reminder scheduler last notified about this bill
+  snoozedUntil?: string; // No reminders before this time
+  createdAt: string;
+  updatedAt: string;
+  legacy?: unknown; // The original row for summaries migrated from the v1 schema
+}
+
+// A summary restored from a backup; IDs are assigned anew and identities recomputed.
+export type ImportedSummary = Omit<PaymentSummary, "id" | "identity">;
+
+export type NewPaymentSummary = Pick<PaymentSummary, "bankName" | "cardLast4" | "statementPeriod" | "amountMinor" | "minimumDueMinor" | "currency" | "dueDate" | "sourceMessageId" | "account" | "extractionMode">;
+
+// ----------------------
+// Payment Summary Store
+// ----------------------
+// Records are stored sealed when encryption is on; see vault.ts.
+export function getPaymentSummariesFromIndexedDB(): Promise<PaymentSummary[]> {
+  return new Promise<any[]>((resolve, reject) => {
+    openDatabase().then((db) => {
+      const transaction = db.transaction("summaries", "readonly");
+      const store = transaction.objectStore("summaries");
+      const request = store.getAll();
+      request.onsuccess = function() {
+        resolve(request.result);
+      };
+      request.onerror = function() {
+        reject("Error retrieving payment summaries from IndexedDB");
+      };
+    }).catch(reject);
+  }).then(stored => openRecords<PaymentSummary>("summaries", stored));
+}
+
+export function getSummariesByStatus(status: PaymentStatus): Promise<PaymentSummary[]> {
+  return new Promise<any[]>((resolve, reject) => {
+    openDatabase().then((db) => {
+      const transaction = db.transaction("summaries", "readonly");
+      const request = transaction.objectStore("summaries").index("status").getAll(status);
+      request.onsuccess = function() {
+        resolve(request.result);
+      };
+      request.onerror = function() {
+        reject(`Error retrieving ${status} payment summaries from IndexedDB`);
+      };
+    }).catch(reject);
+  }).then(stored => openRecords<PaymentSummary>("summaries", stored));
+}
+
+// Bills with something left to pay, across every open status.
+export async function getOpenSummaries(): Promise<PaymentSummary[]> {
+  const byStatus = await Promise.all(OPEN_STATUSES.map(getSummariesByStatus));
+  return byStatus.flat();
+}
+
+export function getSummary(id: number): Promise<PaymentSummary | undefined> {
+  return new Promise<any>((resolve, reject) => {
+    openDatabase().then((db) => {
+      const request = db.transaction("summaries", "readonly").objectStore("summaries").get(id);
+      request.onsuccess = function() {
+        resolve(request.result);
+      };
+      request.onerror = function() {
+        reject(`Error retrieving payment summary ${id} from IndexedDB`);
+      };
+    }).catch(reject);
+  }).then(stored => stored && openRecord<PaymentSummary>("summaries", stored));
+}
+
+// Applies changes to a stored summary; resolves with the updated record, or undefined
+// when there is no summary with that ID.
+export function updateSummary(id: number, changes: Partial<Omit<PaymentSummary, "id">>): Promise<PaymentSummary | undefined> {
+  return exclusive(async () => {
+    const summary = await getSummary(id);
+    if (!summary) return undefined;
+    const updated = { ...summary, ...changes, updatedAt: new Date().toISOString() };
+    await writeStores({ summaries: { put: [await sealRecord("summaries", updated)] } }, `Error updating payment summary ${id} in IndexedDB`);
+    return updated;
+  });
+}
+
+// Resolves once the transaction completes, with true if a new summary was added. A
+// summary whose bank, card and statement period are already stored is a duplicate.
+// Rejects with VaultLockedError when the store is locked.
+export function savePaymentSummaryToIndexedDB(newSummary: NewPaymentSummary): Promise<boolean> {
+  return exclusive(async () => {
+    const bankName = newSummary.bankName.trim();
+    const identity = summaryIdentity(bankName, newSummary.cardLast4, newSummary.statementPeriod);
+    const now = new Date().toISOString();
+    const sealed = await sealRecord("summaries", { ...newSummary, bankName, paidMinor: 0, status: "unpaid", identity, createdAt: now, updatedAt: now });
+    return new Promise<boolean>((resolve) => {
+      openDatabase().then((db) => {
+        const transaction = db.transaction("summaries", "readwrite");
+        const store = transaction.objectStore("summaries");
+        let saved = false;
+
+        const lookup = store.index("identity").getKey(sealed.identity);
+        lookup.onsuccess = function() {
+          if (lookup.result === undefined) {
+            store.add(sealed);
+            saved = true;
+            log.info("save", "Payment summary saved to IndexedDB.", { messageId: newSummary.sourceMessageId });
+          } else {
+            log.info("save", "Duplicate summary found. Not saving.", { messageId: newSummary.sourceMessageId });
+          }
+        };
+        lookup.onerror = function() {
+          log.error("save", "Error checking for duplicate summaries in IndexedDB.", { messageId: newSummary.sourceMessageId });
+        };
+        transaction.oncomplete = function() {
+          resolve(saved);
+        };
+        transaction.onerror = function() {
+          resolve(false);
+        };
+      }).catch(err => {
+        log.error("save", "Error saving summary to IndexedDB", { messageId: newSummary.sourceMessageId, data: err });
+        resolve(false);
+      });
+    });
+  });
+}
+
+// Adds the summaries that are not stored yet, keeping their status, payments and
+// timestamps. The dedup rule is the one new statements follow: a summary whose bank,
+// card and statement period are already stored is skipped, as is a repeat within the
+// imported list itself.
+export function importPaymentSummaries(summaries: ImportedSummary[]): Promise<{ added: number; skipped: number }> {
+  return exclusive(async () => {
+    const sealed = await Promise.all(summaries.map((summary) => {
+      const bankName = summary.bankName.trim();
+      return sealRecord("summaries", { ...summary, bankName, identity: summaryIdentity(bankName, summary.cardLast4, summary.statementPeriod) });
+    }));
+    return new Promise<{ added: number; skipped: number }>((resolve, reject) => {
+      openDatabase().then((db) => {
+        const transaction = db.transaction("summaries", "readwrite");
+        const store = transaction.objectStore("summaries");
+        const seen = new Set<string>();
+        let added = 0;
+        for (const summary of sealed) {
+          // Every lookup is issued before any add completes, so repeats are caught here.
+          if (seen.has(summary.identity)) continue;
+          seen.add(summary.identity);
+          const lookup = store.index("identity").getKey(summary.identity);
+          lookup.onsuccess = function() {
+            if (lookup.result !== undefined) return;
+            store.add(summary);
+            added++;
+          };
+        }
+        transaction.oncomplete = function() {
+          log.info("save", `Imported ${added} of ${summaries.length} payment summaries.`);
+          resolve({ added, skipped: summaries.length - added });
+        };
+        transaction.onerror = function() {
+          reject("Error importing payment summaries into IndexedDB");
+        };
+      }).catch(reject);
+    });
+  });
+}
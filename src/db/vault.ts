@@ -0,0 +1,356 @@
+import { log } from "../diagnostics/log";
+import { exclusive, openDatabase } from "./database";
+
+// ----------------------
+// Encryption at Rest
+// ----------------------
+// Opt-in encryption of the bill, payment and ledger stores with a key derived from the
+// user's passphrase (PBKDF2-SHA-256, AES-GCM). Each record keeps in the clear only what
+// its indexes and links need; every other field is sealed in one AES-GCM blob bound to
+// its store. The bill identity, which names the bank and card, is replaced in the clear
+// by an HMAC of it, so duplicates are still found through the identity index. A few
+// values in chrome.storage.local, such as the details PDF passwords are built from,
+// are sealed whole in the same way.
+//
+// The derived key lives in memory and in chrome.storage.session, which is never
+// written to disk, so a service worker restart does not lock the store; it is dropped
+// on lock, on auto-lock and when the browser closes. Reading or writing bills while
+// locked throws VaultLockedError. Records written before encryption was enabled stay
+// readable, so a half-finished re-encryption never loses data.
+
+export type SealedStore = "summaries" | "payments" | "processedMessages";
+
+// chrome.storage.local keys whose values are sealed with the records.
+export type SealedItem = "pdfPasswordProfile";
+
+export interface SealedData {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+export interface VaultStatus {
+  enabled: boolean;
+  locked: boolean;
+  autoLockMinutes: number; // 0 keeps the store unlocked until the browser closes
+  lockAt?: number; // Epoch milliseconds of the next auto-lock
+}
+
+interface VaultConfig {
+  salt: string; // Base64
+  iterations: number;
+  check: { iv: string; data: string }; // CHECK_VALUE sealed with the key, to tell a wrong passphrase
+  autoLockMinutes: number;
+}
+
+interface VaultKeys {
+  bits: ArrayBuffer; // Kept to restore the keys after a service worker restart
+  aes: CryptoKey;
+  hmac: CryptoKey;
+}
+
+export class VaultLockedError extends Error {
+  constructor() {
+    super("Your bills are locked; unlock them with your passphrase");
+  }
+}
+
+export const AUTO_LOCK_ALARM = "vaultAutoLock";
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+const PBKDF2_ITERATIONS = 600000;
+const CHECK_VALUE = "bill-tracker-vault";
+const IDENTITY_PREFIX = "hmac:";
+
+// Fields left in the clear: keys, indexes and the links between records.
+const CLEAR_FIELDS: Record<SealedStore, string[]> = {
+  summaries: ["id", "status", "identity", "sourceMessageId", "createdAt", "updatedAt"],
+  payments: ["id", "status", "summaryId", "candidateIds", "sourceMessageId", "createdAt", "updatedAt"],
+  processedMessages: ["messageId", "source", "account", "stream", "status", "receivedAt", "link", "attempts", "updatedAt"],
+};
+
+const SEALED_STORES: SealedStore[] = ["summaries", "payments", "processedMessages"];
+const SEALED_ITEMS: SealedItem[] = ["pdfPasswordProfile"];
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toBase64(bytes: ArrayBuffer | Uint8Array): string {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)));
+}
+
+function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), char => char.charCodeAt(0));
+}
+
+// ----------------------
+// Keys
+// ----------------------
+let unlockedKeys: VaultKeys | null = null;
+
+async function getConfig(): Promise<VaultConfig | null> {
+  return (await chrome.storage.local.get("vault")).vault || null;
+}
+
+async function setConfig(next: VaultConfig | null): Promise<void> {
+  if (next) await chrome.storage.local.set({ vault: next });
+  else await chrome.storage.local.remove("vault");
+}
+
+async function importKeys(bits: ArrayBuffer): Promise<VaultKeys> {
+  const aes = await crypto.subtle.importKey("raw", bits.slice(0, 32), "AES-GCM", false, ["encrypt", "decrypt"]);
+  const hmac = await crypto.subtle.importKey("raw", bits.slice(32), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  return { bits, aes, hmac };
+}
+
+// 512 bits: the first half is the AES key, the second the HMAC key for identities.
+async function deriveKeys(passphrase: string, salt: Uint8Array, iterations: number): Promise<VaultKeys> {
+  const material = await crypto.subtle.importKey("raw", encoder.encode(passphrase), "PBKDF2", false, ["deriveBits"]);
+  return importKeys(await crypto.subtle.deriveBits({ name: "PBKDF2", hash: "SHA-256", salt, iterations }, material, 512));
+}
+
+async function encrypt(keys: VaultKeys, value: unknown, context: string): Promise<SealedData> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: "AES-GCM", iv, additionalData: encoder.encode(context) }, keys.aes, encoder.encode(JSON.stringify(value)));
+  return { iv, data };
+}
+
+async function decrypt(keys: VaultKeys, sealed: { iv: Uint8Array; data: BufferSource }, context: string): Promise<any> {
+  const data = await crypto.subtle.decrypt({ name: "AES-GCM", iv: sealed.iv, additionalData: encoder.encode(context) }, keys.aes, sealed.data);
+  return JSON.parse(decoder.decode(data));
+}
+
+// Derives the keys for a passphrase and checks them against the stored check value.
+async function keysForPassphrase(current: VaultConfig, passphrase: string): Promise<VaultKeys> {
+  const candidate = await deriveKeys(passphrase, fromBase64(current.salt), current.iterations);
+  try {
+    await decrypt(candidate, { iv: fromBase64(current.check.iv), data: fromBase64(current.check.data) }, "check");
+  } catch {
+    throw new Error("Wrong passphrase");
+  }
+  return candidate;
+}
+
+async function newConfig(passphrase: string, autoLockMinutes: number): Promise<{ config: VaultConfig; keys: VaultKeys }> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const derived = await deriveKeys(passphrase, salt, PBKDF2_ITERATIONS);
+  const check = await encrypt(derived, CHECK_VALUE, "check");
+  return {
+    config: { salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, check: { iv: toBase64(check.iv), data: toBase64(check.data) }, autoLockMinutes },
+    keys: derived,
+  };
+}
+
+// Keeps the keys for this browser session and schedules the auto-lock.
+async function startSession(unlocked: VaultKeys, autoLockMinutes: number): Promise<void> {
+  unlockedKeys = unlocked;
+  const lockAt = autoLockMinutes > 0 ? Date.now() + autoLockMinutes * 60 * 1000 : null;
+  await chrome.storage.session.set({ vaultSession: { bits: toBase64(unlocked.bits), lockAt } });
+  if (lockAt) chrome.alarms.create(AUTO_LOCK_ALARM, { when: lockAt });
+  else chrome.alarms.clear(AUTO_LOCK_ALARM);
+}
+
+// The unlocked keys, restored from the session after a service worker restart; null
+// when encryption is off or the store is locked.
+async function currentKeys(): Promise<VaultKeys | null> {
+  if (!await getConfig()) return null;
+  const { vaultSession } = await chrome.storage.session.get("vaultSession");
+  if (!vaultSession || (vaultSession.lockAt && vaultSession.lockAt <= Date.now())) {
+    if (unlockedKeys || vaultSession) await lockVault();
+    return null;
+  }
+  if (!unlockedKeys) unlockedKeys = await importKeys(fromBase64(vaultSession.bits).buffer as ArrayBuffer);
+  return unlockedKeys;
+}
+
+async function requireKeys(): Promise<VaultKeys | null> {
+  const current = await currentKeys();
+  if (!current && await getConfig()) throw new VaultLockedError();
+  return current;
+}
+
+// ----------------------
+// Lock State
+// ----------------------
+export async function getVaultStatus(): Promise<VaultStatus> {
+  const current = await getConfig();
+  if (!current) return { enabled: false, locked: false, autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES };
+  const unlocked = await currentKeys();
+  const { vaultSession } = await chrome.storage.session.get("vaultSession");
+  return { enabled: true, locked: !unlocked, autoLockMinutes: current.autoLockMinutes, lockAt: (unlocked && vaultSession?.lockAt) || undefined };
+}
+
+export async function isVaultLocked(): Promise<boolean> {
+  return (await getVaultStatus()).locked;
+}
+
+export async function unlockVault(passphrase: string): Promise<void> {
+  const current = await getConfig();
+  if (!current) throw new Error("Encryption is not enabled");
+  await startSession(await keysForPassphrase(current, passphrase), current.autoLockMinutes);
+  log.info("save", "Bills unlocked.");
+}
+
+export async function lockVault(): Promise<void> {
+  unlockedKeys = null;
+  await chrome.storage.session.remove("vaultSession");
+  await chrome.alarms.clear(AUTO_LOCK_ALARM);
+  log.info("save", "Bills locked.");
+}
+
+// Applies from the next unlock; a running session keeps its auto-lock time.
+export async function setAutoLockMinutes(autoLockMinutes: number): Promise<void> {
+  const current = await getConfig();
+  if (!current) throw new Error("Encryption is not enabled");
+  await setConfig({ ...current, autoLockMinutes });
+}
+
+// ----------------------
+// Records
+// ----------------------
+async function blindIdentity(vaultKeys: VaultKeys, identity: string): Promise<string> {
+  return IDENTITY_PREFIX + toBase64(await crypto.subtle.sign("HMAC", vaultKeys.hmac, encoder.encode(identity)));
+}
+
+async function sealWith(vaultKeys: VaultKeys | null, store: SealedStore, record: any): Promise<any> {
+  if (!vaultKeys) return record;
+  const clear: Record<string, unknown> = {};
+  const secret: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(record)) {
+    if (value === undefined) continue;
+    if (CLEAR_FIELDS[store].includes(field)) clear[field] = value;
+    else secret[field] = value;
+  }
+  if (store === "summaries") {
+    secret.identity = record.identity;
+    clear.identity = await blindIdentity(vaultKeys, record.identity);
+  }
+  return { ...clear, sealed: await encrypt(vaultKeys, secret, store) };
+}
+
+async function openWith<T>(vaultKeys: VaultKeys | null, store: SealedStore, stored: any): Promise<T> {
+  if (!stored?.sealed) return stored;
+  if (!vaultKeys) throw new VaultLockedError();
+  const { sealed, ...clear } = stored;
+  return { ...clear, ...await decrypt(vaultKeys, sealed, store) };
+}
+
+// The form a record is stored in: sealed when encryption is on, as it is otherwise.
+export async function sealRecord(store: SealedStore, record: any): Promise<any> {
+  return sealWith(await requireKeys(), store, record);
+}
+
+export async function openRecord<T>(store: SealedStore, stored: any): Promise<T> {
+  return openWith<T>(await currentKeys(), store, stored);
+}
+
+export async function openRecords<T>(store: SealedStore, stored: any[]): Promise<T[]> {
+  const current = await currentKeys();
+  return Promise.all(stored.map(record => openWith<T>(current, store, record)));
+}
+
+// ----------------------
+// Storage Items
+// ----------------------
+// chrome.storage.local holds JSON only, so the sealed bytes are kept as base64.
+async function sealItemWith(vaultKeys: VaultKeys | null, item: SealedItem, value: unknown): Promise<unknown> {
+  if (!vaultKeys || value === undefined) return value;
+  const sealed = await encrypt(vaultKeys, value, item);
+  return { sealed: { iv: toBase64(sealed.iv), data: toBase64(sealed.data) } };
+}
+
+async function openItemWith<T>(vaultKeys: VaultKeys | null, item: SealedItem, stored: any): Promise<T> {
+  if (!stored?.sealed) return stored;
+  if (!vaultKeys) throw new VaultLockedError();
+  return decrypt(vaultKeys, { iv: fromBase64(stored.sealed.iv), data: fromBase64(stored.sealed.data) }, item);
+}
+
+// The form a storage item is kept in: sealed when encryption is on, as it is otherwise.
+export async function sealItem(item: SealedItem, value: unknown): Promise<unknown> {
+  return sealItemWith(await requireKeys(), item, value);
+}
+
+// Rejects with VaultLockedError when the item is sealed and the store is locked.
+export async function openItem<T>(item: SealedItem, stored: unknown): Promise<T> {
+  return openItemWith<T>(await currentKeys(), item, stored);
+}
+
+// ----------------------
+// Re-encryption
+// ----------------------
+// Rewrites every bill, payment and ledger entry from one key to another (null is
+// plaintext) in a single transaction, so the stores never hold records under two keys,
+// then the sealed storage items, and runs `commit` to switch to the new key before any
+// other write can start.
+function resealAll(from: VaultKeys | null, to: VaultKeys | null, commit: () => Promise<void>): Promise<number> {
+  return exclusive(async () => {
+    const stored = await new Promise<Record<SealedStore, any[]>>((resolve, reject) => {
+      openDatabase().then((db) => {
+        const transaction = db.transaction(SEALED_STORES, "readonly");
+        const requests = SEALED_STORES.map(store => transaction.objectStore(store).getAll());
+        transaction.oncomplete = function() {
+          resolve(Object.fromEntries(SEALED_STORES.map((store, i) => [store, requests[i].result])) as Record<SealedStore, any[]>);
+        };
+        transaction.onerror = function() {
+          reject("Error reading records to re-encrypt");
+        };
+      }).catch(reject);
+    });
+    const resealed = {} as Record<SealedStore, any[]>;
+    for (const store of SEALED_STORES) {
+      resealed[store] = await Promise.all(stored[store].map(async record => sealWith(to, store, await openWith(from, store, record))));
+    }
+    await new Promise<void>((resolve, reject) => {
+      openDatabase().then((db) => {
+        const transaction = db.transaction(SEALED_STORES, "readwrite");
+        for (const store of SEALED_STORES) {
+          for (const record of resealed[store]) transaction.objectStore(store).put(record);
+        }
+        transaction.oncomplete = function() {
+          resolve();
+        };
+        transaction.onerror = function() {
+          reject("Error writing re-encrypted records");
+        };
+      }).catch(reject);
+    });
+    const items = await chrome.storage.local.get(SEALED_ITEMS);
+    for (const item of SEALED_ITEMS) {
+      if (items[item] === undefined) continue;
+      await chrome.storage.local.set({ [item]: await sealItemWith(to, item, await openItemWith(from, item, items[item])) });
+    }
+    await commit();
+    return SEALED_STORES.reduce((count, store) => count + resealed[store].length, 0);
+  });
+}
+
+export async function enableEncryption(passphrase: string, autoLockMinutes = DEFAULT_AUTO_LOCK_MINUTES): Promise<void> {
+  if (await getConfig()) throw new Error("Encryption is already enabled");
+  const created = await newConfig(passphrase, autoLockMinutes);
+  // Plaintext records stay readable under the new config, so it can be saved first.
+  await setConfig(created.config);
+  await startSession(created.keys, autoLockMinutes);
+  const count = await resealAll(null, created.keys, async () => {});
+  log.info("save", `Encryption enabled; ${count} record(s) encrypted.`);
+}
+
+export async function changePassphrase(currentPassphrase: string, nextPassphrase: string): Promise<void> {
+  const current = await getConfig();
+  if (!current) throw new Error("Encryption is not enabled");
+  const previous = await keysForPassphrase(current, currentPassphrase);
+  const created = await newConfig(nextPassphrase, current.autoLockMinutes);
+  const count = await resealAll(previous, created.keys, async () => {
+    await setConfig(created.config);
+    await startSession(created.keys, current.autoLockMinutes);
+  });
+  log.info("save", `Passphrase changed; ${count} record(s) re-encrypted.`);
+}
+
+export async function disableEncryption(passphrase: string): Promise<void> {
+  const current = await getConfig();
+  if (!current) throw new Error("Encryption is not enabled");
+  const count = await resealAll(await keysForPassphrase(current, passphrase), null, async () => {
+    await setConfig(null);
+    await lockVault();
+  });
+  log.info("save", `Encryption disabled; ${count} record(s) decrypted.`);
+}
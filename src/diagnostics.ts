@@ -0,0 +1,127 @@
+"use strict";
+
+import "./options.css";
+import "./diagnostics.css";
+import { LOG_STAGES, LogEntry, LogFilter, LogLevel, LogStage } from "./diagnostics/log";
+import { sendRequest } from "./protocol";
+
+// The diagnostics page reads the persisted log through the background protocol, so it
+// shows what the service worker did even after it went idle. Entries are redacted when
+// they are written; the debug bundle is redacted again as a whole.
+
+function showNotification(message: string, type: "success" | "error" = "success") {
+  const notificationBar = document.getElementById("notificationBar");
+  if (!notificationBar) return;
+  notificationBar.textContent = message;
+  notificationBar.className = type;
+  notificationBar.style.display = "block";
+  setTimeout(() => {
+    notificationBar.style.display = "none";
+  }, 4000);
+}
+
+function field(id: string): HTMLInputElement | HTMLSelectElement {
+  return document.getElementById(id) as HTMLInputElement | HTMLSelectElement;
+}
+
+function downloadFile(fileName: string, mimeType: string, content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// ----------------------
+// Log Table
+// ----------------------
+function currentFilter(): LogFilter {
+  return {
+    minLevel: field("minLevel").value as LogLevel,
+    stage: (field("stage").value || undefined) as LogStage | undefined,
+    messageId: field("messageId").value.trim() || undefined,
+    text: field("text").value.trim() || undefined,
+  };
+}
+
+function renderEntry(entry: LogEntry): HTMLTableRowElement {
+  const row = document.createElement("tr");
+  row.className = entry.level;
+  const time = document.createElement("td");
+  time.textContent = new Date(entry.time).toLocaleString();
+  time.title = entry.time;
+  const level = document.createElement("td");
+  level.textContent = entry.level;
+  const stage = document.createElement("td");
+  stage.textContent = entry.stage;
+  const details = document.createElement("td");
+  if (entry.messageId) {
+    // Clicking a message ID narrows the log down to that message.
+    const messageId = document.createElement("span");
+    messageId.className = "messageId";
+    messageId.textContent = entry.messageId;
+    messageId.title = "Show only this message";
+    messageId.addEventListener("click", () => {
+      field("messageId").value = entry.messageId!;
+      loadLog();
+    });
+    details.appendChild(messageId);
+  }
+  details.append(entry.message);
+  if (entry.data !== undefined) {
+    const data = document.createElement("pre");
+    data.textContent = typeof entry.data === "string" ? entry.data : JSON.stringify(entry.data, null, 2);
+    details.appendChild(data);
+  }
+  row.append(time, level, stage, details);
+  return row;
+}
+
+async function loadLog() {
+  try {
+    const { entries } = await sendRequest({ type: "getLogEntries", filter: currentFilter() });
+    document.querySelector("#logTable tbody")!.replaceChildren(...entries.map(renderEntry));
+    document.getElementById("logEmpty")!.hidden = entries.length > 0;
+  } catch (error) {
+    console.error(" Failed to load the log:", error);
+    showNotification(error instanceof Error ? error.message : String(error), "error");
+  }
+}
+
+for (const stage of LOG_STAGES) {
+  const option = document.createElement("option");
+  option.value = stage;
+  option.textContent = stage;
+  field("stage").appendChild(option);
+}
+
+for (const id of ["minLevel", "stage"]) field(id).addEventListener("change", loadLog);
+for (const id of ["messageId", "text"]) {
+  field(id).addEventListener("keydown", (event) => {
+    if ((event as KeyboardEvent).key === "Enter") loadLog();
+  });
+}
+document.getElementById("refreshLog")?.addEventListener("click", loadLog);
+
+// ----------------------
+// Debug Bundle
+// ----------------------
+document.getElementById("exportDebugBundle")?.addEventListener("click", async () => {
+  try {
+    const file = await sendRequest({ type: "exportDebugBundle" });
+    downloadFile(file.fileName, file.mimeType, file.content);
+  } catch (error) {
+    console.error(" Debug bundle export failed:", error);
+    showNotification(error instanceof Error ? error.message : String(error), "error");
+  }
+});
+
+document.getElementById("clearLog")?.addEventListener("click", async () => {
+  if (!confirm("Clear the diagnostics log?")) return;
+  await sendRequest({ type: "clearLog" });
+  await loadLog();
+  showNotification("Log cleared");
+});
+
+document.addEventListener("DOMContentLoaded", loadLog);
@@ -0,0 +1,64 @@
+import { LATEST_VERSION } from "../db/migrations";
+import { getLedgerEntries, getLedgerStatuses } from "../db/ledger";
+import { getPayments } from "../db/payments";
+import { getPaymentSummariesFromIndexedDB } from "../db/summaries";
+import { getVaultStatus } from "../db/vault";
+import { ExportFile } from "../export/backup";
+import { redactValue } from "../extract/redact";
+import { getGmailAccounts } from "../mail/accounts";
+import { getMailSourceConfig } from "../mail/sources";
+import { EngineState, PROTOCOL_VERSION } from "../protocol";
+import { getReminderSettings } from "../reminders/settings";
+import { getSettings } from "../settings";
+import { getLogEntries, MAX_LOG_ENTRIES } from "./log";
+
+// ----------------------
+// Debug Bundle
+// ----------------------
+// One JSON file a user can attach to a bug report: versions, settings, the engine's
+// state, what the ledger recorded for each message, the stored bills and payments,
+// and the whole diagnostics log. Email bodies are left out, and every string goes
+// through redactValue, so it holds no more personal data than the log itself. While
+// the bills are locked, they are left out too, and ledger entries keep only their
+// status.
+
+export interface EngineDiagnostics {
+  state: EngineState;
+  loadedModelId: string | null;
+  webGPU: boolean;
+}
+
+const BUNDLE_FORMAT = "bill-tracker-debug-bundle";
+const BUNDLE_VERSION = 1;
+
+export async function createDebugBundle(engine: EngineDiagnostics, now = Date.now()): Promise<ExportFile> {
+  const vault = await getVaultStatus();
+  const bundle = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    createdAt: new Date(now).toISOString(),
+    extension: {
+      version: chrome.runtime.getManifest().version,
+      protocolVersion: PROTOCOL_VERSION,
+      databaseVersion: LATEST_VERSION,
+      userAgent: typeof navigator !== "undefined" ? navigator.userAgent : undefined,
+    },
+    engine,
+    settings: await getSettings(),
+    reminders: await getReminderSettings(),
+    mailSources: await getMailSourceConfig(),
+    gmailAccounts: await getGmailAccounts(),
+    ledger: vault.locked
+      ? await getLedgerStatuses()
+      : (await getLedgerEntries()).map(({ content, ...entry }) => ({ ...entry, contentLength: content?.length })),
+    vault: { enabled: vault.enabled, locked: vault.locked, autoLockMinutes: vault.autoLockMinutes },
+    summaries: vault.locked ? "locked" : (await getPaymentSummariesFromIndexedDB()).map(({ legacy: _legacy, ...summary }) => summary),
+    payments: vault.locked ? "locked" : await getPayments(),
+    log: await getLogEntries({ limit: MAX_LOG_ENTRIES }),
+  };
+  return {
+    fileName: `bill-tracker-debug-${bundle.createdAt.substring(0, 10)}.json`,
+    mimeType: "application/json",
+    content: JSON.stringify(redactValue(bundle), null, 2),
+  };
+}
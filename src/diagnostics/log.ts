@@ -0,0 +1,198 @@
+import { openDatabase } from "../db/database";
+import { redact, redactValue } from "../extract/redact";
+
+// ----------------------
+// Diagnostics Log
+// ----------------------
+// A leveled log of what the pipeline did, tagged with the stage and, where there is
+// one, the mail message ID. Entries are redacted, mirrored to the console and kept in
+// IndexedDB as a ring buffer of the newest MAX_LOG_ENTRIES, so they survive the service
+// worker going idle. Writes are batched and never throw: logging must not break the
+// pipeline. Where IndexedDB does not exist (the evaluation harness) entries only go to
+// the console.
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogStage = "auth" | "search" | "fetch" | "parse" | "llm" | "save" | "notify" | "system";
+
+export const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+export const LOG_STAGES: LogStage[] = ["auth", "search", "fetch", "parse", "llm", "save", "notify", "system"];
+
+export interface LogContext {
+  messageId?: string;
+  data?: unknown; // Details shown with the entry; errors are stored by name, message and stack
+}
+
+export interface LogEntry {
+  id?: number; // IndexedDB key, increasing with time
+  time: string;
+  level: LogLevel;
+  stage: LogStage;
+  message: string;
+  messageId?: string;
+  data?: unknown;
+}
+
+export interface LogFilter {
+  minLevel?: LogLevel;
+  stage?: LogStage;
+  messageId?: string;
+  text?: string; // Case-insensitive match on the message and its details
+  limit?: number;
+}
+
+export const MAX_LOG_ENTRIES = 2000;
+const DEFAULT_FILTER_LIMIT = 500;
+
+// Errors lose their message through structured cloning, and some data holds values
+// IndexedDB cannot store, so details go through JSON first.
+function toStorable(data: unknown): unknown {
+  if (data === undefined) return undefined;
+  try {
+    return JSON.parse(JSON.stringify(data, (_key, value) =>
+      value instanceof Error ? { name: value.name, message: value.message, stack: value.stack } : value
+    ));
+  } catch {
+    return String(data);
+  }
+}
+
+function mirrorToConsole(entry: LogEntry) {
+  const line = ` [${entry.stage}]${entry.messageId ? ` ${entry.messageId}` : ""} ${entry.message}`;
+  const details = entry.data === undefined ? [] : [entry.data];
+  if (entry.level === "error") console.error(line, ...details);
+  else if (entry.level === "warn") console.warn(line, ...details);
+  else console.log(line, ...details);
+}
+
+// ----------------------
+// Persistence
+// ----------------------
+let pending: LogEntry[] = [];
+let flushing: Promise<void> | null = null;
+
+// Adds a batch of entries and drops the oldest beyond MAX_LOG_ENTRIES, in one transaction.
+function appendEntries(entries: LogEntry[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    openDatabase().then((db) => {
+      const transaction = db.transaction("logs", "readwrite");
+      const store = transaction.objectStore("logs");
+      for (const entry of entries) store.add(entry);
+      const countRequest = store.count();
+      countRequest.onsuccess = function() {
+        let excess = countRequest.result - MAX_LOG_ENTRIES;
+        if (excess <= 0) return;
+        store.openCursor().onsuccess = function(event) {
+          const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+          if (!cursor || excess <= 0) return;
+          cursor.delete();
+          excess--;
+          cursor.continue();
+        };
+      };
+      transaction.oncomplete = function() {
+        resolve();
+      };
+      transaction.onerror = function() {
+        reject("Error writing the diagnostics log");
+      };
+    }).catch(reject);
+  });
+}
+
+// Resolves once every entry logged so far is in IndexedDB.
+export function flushLog(): Promise<void> {
+  if (!flushing) {
+    flushing = (async () => {
+      while (pending.length > 0) {
+        const batch = pending;
+        pending = [];
+        try {
+          await appendEntries(batch);
+        } catch (error) {
+          console.warn(" Could not persist log entries:", error);
+        }
+      }
+    })().finally(() => {
+      flushing = null;
+      // Entries logged while the last batch was settling.
+      if (pending.length > 0) flushLog();
+    });
+  }
+  return flushing;
+}
+
+function record(level: LogLevel, stage: LogStage, message: string, context: LogContext = {}) {
+  const entry: LogEntry = { time: new Date().toISOString(), level, stage, message: redact(message) };
+  if (context.messageId) entry.messageId = context.messageId;
+  const data = redactValue(toStorable(context.data));
+  if (data !== undefined) entry.data = data;
+  mirrorToConsole(entry);
+  if (typeof indexedDB === "undefined") return;
+  pending.push(entry);
+  flushLog();
+}
+
+export const log = {
+  debug: (stage: LogStage, message: string, context?: LogContext) => record("debug", stage, message, context),
+  info: (stage: LogStage, message: string, context?: LogContext) => record("info", stage, message, context),
+  warn: (stage: LogStage, message: string, context?: LogContext) => record("warn", stage, message, context),
+  error: (stage: LogStage, message: string, context?: LogContext) => record("error", stage, message, context),
+};
+
+// ----------------------
+// Reading the Log
+// ----------------------
+function matchesFilter(entry: LogEntry, filter: LogFilter): boolean {
+  if (filter.minLevel && LOG_LEVELS.indexOf(entry.level) < LOG_LEVELS.indexOf(filter.minLevel)) return false;
+  if (filter.stage && entry.stage !== filter.stage) return false;
+  if (filter.messageId && entry.messageId !== filter.messageId) return false;
+  if (filter.text) {
+    const haystack = `${entry.message} ${entry.data === undefined ? "" : JSON.stringify(entry.data)}`.toLowerCase();
+    if (!haystack.includes(filter.text.toLowerCase())) return false;
+  }
+  return true;
+}
+
+// Entries matching the filter, newest first.
+export async function getLogEntries(filter: LogFilter = {}): Promise<LogEntry[]> {
+  await flushLog();
+  const limit = filter.limit ?? DEFAULT_FILTER_LIMIT;
+  return new Promise((resolve, reject) => {
+    openDatabase().then((db) => {
+      const entries: LogEntry[] = [];
+      const store = db.transaction("logs", "readonly").objectStore("logs");
+      // One message's entries come from the index, still in the order they were written.
+      const request = filter.messageId
+        ? store.index("messageId").openCursor(IDBKeyRange.only(filter.messageId), "prev")
+        : store.openCursor(null, "prev");
+      request.onsuccess = function() {
+        const cursor = request.result;
+        if (!cursor || entries.length >= limit) {
+          resolve(entries);
+          return;
+        }
+        if (matchesFilter(cursor.value, filter)) entries.push(cursor.value);
+        cursor.continue();
+      };
+      request.onerror = function() {
+        reject("Error reading the diagnostics log");
+      };
+    }).catch(reject);
+  });
+}
+
+export async function clearLog(): Promise<void> {
+  await flushLog();
+  return new Promise((resolve, reject) => {
+    openDatabase().then((db) => {
+      const transaction = db.transaction("logs", "readwrite");
+      transaction.objectStore("logs").clear();
+      transaction.oncomplete = function() {
+        resolve();
+      };
+      transaction.onerror = function() {
+        reject("Error clearing the diagnostics log");
+      };
+    }).catch(reject);
+  });
+}
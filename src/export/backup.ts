@@ -0,0 +1,92 @@
+import { ImportedSummary, PAYMENT_STATUSES, PaymentSummary } from "../db/summaries";
+import { ExtractionMode } from "../extract/rules";
+import { ReminderSettings } from "../reminders/settings";
+import { summariesToCsv } from "./csv";
+import { summariesToIcs } from "./ics";
+
+// ----------------------
+// Backups and Exports
+// ----------------------
+// The JSON backup holds every stored summary field as it is, so a backup restored in
+// another browser keeps each bill's status, payments and history. Importing validates
+// the whole file before anything is written.
+
+export type ExportFormat = "csv" | "json" | "ics";
+
+export interface ExportFile {
+  fileName: string;
+  mimeType: string;
+  content: string;
+}
+
+export interface SummaryBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  summaries: PaymentSummary[];
+}
+
+const BACKUP_FORMAT = "bill-tracker-backup";
+const BACKUP_VERSION = 1;
+const EXTRACTION_MODES: ExtractionMode[] = ["llm", "rules", "hybrid"];
+
+export function createBackup(summaries: PaymentSummary[], now = Date.now()): SummaryBackup {
+  return { format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: new Date(now).toISOString(), summaries };
+}
+
+function isOptional(value: unknown, type: "string" | "number"): boolean {
+  return value === undefined || typeof value === type;
+}
+
+function validateSummary(value: any, index: number): ImportedSummary {
+  const problem = (message: string) => new Error(`Bill ${index + 1} in the backup ${message}`);
+  if (typeof value !== "object" || value === null) throw problem("is not an object");
+  if (typeof value.bankName !== "string" || !value.bankName.trim()) throw problem("has no bank name");
+  for (const field of ["amountMinor", "paidMinor"]) {
+    if (!Number.isInteger(value[field])) throw problem(`has an invalid ${field}`);
+  }
+  if (value.minimumDueMinor !== undefined && !Number.isInteger(value.minimumDueMinor)) throw problem("has an invalid minimumDueMinor");
+  if (typeof value.currency !== "string" || !/^[A-Z]{3}$/.test(value.currency)) throw problem("has an invalid currency");
+  if (!PAYMENT_STATUSES.includes(value.status)) throw problem(`has an unknown status "${value.status}"`);
+  if (value.dueDate !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(value.dueDate)) throw problem("has an invalid due date");
+  if (value.statementPeriod !== undefined && !/^\d{4}-\d{2}$/.test(value.statementPeriod)) throw problem("has an invalid statement period");
+  if (value.extractionMode !== undefined && !EXTRACTION_MODES.includes(value.extractionMode)) throw problem("has an unknown extraction mode");
+  for (const field of ["cardLast4", "sourceMessageId", "account", "lastRemindedAt", "snoozedUntil"]) {
+    if (!isOptional(value[field], "string")) throw problem(`has an invalid ${field}`);
+  }
+  for (const field of ["createdAt", "updatedAt"]) {
+    if (typeof value[field] !== "string") throw problem(`has no ${field}`);
+  }
+  const { id: _id, identity: _identity, ...summary } = value;
+  return summary;
+}
+
+// Parses and validates a backup file; throws with the first problem found.
+export function parseBackup(text: string): ImportedSummary[] {
+  let backup: any;
+  try {
+    backup = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+  if (backup?.format !== BACKUP_FORMAT) throw new Error("The file is not a Bill Tracker backup");
+  if (typeof backup.version !== "number" || backup.version > BACKUP_VERSION) {
+    throw new Error(`Backup version ${backup.version} is not supported; update the extension to import it`);
+  }
+  if (!Array.isArray(backup.summaries)) throw new Error("The backup has no bills");
+  return backup.summaries.map(validateSummary);
+}
+
+export function exportSummaries(format: ExportFormat, summaries: PaymentSummary[], reminders: ReminderSettings, now = Date.now()): ExportFile {
+  const date = new Date(now).toISOString().substring(0, 10);
+  switch (format) {
+    case "csv":
+      return { fileName: `bills-${date}.csv`, mimeType: "text/csv", content: summariesToCsv(summaries) };
+    case "json":
+      return { fileName: `bills-backup-${date}.json`, mimeType: "application/json", content: JSON.stringify(createBackup(summaries, now), null, 2) };
+    case "ics":
+      return { fileName: `bills-${date}.ics`, mimeType: "text/calendar", content: summariesToIcs(summaries, reminders, now) };
+    default:
+      throw new Error(`Unknown export format: ${format}`);
+  }
+}
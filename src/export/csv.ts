@@ -0,0 +1,55 @@
+import { PaymentSummary } from "../db/summaries";
+import { formatPlainAmount } from "../extract/normalize";
+
+// ----------------------
+// CSV Export
+// ----------------------
+// One row per bill, for spreadsheets. Amounts are written in major units with the
+// currency's decimals, matching the minor units parseAmount produces, and dates stay ISO so
+// spreadsheets sort them correctly.
+
+interface Column {
+  header: string;
+  value: (summary: PaymentSummary) => string | number | undefined;
+  amount?: boolean; // Written by formatPlainAmount, so never a formula
+}
+
+const COLUMNS: Column[] = [
+  { header: "Bank", value: summary => summary.bankName },
+  { header: "Card", value: summary => summary.cardLast4 },
+  { header: "Statement period", value: summary => summary.statementPeriod },
+  { header: "Due date", value: summary => summary.dueDate },
+  { header: "Currency", value: summary => summary.currency },
+  { header: "Amount due", value: summary => toMajorUnits(summary.amountMinor, summary.currency), amount: true },
+  { header: "Minimum due", value: summary => toMajorUnits(summary.minimumDueMinor, summary.currency), amount: true },
+  { header: "Paid", value: summary => toMajorUnits(summary.paidMinor, summary.currency), amount: true },
+  { header: "Status", value: summary => summary.status },
+  { header: "Extraction mode", value: summary => summary.extractionMode },
+  { header: "Mailbox", value: summary => summary.account },
+  { header: "Source message", value: summary => summary.sourceMessageId },
+  { header: "Created", value: summary => summary.createdAt },
+  { header: "Updated", value: summary => summary.updatedAt },
+];
+
+function toMajorUnits(amountMinor: number | undefined, currency: string): string | undefined {
+  return amountMinor === undefined ? undefined : formatPlainAmount({ amountMinor, currency });
+}
+
+// Quotes fields that need it (RFC 4180). Text starting like a formula is prefixed with
+// an apostrophe, since bank names come from emails and spreadsheets would evaluate it.
+// Amounts are left alone so a credit balance such as -123.45 stays a number.
+function csvField(value: string | number | undefined, amount = false): string {
+  if (value === undefined) return "";
+  let text = String(value);
+  if (!amount && typeof value === "string" && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function summariesToCsv(summaries: PaymentSummary[]): string {
+  const rows = [COLUMNS.map(column => column.header)];
+  const sorted = [...summaries].sort((a, b) => (a.dueDate || "").localeCompare(b.dueDate || "") || a.id - b.id);
+  for (const summary of sorted) {
+    rows.push(COLUMNS.map(column => csvField(column.value(summary), column.amount)));
+  }
+  return rows.map(row => row.join(",")).join("\r\n") + "\r\n";
+}
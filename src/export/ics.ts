@@ -0,0 +1,122 @@
+import { OPEN_STATUSES, PaymentSummary } from "../db/summaries";
+import { formatAmount } from "../extract/normalize";
+import { ReminderSettings } from "../reminders/settings";
+
+// ----------------------
+// iCalendar Export
+// ----------------------
+// One all-day VEVENT per bill with a due date (RFC 5545). Bills still open get a
+// VALARM for each reminder offset, at the configured reminder hour, so calendar apps
+// remind the user the same days the extension does. UIDs come from the bill identity,
+// so importing a newer export updates the events instead of duplicating them.
+
+const PRODUCT_ID = "-//Bill Tracker//Bill Due Dates//EN";
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+function escapeText(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// Folds lines longer than 75 octets, without splitting a UTF-8 character.
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > MAX_LINE_OCTETS) {
+      parts.push(current);
+      current = " ";
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n");
+}
+
+function icsDate(isoDate: string): string {
+  return isoDate.replace(/-/g, "");
+}
+
+function icsTimestamp(time: number): string {
+  return new Date(time).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function nextDay(isoDate: string): string {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString().substring(0, 10);
+}
+
+// Duration from the start of the due date, e.g. -P6DT15H for 9:00 seven days before.
+function triggerDuration(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "";
+  let remaining = Math.abs(minutes);
+  const days = Math.floor(remaining / 1440);
+  remaining -= days * 1440;
+  const hours = Math.floor(remaining / 60);
+  const mins = remaining - hours * 60;
+  const time = (hours ? `${hours}H` : "") + (mins ? `${mins}M` : "");
+  if (!days && !time) return "PT0M";
+  return `${sign}P${days ? `${days}D` : ""}${time ? `T${time}` : ""}`;
+}
+
+function billEvent(summary: PaymentSummary & { dueDate: string }, reminders: ReminderSettings, stamp: string): string[] {
+  const card = summary.cardLast4 ? ` ••${summary.cardLast4}` : "";
+  const open = OPEN_STATUSES.includes(summary.status);
+  const outstanding = formatAmount({ amountMinor: Math.max(summary.amountMinor - summary.paidMinor, 0), currency: summary.currency });
+  const title = open ? `${summary.bankName}${card} due: ${outstanding}` : `Paid: ${summary.bankName}${card}`;
+  const details = [
+    `Amount due: ${formatAmount({ amountMinor: summary.amountMinor, currency: summary.currency })}`,
+    summary.minimumDueMinor !== undefined ? `Minimum due: ${formatAmount({ amountMinor: summary.minimumDueMinor, currency: summary.currency })}` : "",
+    summary.paidMinor > 0 ? `Paid so far: ${formatAmount({ amountMinor: summary.paidMinor, currency: summary.currency })}` : "",
+    summary.statementPeriod ? `Statement period: ${summary.statementPeriod}` : "",
+    summary.account ? `Mailbox: ${summary.account}` : "",
+    `Status: ${summary.status.replace(/_/g, " ")}`,
+  ].filter(line => line);
+
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${encodeURIComponent(summary.identity)}@bill-tracker`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${icsDate(summary.dueDate)}`,
+    `DTEND;VALUE=DATE:${icsDate(nextDay(summary.dueDate))}`,
+    `SUMMARY:${escapeText(title)}`,
+    `DESCRIPTION:${escapeText(details.join("\n"))}`,
+    "TRANSP:TRANSPARENT",
+  ];
+  if (open) {
+    for (const offsetDays of [...new Set(reminders.offsetsDays)].sort((a, b) => b - a)) {
+      lines.push(
+        "BEGIN:VALARM",
+        "ACTION:DISPLAY",
+        `DESCRIPTION:${escapeText(title)}`,
+        `TRIGGER:${triggerDuration(reminders.reminderHour * 60 - offsetDays * 1440)}`,
+        "END:VALARM",
+      );
+    }
+  }
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+export function summariesToIcs(summaries: PaymentSummary[], reminders: ReminderSettings, now = Date.now()): string {
+  const stamp = icsTimestamp(now);
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:Bill due dates",
+  ];
+  for (const summary of summaries) {
+    if (summary.dueDate) lines.push(...billEvent({ ...summary, dueDate: summary.dueDate }, reminders, stamp));
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,177 @@
+// ----------------------
+// Context Budgeting
+// ----------------------
+// Long emails, HTML statements especially, bury the summary table and the payment box
+// under banners and offers, so cutting the email after its first few KB can miss
+// them. Instead the email is split into sections, each section is ranked by what it
+// holds (the header naming the bank, the summary table, the payment box), and the
+// relevant sections that fit the model's context window are sent in their original
+// order. When even the relevant sections do not fit, they are packed into chunks that
+// are extracted one by one and merged (see extractChunked in llm.ts).
+
+export type SectionRole = "header" | "summary" | "payment" | "other";
+
+export interface EmailSection {
+  index: number; // Position in the email
+  text: string;
+  role: SectionRole;
+  score: number; // Relevance; 0 for boilerplate and sections without anything to extract
+}
+
+export interface EmailChunk {
+  text: string;
+  score: number; // Sum of the relevance of its sections
+}
+
+// The part of a long email a prompt holds, counted from 1.
+export interface EmailPart {
+  index: number;
+  total: number;
+}
+
+export type EmailContext =
+  | { kind: "whole"; text: string; dropped: number } // Fits once `dropped` irrelevant sections are left out
+  | { kind: "chunked"; chunks: EmailChunk[] };
+
+export const DEFAULT_CONTEXT_WINDOW = 4096; // Tokens; web-llm's default for most prebuilt models
+const CHARS_PER_TOKEN = 3; // Conservative: amounts, dates and masked digits split into many tokens
+const RESPONSE_RESERVE_TOKENS = 256; // The answer and the repair turns of extractWithSchema
+const MAX_CHUNKS = 4; // Each chunk is a model call
+const SECTION_SEPARATOR = "\n\n";
+
+const SUMMARY_PATTERNS = [
+  /total\s+(amount|payment|balance)\s+due/i,
+  /minimum\s+(amount|payment)\s+due/i,
+  /statement\s+(date|period)/i,
+  /due\s+date/i,
+  /credit\s+limit/i,
+  /(previous|opening|closing|new)\s+balance/i,
+  /card\s+(number|no\.?)/i,
+];
+const PAYMENT_PATTERNS = [
+  /pay\s+now/i,
+  /amount\s+payable/i,
+  /pay(ment)?\s+(by|before)/i,
+  /auto\s*-?\s*(pay|debit)/i,
+  /payment\s+(of|received|towards)/i,
+  /\b(paid|credited)\b/i,
+];
+const HEADER_PATTERNS = [/\bbank\b/i, /credit\s+card/i, /statement/i, /\bdear\b/i];
+const BOILERPLATE_PATTERNS = [
+  /unsubscribe/i,
+  /privacy\s+policy|terms\s+(and|&)\s+conditions/i,
+  /do\s+not\s+reply|no-?reply/i,
+  /disclaimer/i,
+  /all\s+rights\s+reserved|copyright|©/i,
+];
+const AMOUNT_PATTERN = /\d[\d,]*\.\d{2}\b/g;
+const DATE_PATTERN = /\b\d{1,2}[/\-. ](\d{1,2}|[a-z]{3,9})[/\-. ,]+\d{2,4}\b|\b[a-z]{3,9}\s+\d{1,2},?\s+\d{4}\b/gi;
+const MAX_VALUE_HITS = 4; // A long transaction table should not outrank the summary
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// Characters of email a prompt can hold: what the context window leaves after the
+// prompt's own text and the answer, capped by the user's setting.
+export function emailBudget(contextWindow: number, promptTokens: number, maxChars: number): number {
+  const tokens = contextWindow - promptTokens - RESPONSE_RESERVE_TOKENS;
+  return Math.max(0, Math.min(maxChars, tokens * CHARS_PER_TOKEN));
+}
+
+// ----------------------
+// Sections
+// ----------------------
+function countMatches(patterns: RegExp[], text: string): number {
+  return patterns.filter(pattern => pattern.test(text)).length;
+}
+
+function countValues(pattern: RegExp, text: string): number {
+  return Math.min(text.match(pattern)?.length || 0, MAX_VALUE_HITS);
+}
+
+// Splits a text longer than `maxChars` at line breaks, and lines longer than that anywhere.
+function splitLong(text: string, maxChars: number): string[] {
+  if (text.length <= maxChars) return [text];
+  const pieces: string[] = [];
+  let current = "";
+  for (const line of text.split("\n")) {
+    for (let start = 0; start < Math.max(line.length, 1); start += maxChars) {
+      const segment = line.substring(start, start + maxChars);
+      if (current && current.length + 1 + segment.length > maxChars) {
+        pieces.push(current);
+        current = "";
+      }
+      current = current ? `${current}\n${segment}` : segment;
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+// Blank lines separate sections; htmlToText leaves one between tables and paragraphs.
+export function splitSections(content: string, maxChars = Infinity): string[] {
+  return content
+    .split(/\n\s*\n/)
+    .map(section => section.trim())
+    .filter(section => section.length > 0)
+    .flatMap(section => splitLong(section, maxChars));
+}
+
+export function rankSection(text: string, index: number): EmailSection {
+  const summary = countMatches(SUMMARY_PATTERNS, text);
+  const payment = countMatches(PAYMENT_PATTERNS, text);
+  const header = index === 0 ? countMatches(HEADER_PATTERNS, text) + 1 : 0;
+  const values = countValues(AMOUNT_PATTERN, text) + countValues(DATE_PATTERN, text);
+  // Footers mention banks and dates too, but never the summary labels.
+  if (summary === 0 && countMatches(BOILERPLATE_PATTERNS, text) > 0) return { index, text, role: "other", score: 0 };
+  const weights: [SectionRole, number][] = [["summary", 3 * summary], ["payment", 2 * payment], ["header", header]];
+  const [role, weight] = weights.reduce((best, next) => (next[1] > best[1] ? next : best), ["other", 0] as [SectionRole, number]);
+  return { index, text, role, score: weight > 0 ? weight + values : 0 };
+}
+
+export function rankSections(content: string, maxChars = Infinity): EmailSection[] {
+  return splitSections(content, maxChars).map(rankSection);
+}
+
+function joinSections(sections: { text: string }[]): string {
+  return sections.map(section => section.text).join(SECTION_SEPARATOR);
+}
+
+// Packs sections, in email order, into chunks of at most `maxChars`.
+function packChunks(sections: EmailSection[], maxChars: number): EmailChunk[] {
+  const chunks: EmailChunk[] = [];
+  let current: EmailSection[] = [];
+  const flush = () => {
+    if (current.length === 0) return;
+    chunks.push({ text: joinSections(current), score: current.reduce((total, section) => total + section.score, 0) });
+    current = [];
+  };
+  for (const section of sections) {
+    if (current.length > 0 && joinSections([...current, section]).length > maxChars) flush();
+    current.push(section);
+  }
+  flush();
+  return chunks;
+}
+
+// ----------------------
+// Context Plan
+// ----------------------
+// Decides what of `content` goes to the model given `maxChars` per prompt: all of it
+// when it fits, otherwise its relevant sections, and when those do not fit either, the
+// most relevant chunks of them. An email with no recognizable section is cut, as it
+// always was.
+export function planEmailContext(content: string, maxChars: number): EmailContext {
+  if (content.length <= maxChars) return { kind: "whole", text: content, dropped: 0 };
+  const sections = rankSections(content, maxChars);
+  const relevant = sections.filter(section => section.score > 0);
+  if (relevant.length === 0) return { kind: "whole", text: content.substring(0, maxChars), dropped: 0 };
+  const selected = joinSections(relevant);
+  if (selected.length <= maxChars) return { kind: "whole", text: selected, dropped: sections.length - relevant.length };
+  const chunks = packChunks(relevant, maxChars);
+  if (chunks.length <= MAX_CHUNKS) return { kind: "chunked", chunks };
+  // Keep the best chunks, still in email order.
+  const kept = new Set([...chunks].sort((a, b) => b.score - a.score).slice(0, MAX_CHUNKS));
+  return { kind: "chunked", chunks: chunks.filter(chunk => kept.has(chunk)) };
+}
@@ -0,0 +1,287 @@
+import { ChatCompletionMessageParam, MLCEngineInterface } from "@mlc-ai/web-llm";
+import { log } from "../diagnostics/log";
+import { EmailChunk, EmailPart } from "./context";
+
+// ----------------------
+// Schema-Constrained Extraction
+// ----------------------
+// Completions are generated with web-llm's JSON-schema response_format, so the model
+// can only emit JSON of the requested shape. The parsed object is then checked by a
+// typed validator; on failure the errors are fed back to the model and it is asked to
+// repair its answer, up to a fixed number of attempts.
+
+export type ChatEngine = Pick<MLCEngineInterface, "chat">;
+
+export interface PaymentData {
+  "Due Date": string; // DD-MM-YYYY
+  "Total Amount Due": string; // Plain decimal, e.g. "12345.00"
+  "Bank Name": string;
+}
+
+export interface PaymentConfirmationData {
+  "Total Amount Due": string; // Amount paid, plain decimal
+  "Payment Date"?: string; // DD-MM-YYYY
+  "Bank Name"?: string;
+}
+
+export type ValidationResult<T> = { ok: true; data: T } | { ok: false; errors: string[] };
+
+export type ExtractionResult<T> =
+  | { ok: true; data: T; attempts: number }
+  | { ok: false; error: string; rawOutput: string; attempts: number };
+
+// The JSON schemas below: an object of string fields, each with an optional pattern.
+export interface FieldsSchema {
+  type: "object";
+  properties: Record<string, { type: "string"; pattern?: string }>;
+  required: string[];
+  additionalProperties: false;
+}
+
+const MAX_EXTRACTION_ATTEMPTS = 3;
+const DATE_PATTERN = "^\\d{2}-\\d{2}-\\d{4}$";
+// Up to three decimals, for dinars; normalize.ts checks the currency allows as many.
+const AMOUNT_PATTERN = "^\\d+(\\.\\d{1,3})?$";
+
+export const PAYMENT_DATA_SCHEMA: FieldsSchema = {
+  type: "object",
+  properties: {
+    "Due Date": { type: "string", pattern: DATE_PATTERN },
+    "Total Amount Due": { type: "string", pattern: AMOUNT_PATTERN },
+    "Bank Name": { type: "string" },
+  },
+  required: ["Due Date", "Total Amount Due", "Bank Name"],
+  additionalProperties: false,
+};
+
+export const PAYMENT_CONFIRMATION_SCHEMA: FieldsSchema = {
+  type: "object",
+  properties: {
+    "Total Amount Due": { type: "string", pattern: AMOUNT_PATTERN },
+    "Payment Date": { type: "string", pattern: DATE_PATTERN },
+    "Bank Name": { type: "string" },
+  },
+  required: ["Total Amount Due"],
+  additionalProperties: false,
+};
+
+// ----------------------
+// Prompts
+// ----------------------
+// `emailContent` is expected to be cut to the context budget and lower-cased already.
+// The dictionary is the labelled rule-based extraction from statement.ts. A `part` marks
+// one chunk of a long email, where fields may be missing.
+function partNote(part?: EmailPart): string {
+  return part ? `\n    This is part ${part.index} of ${part.total} of a long email. Leave out fields this part does not mention.` : "";
+}
+
+export function buildStatementPrompt(emailContent: string, summaryDict: Record<string, string>, part?: EmailPart): string {
+  return `
+    Extract the following from the inputs provided:${partNote(part)}
+
+    1. From the email below, extract only the bank name from the email content "${emailContent}". If the dictionary below has a Bank Name, use it.
+    2. From the dictionary below, extract only the Payment Due Date and Total Amount Due from Dictionary: ${JSON.stringify(summaryDict)}. 
+    Combine the results from 1 and 2 and return it as JSON in the following format, with the date as DD-MM-YYYY and the amount as a plain number without currency symbols or commas:
+    ${JSON.stringify({ "Due Date": "DD-MM-YYYY", "Total Amount Due": "1234.56", "Bank Name": "XXXX" })}`;
+}
+
+export function buildPaymentPrompt(emailContent: string, part?: EmailPart): string {
+  return `
+    From the following email content, extract the "Total Amount Due" (numeric value) that was paid, the "Payment Date" and the "Bank Name" if they are mentioned.${partNote(part)}
+    Email content: "${emailContent}"
+    Return your answer as JSON in the format, with the date as DD-MM-YYYY and the amount as a plain number without currency symbols or commas. Leave out fields the email does not mention:
+    ${JSON.stringify({ "Total Amount Due": "1234.56", "Payment Date": "DD-MM-YYYY", "Bank Name": "XXXX" })}`;
+}
+
+// ----------------------
+// Validators
+// ----------------------
+function isValidDate(value: unknown): boolean {
+  if (typeof value !== "string" || !new RegExp(DATE_PATTERN).test(value)) return false;
+  const [day, month, year] = value.split("-").map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+function isValidAmount(value: unknown): boolean {
+  return typeof value === "string" && new RegExp(AMOUNT_PATTERN).test(value);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function validatePaymentData(value: unknown): ValidationResult<PaymentData> {
+  if (!isObject(value)) return { ok: false, errors: ["Expected a JSON object"] };
+  const errors: string[] = [];
+  if (!isValidDate(value["Due Date"])) {
+    errors.push(`"Due Date" must be a real date in DD-MM-YYYY format, got ${JSON.stringify(value["Due Date"])}`);
+  }
+  if (!isValidAmount(value["Total Amount Due"])) {
+    errors.push(`"Total Amount Due" must be a plain number like 1234.56, got ${JSON.stringify(value["Total Amount Due"])}`);
+  }
+  if (typeof value["Bank Name"] !== "string" || value["Bank Name"].trim().length === 0) {
+    errors.push(`"Bank Name" must be a non-empty string`);
+  }
+  if (errors.length > 0) return { ok: false, errors };
+  return {
+    ok: true,
+    data: {
+      "Due Date": value["Due Date"] as string,
+      "Total Amount Due": value["Total Amount Due"] as string,
+      "Bank Name": (value["Bank Name"] as string).trim(),
+    },
+  };
+}
+
+export function validatePaymentConfirmation(value: unknown): ValidationResult<PaymentConfirmationData> {
+  if (!isObject(value)) return { ok: false, errors: ["Expected a JSON object"] };
+  const errors: string[] = [];
+  if (!isValidAmount(value["Total Amount Due"])) {
+    errors.push(`"Total Amount Due" must be a plain number like 1234.56, got ${JSON.stringify(value["Total Amount Due"])}`);
+  }
+  // Payment date and bank are optional, but must be well formed when given.
+  if (value["Payment Date"] !== undefined && !isValidDate(value["Payment Date"])) {
+    errors.push(`"Payment Date" must be a real date in DD-MM-YYYY format, got ${JSON.stringify(value["Payment Date"])}`);
+  }
+  if (value["Bank Name"] !== undefined && typeof value["Bank Name"] !== "string") {
+    errors.push(`"Bank Name" must be a string`);
+  }
+  if (errors.length > 0) return { ok: false, errors };
+  const data: PaymentConfirmationData = { "Total Amount Due": value["Total Amount Due"] as string };
+  if (value["Payment Date"] !== undefined) data["Payment Date"] = value["Payment Date"] as string;
+  const bankName = typeof value["Bank Name"] === "string" ? value["Bank Name"].trim() : "";
+  if (bankName) data["Bank Name"] = bankName;
+  return { ok: true, data };
+}
+
+// ----------------------
+// Extraction Loop
+// ----------------------
+// Validation errors quote the value the model gave ("got ..."), which the repair prompt
+// needs but the persisted log must not keep.
+function withoutValues(errors: string[]): string[] {
+  return errors.map(error => error.replace(/, got .*$/, ""));
+}
+
+export async function extractWithSchema<T>(
+  engine: ChatEngine,
+  prompt: string,
+  schema: FieldsSchema,
+  validate: (value: unknown) => ValidationResult<T>,
+  messageId?: string,
+  maxAttempts = MAX_EXTRACTION_ATTEMPTS,
+): Promise<ExtractionResult<T>> {
+  const messages: ChatCompletionMessageParam[] = [{ role: "user", content: prompt }];
+  let rawOutput = "";
+  let errors: string[] = [];
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const completion = await engine.chat.completions.create({
+      messages,
+      temperature: 0,
+      response_format: { type: "json_object", schema: JSON.stringify(schema) },
+    });
+    rawOutput = completion.choices[0]?.message?.content || "";
+    log.debug("llm", `Model response (attempt ${attempt})`, { messageId, data: { length: rawOutput.length } });
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(rawOutput);
+      const validation = validate(parsed);
+      if (validation.ok) {
+        return { ok: true, data: validation.data, attempts: attempt };
+      }
+      errors = validation.errors;
+    } catch (error) {
+      errors = [`Response is not valid JSON: ${error}`];
+    }
+    log.warn("llm", `Extraction attempt ${attempt} failed`, { messageId, data: withoutValues(errors) });
+    messages.push({ role: "assistant", content: rawOutput });
+    messages.push({
+      role: "user",
+      content: `That answer is invalid:\n- ${errors.join("\n- ")}\nReturn the corrected JSON only.`,
+    });
+  }
+  return { ok: false, error: errors.join("; "), rawOutput, attempts: maxAttempts };
+}
+
+// ----------------------
+// Chunked Extraction
+// ----------------------
+// Map-reduce over the chunks of a long email: each chunk is extracted on its own with
+// every field optional, then each field takes the value with the highest confidence,
+// the summed relevance of the chunks that agree on it, and the merged answer is checked
+// by the full validator.
+
+type PartialFields = Record<string, string>;
+
+export interface PartialExtraction {
+  data: PartialFields;
+  confidence: number;
+}
+
+function partialSchema(schema: FieldsSchema): FieldsSchema {
+  return { ...schema, required: [] };
+}
+
+function validatePartial(schema: FieldsSchema): (value: unknown) => ValidationResult<PartialFields> {
+  return (value) => {
+    if (!isObject(value)) return { ok: false, errors: ["Expected a JSON object"] };
+    const errors: string[] = [];
+    const data: PartialFields = {};
+    for (const [field, property] of Object.entries(schema.properties)) {
+      const fieldValue = value[field];
+      if (fieldValue === undefined || fieldValue === "") continue;
+      if (typeof fieldValue !== "string" || (property.pattern && !new RegExp(property.pattern).test(fieldValue))) {
+        errors.push(`"${field}" does not match ${property.pattern || "a string"}, got ${JSON.stringify(fieldValue)}`);
+      } else {
+        data[field] = fieldValue.trim();
+      }
+    }
+    return errors.length > 0 ? { ok: false, errors } : { ok: true, data };
+  };
+}
+
+export function mergePartials(partials: PartialExtraction[]): PartialFields {
+  const votes = new Map<string, Map<string, { value: string; confidence: number }>>();
+  for (const { data, confidence } of partials) {
+    for (const [field, value] of Object.entries(data)) {
+      const byValue = votes.get(field) || new Map();
+      const key = value.toLowerCase().replace(/\s+/g, " ");
+      const vote = byValue.get(key) || { value, confidence: 0 };
+      vote.confidence += confidence;
+      byValue.set(key, vote);
+      votes.set(field, byValue);
+    }
+  }
+  const merged: PartialFields = {};
+  for (const [field, byValue] of votes) {
+    // Ties go to the value seen first, i.e. earlier in the email.
+    merged[field] = [...byValue.values()].reduce((best, next) => (next.confidence > best.confidence ? next : best)).value;
+  }
+  return merged;
+}
+
+export async function extractChunked<T>(
+  engine: ChatEngine,
+  chunks: EmailChunk[],
+  buildPrompt: (emailContent: string, part: EmailPart) => string,
+  schema: FieldsSchema,
+  validate: (value: unknown) => ValidationResult<T>,
+  messageId?: string,
+): Promise<ExtractionResult<T>> {
+  const partials: PartialExtraction[] = [];
+  let attempts = 0;
+  for (let i = 0; i < chunks.length; i++) {
+    const prompt = buildPrompt(chunks[i].text, { index: i + 1, total: chunks.length });
+    const extraction = await extractWithSchema(engine, prompt, partialSchema(schema), validatePartial(schema), messageId);
+    attempts += extraction.attempts;
+    if (extraction.ok) partials.push({ data: extraction.data, confidence: chunks[i].score });
+    else log.warn("llm", `Chunk ${i + 1} of ${chunks.length} gave no usable fields`, { messageId, data: withoutValues(extraction.error.split("; ")) });
+  }
+  const merged = mergePartials(partials);
+  log.debug("llm", `Merged ${partials.length} of ${chunks.length} chunk extraction(s)`, { messageId, data: { fields: Object.keys(merged) } });
+  const validation = validate(merged);
+  return validation.ok
+    ? { ok: true, data: validation.data, attempts }
+    : { ok: false, error: validation.errors.join("; "), rawOutput: JSON.stringify(merged), attempts };
+}
@@ -0,0 +1,243 @@
+// ----------------------
+// Amount and Date Normalization
+// ----------------------
+// Turns amounts and dates as banks write them into integer minor units with an ISO 4217
+// code, and into ISO dates. The user's locale settles what the text alone cannot:
+// whether "1.234" is a thousand or one point two, and whether "03/04/25" is 3 April
+// or March 4.
+
+export interface MoneyAmount {
+  amountMinor: number; // Integer minor units, e.g. paise, cents, or yen (which have none)
+  currency: string; // ISO 4217 code
+}
+
+export const DEFAULT_CURRENCY = "INR";
+export const DEFAULT_LOCALE = "en-IN";
+
+// Dollar signs with a country prefix come before the bare "$".
+const CURRENCY_MARKERS: { pattern: RegExp; currency: string }[] = [
+  { pattern: /₹|\brs\.?|\binr\b/i, currency: "INR" },
+  { pattern: /€|\beur\b/i, currency: "EUR" },
+  { pattern: /£|\bgbp\b/i, currency: "GBP" },
+  { pattern: /¥|\bjpy\b/i, currency: "JPY" },
+  { pattern: /\bs\$|\bsgd\b/i, currency: "SGD" },
+  { pattern: /\ba\$|\baud\b/i, currency: "AUD" },
+  { pattern: /\bc\$|\bcad\b/i, currency: "CAD" },
+  { pattern: /\baed\b|\bdhs?\b/i, currency: "AED" },
+  { pattern: /\bchf\b/i, currency: "CHF" },
+  { pattern: /\bkwd\b/i, currency: "KWD" },
+  { pattern: /\$|\busd\b/i, currency: "USD" },
+];
+
+const ENGLISH_MONTHS = ["january", "february", "march", "april", "may", "june", "july", "august", "september", "october", "november", "december"];
+
+export function detectCurrency(text: string): string | null {
+  return CURRENCY_MARKERS.find(marker => marker.pattern.test(text))?.currency || null;
+}
+
+// Whether `locale` is a BCP 47 tag Intl understands, e.g. "en-IN" or "de-DE".
+export function isSupportedLocale(locale: string): boolean {
+  try {
+    return locale.trim().length > 0 && Intl.getCanonicalLocales(locale).length === 1;
+  } catch {
+    return false;
+  }
+}
+
+// Decimal places of a currency's minor unit: 2 for INR, 0 for JPY, 3 for KWD.
+export function minorUnitDigits(currency: string): number {
+  try {
+    return new Intl.NumberFormat("en", { style: "currency", currency }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    return 2;
+  }
+}
+
+// ----------------------
+// Amounts
+// ----------------------
+// Digits with grouping or decimal separators; a space only groups when three digits follow.
+const NUMBER_PATTERN = /\d+(?:(?:[.,'’]|[   ](?=\d{3}(?!\d)))\d+)*/;
+const CURRENCY_PREFIX = "(?:₹|rs\\.?\\s*|[a-z]{3}\\s*|[a-z]?\\$|[€£¥])?";
+const MINUS_PREFIX = new RegExp(`[-−]${CURRENCY_PREFIX}$`, "i"); // "-500", "Rs.-500"; "Due - 500" is a separator
+const OPEN_PARENTHESIS = new RegExp(`\\(\\s*${CURRENCY_PREFIX}$`, "i"); // "(1,234.00)"
+const CREDIT_SUFFIX = /^\s*cr\b/i; // "5,000 Cr": the bank owes the cardholder
+
+function decimalSeparator(locale: string): string {
+  try {
+    return new Intl.NumberFormat(locale).formatToParts(1.5).find(part => part.type === "decimal")?.value || ".";
+  } catch {
+    return ".";
+  }
+}
+
+// Splits a number such as "1,23,456.00", "1.234,56" or "1'234" into its integer and
+// fraction digits. When both "." and "," appear the last one is the decimal point, and
+// a separator that repeats only groups. A lone separator is the decimal point unless it
+// could group: three digits after at most three. Those groups are taken as a thousand
+// ("1,234" and "1.234" are 1234) unless the currency has three decimals, which leaves
+// only the locale to tell "1,234" from 1.234 dinar.
+function splitNumber(number: string, fractionDigits: number, locale: string): { integer: string; fraction: string } {
+  const lastDot = number.lastIndexOf(".");
+  const lastComma = number.lastIndexOf(",");
+  const clean = (digits: string) => digits.replace(/\D/g, "");
+  if (lastDot < 0 && lastComma < 0) return { integer: clean(number), fraction: "" };
+  const separator = lastDot > lastComma ? "." : ",";
+  const position = Math.max(lastDot, lastComma);
+  const before = number.substring(0, position);
+  const after = number.substring(position + 1);
+  const mixed = lastDot >= 0 && lastComma >= 0;
+  let isDecimal = true;
+  if (!mixed && number.indexOf(separator) !== position) isDecimal = false;
+  else if (!mixed && after.length === 3 && /^\d{1,3}$/.test(before.replace(/^.*\D/, ""))) {
+    isDecimal = fractionDigits >= 3 && separator === decimalSeparator(locale);
+  }
+  return isDecimal ? { integer: clean(before), fraction: after } : { integer: clean(number), fraction: "" };
+}
+
+// Parses amounts such as "₹1,23,456.00", "Rs. 5,000 Cr", "$1,234.56" or "1.234,56 €"
+// into minor units. Credit balances ("Cr", a minus sign or parentheses) come out
+// negative; "Dr" is the ordinary amount owed. Amounts with more decimals than their
+// currency has give null rather than being rounded.
+export function parseAmount(text: string, fallbackCurrency = DEFAULT_CURRENCY, locale = DEFAULT_LOCALE): MoneyAmount | null {
+  const match = text.match(NUMBER_PATTERN);
+  if (!match || match.index === undefined) return null;
+  const currency = detectCurrency(text) || fallbackCurrency;
+  const digits = minorUnitDigits(currency);
+  const { integer, fraction } = splitNumber(match[0], digits, locale);
+  if (fraction.length > digits) return null;
+  const value = Number(`${integer || "0"}.${fraction || "0"}`);
+  if (!Number.isFinite(value)) return null;
+  const before = text.substring(0, match.index);
+  const rest = text.substring(match.index + match[0].length);
+  const negative = CREDIT_SUFFIX.test(rest) || MINUS_PREFIX.test(before) || (OPEN_PARENTHESIS.test(before) && /^\s*\)/.test(rest));
+  const amountMinor = Math.round(value * 10 ** digits);
+  return { amountMinor: negative ? -amountMinor : amountMinor, currency };
+}
+
+// Parses an amount as the extractors write it, e.g. "1234.56" or "1234.567", where the
+// point is always the decimal point. Returns null for anything else, or when it has more
+// decimals than the currency's minor unit, since those would be rounded away.
+export function parsePlainAmount(text: string, currency: string): MoneyAmount | null {
+  const match = text.trim().match(/^(\d+)(?:\.(\d+))?$/);
+  if (!match) return null;
+  const digits = minorUnitDigits(currency);
+  const fraction = match[2] || "";
+  if (fraction.length > digits) return null;
+  return { amountMinor: Number(match[1] + fraction.padEnd(digits, "0")), currency };
+}
+
+// The amount in major units without grouping or symbol, e.g. "1234.56" or "1500" for yen.
+export function formatPlainAmount(amount: MoneyAmount): string {
+  const digits = minorUnitDigits(amount.currency);
+  return (amount.amountMinor / 10 ** digits).toFixed(digits);
+}
+
+export function formatAmount(amount: MoneyAmount): string {
+  try {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency: amount.currency }).format(amount.amountMinor / 10 ** minorUnitDigits(amount.currency));
+  } catch {
+    return `${formatPlainAmount(amount)} ${amount.currency}`;
+  }
+}
+
+// ----------------------
+// Dates
+// ----------------------
+export interface DateOptions {
+  locale?: string; // Orders numeric dates; DEFAULT_LOCALE when unset
+  reference?: number; // Epoch ms a date without a year is closest to; now when unset
+}
+
+type DatePart = "day" | "month" | "year";
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  if (year < 100) year += 2000;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().substring(0, 10);
+}
+
+// Whether the locale writes numeric dates month first (en-US) or day first (en-IN, de-DE).
+function monthFirst(locale: string): boolean {
+  try {
+    const parts = new Intl.DateTimeFormat(locale, { day: "numeric", month: "numeric", year: "numeric" }).formatToParts(Date.UTC(2025, 2, 15));
+    const order = parts.map(part => part.type).filter((type): type is DatePart => type === "day" || type === "month");
+    return order[0] === "month";
+  } catch {
+    return false;
+  }
+}
+
+// The locale's month names, long and short, lowercased without dots.
+function monthNames(locale: string): Map<string, number> {
+  const names = new Map<string, number>();
+  for (const style of ["long", "short"] as const) {
+    try {
+      const format = new Intl.DateTimeFormat(locale, { month: style, timeZone: "UTC" });
+      for (let month = 1; month <= 12; month++) {
+        names.set(format.format(Date.UTC(2025, month - 1, 1)).toLowerCase().replace(/\.$/, ""), month);
+      }
+    } catch {
+      // An unknown locale still has the English names below.
+    }
+  }
+  return names;
+}
+
+// English names may be cut anywhere after three letters ("Sept", "Febr").
+function monthFromName(name: string, names: Map<string, number>): number {
+  const lower = name.toLowerCase();
+  if (names.has(lower)) return names.get(lower)!;
+  return lower.length >= 3 ? ENGLISH_MONTHS.findIndex(month => month.startsWith(lower)) + 1 : 0;
+}
+
+// The year that puts a yearless day and month closest to `reference`.
+function closestYear(month: number, day: number, reference: number): string | null {
+  const year = new Date(reference).getUTCFullYear();
+  const candidates = [year - 1, year, year + 1]
+    .map(candidate => toIsoDate(candidate, month, day))
+    .filter((date): date is string => date !== null);
+  if (candidates.length === 0) return null;
+  return candidates.reduce((best, next) => (Math.abs(Date.parse(next) - reference) < Math.abs(Date.parse(best) - reference) ? next : best));
+}
+
+const ORDINAL = "(?:st|nd|rd|th|\\.)?";
+const DAY = `(?<!\\d)(?<day>\\d{1,2})${ORDINAL}`;
+const MONTH = "(?<!\\p{L})(?<month>\\p{L}{3,})\\.?";
+const YEAR = "(?<year>\\d{4}|\\d{2}(?!\\d))";
+// Tried in order; the first match naming a month wins.
+const MONTH_NAME_PATTERNS = [
+  new RegExp(`${DAY}[\\s\\-/]+(?:of\\s+)?${MONTH}[\\s\\-/,]+${YEAR}`, "giu"), // 15 Mar 2025, 15th March, 2025
+  new RegExp(`${MONTH}\\s+${DAY},?\\s+(?<year>\\d{4})`, "giu"), // Mar 15, 2025
+  new RegExp(`${DAY}[\\s\\-/]+(?:of\\s+)?${MONTH}`, "giu"), // 15 March
+  new RegExp(`${MONTH}\\s+${DAY}(?!\\d)`, "giu"), // March 15th
+];
+
+// Parses ISO and other year-first dates, numeric dates in the locale's order
+// ("15/03/25" in en-IN, "03/15/25" in en-US), and dates with month names in English or
+// the locale's language ("15 Mar 2025", "Mar 15, 2025", "15. März 2025") into
+// YYYY-MM-DD. Dates without a year ("March 15th") take the year closest to the reference.
+export function parseDate(text: string, options: DateOptions = {}): string | null {
+  const locale = options.locale || DEFAULT_LOCALE;
+  const trimmed = text.trim();
+  let match = trimmed.match(/(\d{4})[\/\-.](\d{1,2})[\/\-.](\d{1,2})(?!\d)/);
+  if (match) return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  match = trimmed.match(/(\d{1,2})[\/\-. ](\d{1,2})[\/\-. ](\d{4}|\d{2}(?!\d))/);
+  if (match) {
+    let [day, month] = [Number(match[1]), Number(match[2])];
+    // A number above 12 can only be the day, whatever the locale says.
+    if (monthFirst(locale) ? day <= 12 : month > 12 && day <= 12) [day, month] = [month, day];
+    return toIsoDate(Number(match[3]), month, day);
+  }
+  const names = monthNames(locale);
+  for (const pattern of MONTH_NAME_PATTERNS) {
+    for (const { groups } of trimmed.matchAll(pattern)) {
+      const month = monthFromName(groups!.month, names);
+      if (month === 0) continue;
+      const day = Number(groups!.day);
+      return groups!.year ? toIsoDate(Number(groups!.year), month, day) : closestYear(month, day, options.reference ?? Date.now());
+    }
+  }
+  return null;
+}
@@ -0,0 +1,92 @@
+import * as pdfjs from "pdfjs-dist/legacy/build/pdf.mjs";
+import * as pdfjsWorker from "pdfjs-dist/legacy/build/pdf.worker.mjs";
+
+// ----------------------
+// PDF Text Extraction
+// ----------------------
+// Reads the text of statement PDFs with pdf.js, trying passwords until one opens an
+// encrypted file. The service worker can neither start a Worker nor import a module
+// lazily, so pdf.js runs on the calling thread with its worker module bundled in and
+// handed over through globalThis.pdfjsWorker.
+
+(globalThis as { pdfjsWorker?: unknown }).pdfjsWorker = pdfjsWorker;
+
+export type PdfTextResult =
+  | { ok: true; text: string; pages: number; encrypted: boolean }
+  | { ok: false; reason: "password" | "invalid"; error: string };
+
+const MAX_PAGES = 20; // Statements run a few pages, with the summary on the first
+const CELL_GAP = 12; // Points between two runs of text on a line that make them separate cells
+
+interface TextRun {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+}
+
+// Rebuilds the page's lines from positioned runs of text. Runs on one line far apart
+// are table cells and are joined with " | ", as htmlToText does for HTML tables, so a
+// label and its value stay together.
+function pageText(runs: TextRun[]): string {
+  const lines = new Map<number, TextRun[]>();
+  for (const run of runs) {
+    if (!run.text.trim()) continue;
+    const y = Math.round(run.y);
+    lines.set(y, [...(lines.get(y) || []), run]);
+  }
+  return [...lines.entries()]
+    .sort(([a], [b]) => b - a) // PDF coordinates grow upwards
+    .map(([, line]) => line
+      .sort((a, b) => a.x - b.x)
+      .reduce((text, run, index) => {
+        if (index === 0) return run.text.trim();
+        const previous = line[index - 1];
+        const gap = run.x - (previous.x + previous.width);
+        return `${text}${gap > CELL_GAP ? " | " : gap > 1 ? " " : ""}${run.text.trim()}`;
+      }, ""))
+    .join("\n");
+}
+
+function isPasswordError(error: unknown): boolean {
+  return error instanceof Error && error.name === "PasswordException";
+}
+
+async function openDocument(data: Uint8Array, password?: string) {
+  // pdf.js may take over the buffer it is given, so each attempt gets its own copy.
+  const task = pdfjs.getDocument({ data: data.slice(), password, isEvalSupported: false, verbosity: pdfjs.VerbosityLevel.ERRORS });
+  return task.promise;
+}
+
+// Extracts the text of a PDF, one blank line between pages. An encrypted PDF is tried
+// with each password in turn; which one worked is never reported.
+export async function extractPdfText(data: Uint8Array, passwords: string[] = []): Promise<PdfTextResult> {
+  let document: Awaited<ReturnType<typeof openDocument>> | null = null;
+  let encrypted = false;
+  try {
+    for (const password of [undefined, ...passwords]) {
+      try {
+        document = await openDocument(data, password);
+        break;
+      } catch (error) {
+        if (!isPasswordError(error)) throw error;
+        encrypted = true;
+      }
+    }
+    if (!document) {
+      return { ok: false, reason: "password", error: passwords.length > 0 ? `None of ${passwords.length} password(s) opened the PDF` : "The PDF needs a password" };
+    }
+    const pages: string[] = [];
+    for (let number = 1; number <= Math.min(document.numPages, MAX_PAGES); number++) {
+      const page = await document.getPage(number);
+      const content = await page.getTextContent();
+      const runs = content.items.flatMap(item => ("str" in item ? [{ text: item.str, x: item.transform[4], y: item.transform[5], width: item.width }] : []));
+      pages.push(pageText(runs));
+    }
+    return { ok: true, text: pages.filter(page => page.length > 0).join("\n\n"), pages: document.numPages, encrypted };
+  } catch (error) {
+    return { ok: false, reason: "invalid", error: error instanceof Error ? error.message : String(error) };
+  } finally {
+    await document?.destroy();
+  }
+}
@@ -0,0 +1,159 @@
+import { openItem, sealItem } from "../db/vault";
+import { senderDomain } from "./statement";
+
+// ----------------------
+// PDF Password Rules
+// ----------------------
+// Banks protect statement PDFs with passwords built from the cardholder's details,
+// e.g. HDFC's first four letters of the name in capitals followed by the day and month
+// of birth. A rule names the bank's sender domains and its pattern; the details the
+// patterns draw on are kept in one local profile. Both live in chrome.storage.local and
+// never leave the device; with encryption on, the profile is sealed with the bills and
+// cannot be read while they are locked. User rules are tried before the built-in ones.
+
+export interface PdfPasswordRule {
+  id: string;
+  bankName: string;
+  senderDomains: string[]; // Matched against the sender address, including subdomains
+  pattern: string; // Placeholders below, e.g. "{NAME4}{DD}{MM}"
+}
+
+export interface PdfPasswordProfile {
+  name: string; // As printed on the card; the first word is the first name
+  dateOfBirth: string; // YYYY-MM-DD
+  pan: string; // Permanent Account Number, e.g. ABCDE1234F
+  mobile: string; // Digits only
+  cardLast4: string[]; // Cards a pattern's {card4} may stand for, besides any the email names
+}
+
+export const EMPTY_PASSWORD_PROFILE: PdfPasswordProfile = { name: "", dateOfBirth: "", pan: "", mobile: "", cardLast4: [] };
+
+// Placeholders: {name} {NAME} {Name} for the first name in lower, upper or title case,
+// with a length such as {NAME4} for its first letters; {DD} {MM} {YY} {YYYY} for the
+// date of birth; {card4}; {PAN} and {pan}; {mobile}, or {mobile4} for its last digits.
+export const BUILT_IN_PASSWORD_RULES: PdfPasswordRule[] = [
+  { id: "hdfc", bankName: "HDFC Bank", senderDomains: ["hdfcbank.net", "hdfcbank.com"], pattern: "{NAME4}{DD}{MM}" },
+  { id: "icici", bankName: "ICICI Bank", senderDomains: ["icicibank.com"], pattern: "{name4}{DD}{MM}" },
+  { id: "sbicard", bankName: "SBI Card", senderDomains: ["sbicard.com"], pattern: "{DD}{MM}{YYYY}{card4}" },
+  { id: "axis", bankName: "Axis Bank", senderDomains: ["axisbank.com"], pattern: "{NAME4}{DD}{MM}" },
+  { id: "kotak", bankName: "Kotak Mahindra Bank", senderDomains: ["kotak.com"], pattern: "{name4}{DD}{MM}" },
+];
+
+const PLACEHOLDER = /\{(name|NAME|Name|DD|MM|YY|YYYY|card|PAN|pan|mobile)(\d*)\}/g;
+const PLACEHOLDER_NAMES = new Set(["name", "NAME", "Name", "DD", "MM", "YY", "YYYY", "card", "PAN", "pan", "mobile"]);
+
+// Last four digits of masked card numbers in an email: "XXXX XXXX XXXX 4821", "XX4821",
+// "ending 4821".
+const MASKED_CARD = /(?:[x*•]{2,}[\s\-]*|ending(?:\s+(?:in|with))?\s+)(\d{4})\b/gi;
+
+export function cardsInText(text: string): string[] {
+  return [...new Set([...text.matchAll(MASKED_CARD)].map(match => match[1]))];
+}
+
+// ----------------------
+// Password Candidates
+// ----------------------
+// Every password a pattern yields for the profile: one per card for patterns with
+// {card4}, none when a detail the pattern needs is missing.
+export function expandPasswordPattern(pattern: string, profile: PdfPasswordProfile, cards: string[]): string[] {
+  const firstName = profile.name.trim().split(/\s+/)[0]?.replace(/[^\p{L}]/gu, "") || "";
+  const [year, month, day] = /^\d{4}-\d{2}-\d{2}$/.test(profile.dateOfBirth) ? profile.dateOfBirth.split("-") : [];
+  const fill = (card: string | undefined): string | null => {
+    let missing = false;
+    const password = pattern.replace(PLACEHOLDER, (_, placeholder: string, digits: string) => {
+      const length = digits ? Number(digits) : undefined;
+      let value: string | undefined;
+      switch (placeholder) {
+        case "name": value = firstName.toLowerCase().substring(0, length); break;
+        case "NAME": value = firstName.toUpperCase().substring(0, length); break;
+        case "Name": value = (firstName.charAt(0).toUpperCase() + firstName.slice(1).toLowerCase()).substring(0, length); break;
+        case "DD": value = day; break;
+        case "MM": value = month; break;
+        case "YY": value = year?.substring(2); break;
+        case "YYYY": value = year; break;
+        case "card": value = card; break;
+        case "PAN": value = profile.pan.toUpperCase(); break;
+        case "pan": value = profile.pan.toLowerCase(); break;
+        case "mobile": value = length ? profile.mobile.slice(-length) : profile.mobile; break;
+      }
+      if (!value) missing = true;
+      return value || "";
+    });
+    return missing ? null : password;
+  };
+  const needsCard = /\{card\d*\}/.test(pattern);
+  const passwords = needsCard ? cards.map(fill) : [fill(undefined)];
+  return [...new Set(passwords.filter((password): password is string => password !== null))];
+}
+
+function matchesDomain(domain: string, ruleDomain: string): boolean {
+  return domain === ruleDomain || domain.endsWith(`.${ruleDomain}`);
+}
+
+// Passwords to try on a PDF from `sender`: those of the rules for the sender's bank
+// first, then those of every other rule, since banks share patterns.
+export function passwordCandidates(rules: PdfPasswordRule[], profile: PdfPasswordProfile, sender: string, emailText: string): string[] {
+  const domain = senderDomain(sender);
+  const cards = [...new Set([...cardsInText(emailText), ...profile.cardLast4])];
+  const forSender = (rule: PdfPasswordRule) => !!domain && rule.senderDomains.some(ruleDomain => matchesDomain(domain, ruleDomain.toLowerCase()));
+  const ordered = [...rules.filter(forSender), ...rules.filter(rule => !forSender(rule))];
+  return [...new Set(ordered.flatMap(rule => expandPasswordPattern(rule.pattern, profile, cards)))];
+}
+
+// ----------------------
+// Storage
+// ----------------------
+export async function getUserPasswordRules(): Promise<PdfPasswordRule[]> {
+  const stored = await chrome.storage.local.get("pdfPasswordRules");
+  return stored.pdfPasswordRules || [];
+}
+
+export async function getPasswordRules(): Promise<PdfPasswordRule[]> {
+  return [...(await getUserPasswordRules()), ...BUILT_IN_PASSWORD_RULES];
+}
+
+// Rejects with VaultLockedError while the bills are locked.
+export async function getPasswordProfile(): Promise<PdfPasswordProfile> {
+  const stored = await chrome.storage.local.get("pdfPasswordProfile");
+  const profile = await openItem<PdfPasswordProfile | undefined>("pdfPasswordProfile", stored.pdfPasswordProfile);
+  return { ...EMPTY_PASSWORD_PROFILE, ...(profile || {}) };
+}
+
+// The passwords to try on the PDFs of one email.
+export async function getPdfPasswords(sender: string, emailText: string): Promise<string[]> {
+  return passwordCandidates(await getPasswordRules(), await getPasswordProfile(), sender, emailText);
+}
+
+function validateRule(rule: PdfPasswordRule): string | null {
+  if (!rule.id || !rule.bankName) return "Password rule needs an id and a bank name";
+  if (!Array.isArray(rule.senderDomains) || rule.senderDomains.length === 0) return "Password rule needs at least one sender domain";
+  if (typeof rule.pattern !== "string" || !rule.pattern) return "Password rule needs a pattern";
+  for (const [, placeholder] of rule.pattern.matchAll(/\{([^}]*)\}/g)) {
+    const name = placeholder.replace(/\d+$/, "");
+    if (!PLACEHOLDER_NAMES.has(name)) return `Unknown placeholder {${placeholder}}`;
+  }
+  return null;
+}
+
+// Adds or replaces a user rule by id. Returns an error message if it is invalid.
+export async function saveUserPasswordRule(rule: PdfPasswordRule): Promise<string | null> {
+  const error = validateRule(rule);
+  if (error) return error;
+  const rules = (await getUserPasswordRules()).filter(existing => existing.id !== rule.id);
+  await chrome.storage.local.set({ pdfPasswordRules: [rule, ...rules] });
+  return null;
+}
+
+export async function deleteUserPasswordRule(id: string): Promise<void> {
+  const rules = (await getUserPasswordRules()).filter(rule => rule.id !== id);
+  await chrome.storage.local.set({ pdfPasswordRules: rules });
+}
+
+// Returns an error message if the profile is invalid.
+export async function savePasswordProfile(profile: PdfPasswordProfile): Promise<string | null> {
+  if (profile.dateOfBirth && !/^\d{4}-\d{2}-\d{2}$/.test(profile.dateOfBirth)) return "Date of birth must be YYYY-MM-DD";
+  if (profile.cardLast4.some(card => !/^\d{4}$/.test(card))) return "Cards must be given by their last 4 digits";
+  if (profile.mobile && !/^\d+$/.test(profile.mobile)) return "Mobile number must be digits only";
+  await chrome.storage.local.set({ pdfPasswordProfile: await sealItem("pdfPasswordProfile", { ...EMPTY_PASSWORD_PROFILE, ...profile }) });
+  return null;
+}
@@ -0,0 +1,188 @@
+import { NewPaymentRecord } from "../db/payments";
+import { NewPaymentSummary } from "../db/summaries";
+import {
+  buildPaymentPrompt,
+  buildStatementPrompt,
+  ChatEngine,
+  extractChunked,
+  ExtractionResult,
+  extractWithSchema,
+  FieldsSchema,
+  PAYMENT_CONFIRMATION_SCHEMA,
+  PAYMENT_DATA_SCHEMA,
+  PaymentConfirmationData,
+  PaymentData,
+  validatePaymentConfirmation,
+  validatePaymentData,
+  ValidationResult,
+} from "./llm";
+import { log } from "../diagnostics/log";
+import { DEFAULT_CONTEXT_WINDOW, emailBudget, EmailPart, estimateTokens, planEmailContext } from "./context";
+import { DEFAULT_CURRENCY, DEFAULT_LOCALE, detectCurrency, parseAmount, parseDate, parsePlainAmount } from "./normalize";
+import { redact } from "./redact";
+import { ExtractionMode, paymentFieldsFromRules, RuleFields, statementFieldsFromRules, trustedFields } from "./rules";
+import { labelStatement, parseStatement, StatementTemplate } from "./statement";
+
+// ----------------------
+// Extraction Pipeline
+// ----------------------
+// Turns one email's text into the summary or payment to store, without touching
+// IndexedDB (beyond the diagnostics log, which skips it where it is missing) or chrome
+// APIs, so the service worker and the offline evaluation harness run exactly the same
+// steps. The engine is fetched lazily: rules-only extraction, and
+// hybrid extraction the rules fully answer, never load a model. Rules read the original
+// email; the model only ever sees it redacted, and only the sections that fit its
+// context window (see context.ts).
+
+export interface PipelineOptions {
+  mode: ExtractionMode;
+  templates: StatementTemplate[];
+  maxEmailContentLength: number;
+  contextWindow?: number; // Tokens of the extraction model; DEFAULT_CONTEXT_WINDOW when unset
+  locale?: string; // How amounts and numeric dates are written; DEFAULT_LOCALE when unset
+  getEngine: () => Promise<ChatEngine | null>; // Resolves with null when no engine can be used
+  messageId?: string; // Tags the log entries of the message being extracted
+}
+
+// Extracted fields are written the same way whatever the user's locale: DD-MM-YYYY
+// dates and plain amounts with a decimal point (see the schemas in llm.ts). The locale
+// only applies to values read from the email itself.
+const FIELD_LOCALE = "en-GB";
+
+// Builds the prompt for (a part of) the redacted email.
+export type PromptBuilder = (emailContent: string, part?: EmailPart) => string;
+
+export type ModeExtraction<T> = ExtractionResult<T> & { mode: ExtractionMode };
+
+export type PipelineResult<T, D> =
+  | { ok: true; record: T; data: D; mode: ExtractionMode }
+  | { ok: false; error: string; rawOutput: string; mode: ExtractionMode };
+
+export type StatementRecord = Omit<NewPaymentSummary, "sourceMessageId">;
+export type PaymentRecordFields = Omit<NewPaymentRecord, "sourceMessageId">;
+
+function extractWithRules<T>(rules: RuleFields<T>, validate: (value: unknown) => ValidationResult<T>): ModeExtraction<T> {
+  const validation = validate(rules.data);
+  return validation.ok
+    ? { ok: true, data: validation.data, attempts: 0, mode: "rules" }
+    : { ok: false, error: validation.errors.join("; "), rawOutput: JSON.stringify(rules.data), attempts: 0, mode: "rules" };
+}
+
+// Sends the redacted email to the model within the context budget: in one prompt when
+// it fits after dropping irrelevant sections, otherwise chunk by chunk.
+async function extractWithModel<T>(
+  engine: ChatEngine,
+  content: string,
+  buildPrompt: PromptBuilder,
+  schema: FieldsSchema,
+  validate: (value: unknown) => ValidationResult<T>,
+  options: Pick<PipelineOptions, "maxEmailContentLength" | "contextWindow" | "messageId">,
+): Promise<ExtractionResult<T>> {
+  const { messageId } = options;
+  const budget = emailBudget(options.contextWindow || DEFAULT_CONTEXT_WINDOW, estimateTokens(buildPrompt("")), options.maxEmailContentLength);
+  const context = planEmailContext(content, budget);
+  if (context.kind === "whole") {
+    if (context.dropped > 0) log.debug("llm", `Left out ${context.dropped} irrelevant section(s) to fit ${budget} characters`, { messageId });
+    return extractWithSchema(engine, buildPrompt(context.text), schema, validate, messageId);
+  }
+  log.info("llm", `Email is longer than ${budget} characters; extracting ${context.chunks.length} chunk(s)`, { messageId });
+  return extractChunked(engine, context.chunks, buildPrompt, schema, validate, messageId);
+}
+
+// Extracts an email's fields in the given mode; the result says which mode produced
+// it. Hybrid mode asks the model only when the rules missed a field or found one with
+// low confidence, keeps the trusted rule fields over the model's answer, and falls back
+// to rules when the engine cannot be used. Model-only mode fails without an engine.
+// `content` is the redacted email.
+export async function extractFields<T>(
+  rules: RuleFields<T>,
+  content: string,
+  buildPrompt: PromptBuilder,
+  schema: FieldsSchema,
+  validate: (value: unknown) => ValidationResult<T>,
+  options: Pick<PipelineOptions, "mode" | "getEngine" | "messageId" | "maxEmailContentLength" | "contextWindow">,
+): Promise<ModeExtraction<T>> {
+  const { mode, messageId } = options;
+  if (mode === "rules") return extractWithRules(rules, validate);
+  const trusted = trustedFields(rules);
+  const allTrusted = Object.keys(trusted).length === Object.keys(rules.data).length;
+  if (mode === "hybrid" && allTrusted && validate(rules.data).ok) return extractWithRules(rules, validate);
+  const engine = await options.getEngine();
+  if (!engine) {
+    if (mode === "llm") throw new Error("Engine failed to initialize");
+    log.warn("llm", "Engine is unavailable; extracting with rules only.", { messageId });
+    return extractWithRules(rules, validate);
+  }
+  const extraction = await extractWithModel(engine, content, buildPrompt, schema, validate, options);
+  if (mode === "llm") return { ...extraction, mode };
+  if (!extraction.ok) {
+    const fallback = extractWithRules(rules, validate);
+    return fallback.ok ? fallback : { ...extraction, mode };
+  }
+  return { ...extraction, data: { ...extraction.data, ...trusted }, mode };
+}
+
+export async function extractStatement(content: string, sender: string, options: PipelineOptions): Promise<PipelineResult<StatementRecord, PaymentData>> {
+  const statement = parseStatement(content, sender, options.templates);
+  const summaryDict = labelStatement(statement);
+  // Only the labels: the values are the statement's own figures.
+  log.debug("parse", "Structured summary", { messageId: options.messageId, data: { fields: Object.keys(summaryDict) } });
+  const buildPrompt: PromptBuilder = (emailContent, part) => buildStatementPrompt(emailContent.toLowerCase(), summaryDict, part);
+  const locale = options.locale || DEFAULT_LOCALE;
+  // The model drops currency symbols, so take the currency from the statement itself.
+  const currency = detectCurrency(statement.fields.totalDue?.value || "") || detectCurrency(content) || DEFAULT_CURRENCY;
+  const rules = statementFieldsFromRules(statement, sender, locale, currency);
+  const extraction = await extractFields(rules, redact(content), buildPrompt, PAYMENT_DATA_SCHEMA, validatePaymentData, options);
+  if (!extraction.ok) {
+    // The error quotes extracted values; the ledger keeps it, so the log does not.
+    log.error("parse", `Extraction (${extraction.mode}) failed after ${extraction.attempts} attempt(s)`, { messageId: options.messageId });
+    return { ok: false, error: extraction.error, rawOutput: extraction.rawOutput, mode: extraction.mode };
+  }
+  const paymentData = extraction.data;
+  log.info("parse", `Extracted with ${extraction.mode}`, { messageId: options.messageId });
+  const amount = parsePlainAmount(paymentData["Total Amount Due"], currency);
+  if (!amount) return { ok: false, error: `Total Amount Due is not a ${currency} amount`, rawOutput: JSON.stringify(paymentData), mode: extraction.mode };
+  const dueDate = parseDate(paymentData["Due Date"], { locale: FIELD_LOCALE }) || undefined;
+  const statementDate = statement.fields.statementDate ? parseDate(statement.fields.statementDate.value, { locale }) : null;
+  const minimumDue = statement.fields.minimumDue ? parseAmount(statement.fields.minimumDue.value, amount.currency, locale) : null;
+  const record: StatementRecord = {
+    bankName: paymentData["Bank Name"],
+    cardLast4: statement.fields.cardLast4?.value,
+    // Billing month of the statement, or the due month when no statement date was found.
+    statementPeriod: (statementDate || dueDate)?.substring(0, 7),
+    amountMinor: amount.amountMinor,
+    minimumDueMinor: minimumDue?.amountMinor,
+    currency: amount.currency,
+    dueDate,
+    extractionMode: extraction.mode,
+  };
+  return { ok: true, record, data: paymentData, mode: extraction.mode };
+}
+
+// The amount paid and, when the email has them, the payment date and bank are
+// extracted in the given mode, while the card and issuer come from the statement rules.
+export async function extractPayment(content: string, sender: string, options: PipelineOptions): Promise<PipelineResult<PaymentRecordFields, PaymentConfirmationData>> {
+  const statement = parseStatement(content, sender, options.templates);
+  const buildPrompt: PromptBuilder = (emailContent, part) => buildPaymentPrompt(emailContent.toLowerCase(), part);
+  const locale = options.locale || DEFAULT_LOCALE;
+  const rules = paymentFieldsFromRules(content, sender, statement.bankName, locale);
+  const extraction = await extractFields(rules, redact(content), buildPrompt, PAYMENT_CONFIRMATION_SCHEMA, validatePaymentConfirmation, options);
+  if (!extraction.ok) {
+    log.error("parse", `Payment success extraction (${extraction.mode}) failed after ${extraction.attempts} attempt(s)`, { messageId: options.messageId });
+    return { ok: false, error: extraction.error, rawOutput: extraction.rawOutput, mode: extraction.mode };
+  }
+  const currency = detectCurrency(content) || DEFAULT_CURRENCY;
+  const amount = parsePlainAmount(extraction.data["Total Amount Due"], currency);
+  if (!amount) return { ok: false, error: `Total Amount Due is not a ${currency} amount`, rawOutput: JSON.stringify(extraction.data), mode: extraction.mode };
+  const paidOn = extraction.data["Payment Date"] ? parseDate(extraction.data["Payment Date"], { locale: FIELD_LOCALE }) : null;
+  const record: PaymentRecordFields = {
+    amountMinor: amount.amountMinor,
+    currency: amount.currency,
+    paidOn: paidOn || undefined,
+    // A sender matched to a statement template names the issuer more reliably than the model.
+    bankName: statement.bankName || extraction.data["Bank Name"],
+    cardLast4: statement.fields.cardLast4?.value,
+    extractionMode: extraction.mode,
+  };
+  return { ok: true, record, data: extraction.data, mode: extraction.mode };
+}
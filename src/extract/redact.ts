@@ -0,0 +1,94 @@
+// ----------------------
+// PII Redaction
+// ----------------------
+// Masks personal data in email text before it is put into a prompt or written to the
+// console. Card numbers keep their last 4 digits, since bills are told apart by them;
+// email addresses keep their domain, which often names the bank. Phone numbers, other
+// account and reference numbers, and postal addresses are replaced outright. Amounts
+// and dates are left alone, so the redacted text still extracts the same way.
+//
+// The statement parser still reads the original text; only what leaves the parser is
+// redacted.
+
+export const REDACTED_ACCOUNT = "[account number]";
+export const REDACTED_PHONE = "[phone]";
+export const REDACTED_ADDRESS = "[address]";
+
+const EMAIL = /[A-Za-z0-9._%+-]+@([A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,})/g;
+
+// Digits and mask characters in groups, e.g. "4111 1111 1111 1111" or "5241 81XX XXXX 1234".
+const CARD_CANDIDATE = /(?<![\w*•])[\dXx*•][\dXx*• -]{11,22}\d(?![\w*•])/g;
+const MASK_CHARACTERS = /[Xx*•]/;
+
+const PHONES = [
+  // Indian mobiles, with or without +91
+  /(?<![\w+])(?:(?:\+|00)91[\s-]?)?[6-9]\d{4}[\s-]?\d{5}(?!\w)/g,
+  // Indian landlines and toll-free numbers
+  /(?<![\w+])(?:(?:\+|00)91[\s-]?\d{2,4}|0\d{2,4}|1800)[\s-]\d{3,4}[\s-]?\d{3,4}(?!\w)/g,
+  // North American numbers: (800) 432-1000, 800.432.1000, +1 800 432 1000
+  /(?<![\w+])(?:\+?1[\s.-]?)?(?:\([2-9]\d{2}\)|[2-9]\d{2})[\s.-]?\d{3}[\s.-]\d{4}(?!\w)/g,
+];
+
+// An account label followed by a number, masked or not: "A/c No. 50100123456789".
+const LABELLED_ACCOUNT = /\b(account|a\/c|acct)(\s*(?:no\.?|number|#)?\s*[:.-]?\s*)[\dXx*•-]{6,20}\d(?![\w-])/gi;
+// Any other long digit run; amounts have separators and dates are shorter.
+const LONG_NUMBER = /(?<![\w.,])\d{9,18}(?![\w.,])/g;
+
+const ADDRESS_LABEL = /^(\s*(?:billing |mailing |registered |communication |residential )?address\s*[:-]?\s*)\S.*$/gim;
+const ADDRESS_WORDS = /\b(flat|floor|house|h\.? ?no|plot|sector|nagar|colony|apartments?|apt|society|street|lane|marg|road|near|opp|block|phase|layout|cross|avenue|ave|blvd|boulevard|suite|ste|drive|p\.? ?o\.? box)\b/i;
+const US_CITY_STATE_ZIP = /\b[A-Z][A-Za-z .'-]*,\s*[A-Z]{2}\s+\d{5}(?:-\d{4})?\b/;
+const INDIAN_PIN = /[A-Za-z)]\s*(?:[,-]|\bpin(?:code)?\s*:?)\s*[1-9]\d{2}\s?\d{3}(?!\d)/i;
+// Lines about money or the bill itself are statement content, never an address.
+const STATEMENT_LINE = /\b(amount|due|balance|limit|payment|paid|total|minimum|statement|rs|inr|usd)\b|[₹$€£]/i;
+
+function luhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// Masks a card number down to its last 4 digits. Unmasked digit runs must pass the
+// Luhn check, so long account and reference numbers are left to the rules below.
+function maskCard(match: string): string {
+  const characters = match.replace(/[ -]/g, "");
+  if (characters.length < 13 || characters.length > 19) return match;
+  const last4 = characters.slice(-4);
+  if (!/^\d{4}$/.test(last4)) return match;
+  const masked = MASK_CHARACTERS.test(characters);
+  if (!masked && !luhnValid(characters)) return match;
+  return `XXXX XXXX XXXX ${last4}`;
+}
+
+function redactAddressLine(line: string): string {
+  if (STATEMENT_LINE.test(line)) return line;
+  const looksLikeAddress = (ADDRESS_WORDS.test(line) && /\d/.test(line)) || US_CITY_STATE_ZIP.test(line) || INDIAN_PIN.test(line);
+  return looksLikeAddress ? `${line.match(/^\s*/)![0]}${REDACTED_ADDRESS}` : line;
+}
+
+export function redact(text: string): string {
+  let redacted = text.replace(EMAIL, "•••@$1");
+  // A labelled account number goes first: some pass the Luhn check by chance.
+  redacted = redacted.replace(LABELLED_ACCOUNT, `$1$2${REDACTED_ACCOUNT}`);
+  redacted = redacted.replace(CARD_CANDIDATE, maskCard);
+  for (const phone of PHONES) redacted = redacted.replace(phone, REDACTED_PHONE);
+  redacted = redacted.replace(LONG_NUMBER, REDACTED_ACCOUNT);
+  redacted = redacted.replace(ADDRESS_LABEL, `$1${REDACTED_ADDRESS}`);
+  return redacted.split("\n").map(redactAddressLine).join("\n");
+}
+
+// Redacts every string in a value, for logging records and extraction results.
+export function redactValue<T>(value: T): T {
+  if (typeof value === "string") return redact(value) as T;
+  if (Array.isArray(value)) return value.map(redactValue) as T;
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, field]) => [key, redactValue(field)])) as T;
+  }
+  return value;
+}
@@ -0,0 +1,122 @@
+import { PaymentConfirmationData, PaymentData, validatePaymentConfirmation, validatePaymentData, ValidationResult } from "./llm";
+import { DEFAULT_CURRENCY, DEFAULT_LOCALE, detectCurrency, formatPlainAmount, parseAmount, parseDate } from "./normalize";
+import { senderDomain, StatementExtraction } from "./statement";
+
+// ----------------------
+// Rule-Based Extraction
+// ----------------------
+// Builds the same PaymentData and PaymentConfirmationData the model produces, from the
+// statement parser and normalization rules alone. Used when WebGPU or the model is
+// unavailable, and in hybrid mode for the fields the parser found with confidence.
+
+export type ExtractionMode = "llm" | "rules" | "hybrid";
+
+// Parser fields at or above this confidence are trusted without asking the model; in
+// practice that means a template matched and the value sat on the label's line.
+export const TRUSTED_CONFIDENCE = 0.75;
+
+// Words in sender display names that say nothing about the issuer.
+const SENDER_NOISE = /\b(?:insta ?alerts?|alerts?|no-?reply|do ?not ?reply|notifications?|e-?statements?|statements?|credit cards?|cards? services?|customer (?:care|service)|team|info|mailer|service)\b/gi;
+
+// Best guess at the issuing bank from a sender such as "HDFC Bank InstaAlerts <alerts@hdfcbank.net>".
+export function bankNameFromSender(sender: string): string | null {
+  const displayName = sender.includes("<") ? sender.split("<")[0].replace(/"/g, "").trim() : "";
+  const cleaned = displayName.replace(SENDER_NOISE, "").replace(/[^\p{L}\p{N}&.' ]/gu, " ").replace(/\s+/g, " ").trim();
+  if (cleaned && !cleaned.includes("@")) return cleaned;
+  const domain = senderDomain(sender);
+  if (!domain) return null;
+  // The registrable label: "alerts.hdfcbank.net" -> "hdfcbank", "mail.co.uk" style suffixes aside.
+  const labels = domain.split(".");
+  const label = labels.length >= 3 && labels[labels.length - 2].length <= 3 ? labels[labels.length - 3] : labels[labels.length - 2];
+  if (!label) return null;
+  const bank = label.replace(/bank$/i, "");
+  const name = bank.length <= 4 ? bank.toUpperCase() : bank.charAt(0).toUpperCase() + bank.slice(1);
+  return label.toLowerCase().endsWith("bank") ? `${name} Bank` : name;
+}
+
+function toDayFirst(isoDate: string): string {
+  const [year, month, day] = isoDate.split("-");
+  return `${day}-${month}-${year}`;
+}
+
+// Rule-based PaymentData fields, each with the parser's confidence. Fields the parser
+// could not find or normalize are left out.
+export interface RuleFields<T> {
+  data: Partial<T>;
+  confidence: Partial<Record<keyof T, number>>;
+}
+
+// `currency` applies when the amount itself names none, e.g. "KWD" only in the heading.
+export function statementFieldsFromRules(extraction: StatementExtraction, sender: string, locale = DEFAULT_LOCALE, currency = DEFAULT_CURRENCY): RuleFields<PaymentData> {
+  const fields: RuleFields<PaymentData> = { data: {}, confidence: {} };
+  const dueDate = extraction.fields.dueDate;
+  const isoDueDate = dueDate ? parseDate(dueDate.value, { locale }) : null;
+  if (dueDate && isoDueDate) {
+    fields.data["Due Date"] = toDayFirst(isoDueDate);
+    fields.confidence["Due Date"] = dueDate.confidence;
+  }
+  const totalDue = extraction.fields.totalDue;
+  const amount = totalDue ? parseAmount(totalDue.value, currency, locale) : null;
+  if (totalDue && amount) {
+    // A credit balance ("5,000 Cr") leaves nothing to pay.
+    fields.data["Total Amount Due"] = formatPlainAmount({ ...amount, amountMinor: Math.max(amount.amountMinor, 0) });
+    fields.confidence["Total Amount Due"] = totalDue.confidence;
+  }
+  // A matched template names the bank outright; a sender name is a good guess.
+  const bankName = extraction.bankName || bankNameFromSender(sender);
+  if (bankName) {
+    fields.data["Bank Name"] = bankName;
+    fields.confidence["Bank Name"] = extraction.bankName ? 0.9 : 0.6;
+  }
+  return fields;
+}
+
+export function extractPaymentDataWithRules(extraction: StatementExtraction, sender: string, locale = DEFAULT_LOCALE): ValidationResult<PaymentData> {
+  return validatePaymentData(statementFieldsFromRules(extraction, sender, locale).data);
+}
+
+// Payment confirmations rarely follow a template, so the amount is the first money
+// value with a currency marker before or after it, or one following "payment of"/"amount of"/"paid".
+const PAYMENT_AMOUNT_PATTERNS = [
+  /(?:₹|rs\.?|inr|\$|usd|€|eur|£|gbp)\s*\d(?:[\d,.'’]*\d)?|\d(?:[\d,.'’]*\d)?\s*(?:€|£|(?:eur|gbp|usd|inr)\b)/i,
+  /(?:payment of|amount of|paid|received)\s*:?\s*\d(?:[\d,.'’]*\d)?/i,
+];
+const PAYMENT_DATE_PATTERN = /\bon\s+(\d{1,2}(?:st|nd|rd|th)?[\/\-. ](?:\d{1,2}|[a-z]{3,9})[\/\-. ,]+\d{2,4}|[a-z]{3,9}\.? \d{1,2}(?:st|nd|rd|th)?,? \d{4}|\d{4}-\d{2}-\d{2})/i;
+
+export function paymentFieldsFromRules(text: string, sender: string, bankName?: string, locale = DEFAULT_LOCALE): RuleFields<PaymentConfirmationData> {
+  const fields: RuleFields<PaymentConfirmationData> = { data: {}, confidence: {} };
+  for (const [index, pattern] of PAYMENT_AMOUNT_PATTERNS.entries()) {
+    const match = text.match(pattern);
+    const amount = match ? parseAmount(match[0], detectCurrency(match[0]) || DEFAULT_CURRENCY, locale) : null;
+    if (amount && amount.amountMinor > 0) {
+      fields.data["Total Amount Due"] = formatPlainAmount(amount);
+      fields.confidence["Total Amount Due"] = index === 0 ? 0.8 : 0.6;
+      break;
+    }
+  }
+  const dateMatch = text.match(PAYMENT_DATE_PATTERN);
+  const paidOn = dateMatch ? parseDate(dateMatch[1], { locale }) : null;
+  if (paidOn) {
+    fields.data["Payment Date"] = toDayFirst(paidOn);
+    fields.confidence["Payment Date"] = 0.75;
+  }
+  const bank = bankName || bankNameFromSender(sender);
+  if (bank) {
+    fields.data["Bank Name"] = bank;
+    fields.confidence["Bank Name"] = bankName ? 0.9 : 0.6;
+  }
+  return fields;
+}
+
+export function extractPaymentConfirmationWithRules(text: string, sender: string, bankName?: string, locale = DEFAULT_LOCALE): ValidationResult<PaymentConfirmationData> {
+  return validatePaymentConfirmation(paymentFieldsFromRules(text, sender, bankName, locale).data);
+}
+
+// Fields the model does not need to be asked for.
+export function trustedFields<T>(fields: RuleFields<T>): Partial<T> {
+  const trusted: Partial<T> = {};
+  for (const key of Object.keys(fields.data) as (keyof T)[]) {
+    if ((fields.confidence[key] ?? 0) >= TRUSTED_CONFIDENCE) trusted[key] = fields.data[key];
+  }
+  return trusted;
+}
@@ -0,0 +1,311 @@
+import { log } from "../diagnostics/log";
+
+// ----------------------
+// Statement Template Registry
+// ----------------------
+// Each bank template says how to recognise a statement (sender domain or a layout
+// fingerprint) and which labels that bank uses for each field. Values are then read
+// by field type, on the label's line or the lines just after it. Templates are plain
+// JSON so users can store their own alongside the built-in ones.
+
+export type StatementField = "statementDate" | "totalDue" | "minimumDue" | "dueDate" | "cardLast4" | "creditLimit";
+
+export const STATEMENT_FIELDS: StatementField[] = ["statementDate", "totalDue", "minimumDue", "dueDate", "cardLast4", "creditLimit"];
+
+export interface StatementTemplate {
+  id: string;
+  bankName: string;
+  senderDomains: string[]; // Matched against the sender address, including subdomains
+  fingerprint?: string; // Regex source; a match identifies the layout regardless of sender
+  labels: Partial<Record<StatementField, string>>; // Regex sources for each field's label
+}
+
+export interface ExtractedField {
+  value: string;
+  confidence: number; // 0..1
+}
+
+export interface StatementExtraction {
+  templateId: string; // "generic" when no template matched
+  bankName?: string;
+  fields: Partial<Record<StatementField, ExtractedField>>;
+}
+
+const GENERIC_LABELS: Record<StatementField, string> = {
+  statementDate: "statement (?:generation )?date|billing date|closing date",
+  totalDue: "total (?:amount )?dues?|total outstanding|new balance|statement balance|closing balance",
+  minimumDue: "minimum (?:amount |payment )?due|min(?:imum)?\\.? (?:amt|amount|payment) due|minimum payment",
+  dueDate: "(?:payment |bill )?due (?:date|by)",
+  cardLast4: "card (?:number|no\\.?|ending(?: in| with)?)|account ending(?: in)?",
+  creditLimit: "(?<!available )(?:total )?credit limit",
+};
+
+const VALUE_PATTERNS: Record<StatementField, RegExp> = {
+  statementDate: /\d{1,2}(?:st|nd|rd|th)?[\/\-. ](?:\d{1,2}|[a-z]{3,9})[\/\-. ,]+\d{2,4}|[a-z]{3,9}\.? \d{1,2}(?:st|nd|rd|th)?,? \d{4}|\d{4}-\d{2}-\d{2}/i,
+  totalDue: /(?:₹|rs\.?|inr|\$|usd|€|eur|£|gbp)?\s*-?\d(?:[\d,.'’]*\d)?(?:\s*(?:€|£|(?:eur|gbp|usd|inr)\b))?(?:\s*(?:cr|dr)\b)?/i, // "₹1,23,456.00", "1.234,56 €", "5,000 Cr"
+  minimumDue: /(?:₹|rs\.?|inr|\$|usd|€|eur|£|gbp)?\s*-?\d(?:[\d,.'’]*\d)?(?:\s*(?:€|£|(?:eur|gbp|usd|inr)\b))?(?:\s*(?:cr|dr)\b)?/i,
+  dueDate: /\d{1,2}(?:st|nd|rd|th)?[\/\-. ](?:\d{1,2}|[a-z]{3,9})[\/\-. ,]+\d{2,4}|[a-z]{3,9}\.? \d{1,2}(?:st|nd|rd|th)?,? \d{4}|\d{4}-\d{2}-\d{2}/i,
+  cardLast4: /\b(\d{4})\D*$/, // The last four-digit group on the line
+  creditLimit: /(?:₹|rs\.?|inr|\$|usd|€|eur|£|gbp)?\s*\d(?:[\d,.'’]*\d)?(?:\s*(?:€|£|(?:eur|gbp|usd|inr)\b))?/i,
+};
+
+// Masked card numbers are recognisable anywhere in the text, even without a label.
+const MASKED_CARD_PATTERN = /(?:[x*•]{4}[\s-]*){2,3}(\d{4})\b|[x*•]{2,}(\d{4})\b/i;
+
+const SENDER_MATCH_CONFIDENCE = 0.9;
+const FINGERPRINT_MATCH_CONFIDENCE = 0.75;
+const GENERIC_SUMMARY_CONFIDENCE = 0.6;
+const GENERIC_CONFIDENCE = 0.45;
+// Values found on a following line are less certain than ones on the label's own line.
+const NEXT_LINE_PENALTY = 0.1;
+
+export const BUILT_IN_TEMPLATES: StatementTemplate[] = [
+  {
+    id: "hdfc",
+    bankName: "HDFC Bank",
+    senderDomains: ["hdfcbank.net", "hdfcbank.com"],
+    fingerprint: "HDFC Bank Credit Card(?:s)? Statement",
+    labels: {
+      statementDate: "statement date",
+      totalDue: "total dues|total amount due",
+      minimumDue: "minimum amount due",
+      dueDate: "payment due date",
+      creditLimit: "^credit limit",
+    },
+  },
+  {
+    id: "icici",
+    bankName: "ICICI Bank",
+    senderDomains: ["icicibank.com"],
+    fingerprint: "ICICI Bank Credit Card Statement",
+    labels: {
+      statementDate: "statement date",
+      totalDue: "total amount due",
+      minimumDue: "minimum amount due",
+      dueDate: "(?:payment )?due date",
+      creditLimit: "credit limit \\(including cash\\)|^credit limit",
+    },
+  },
+  {
+    id: "sbicard",
+    bankName: "SBI Card",
+    senderDomains: ["sbicard.com"],
+    fingerprint: "SBI Card(?:s)? (?:monthly )?statement",
+    labels: {
+      statementDate: "statement date",
+      totalDue: "total amount due",
+      minimumDue: "minimum amount due",
+      dueDate: "payment due date",
+      creditLimit: "^credit limit",
+    },
+  },
+  {
+    id: "axis",
+    bankName: "Axis Bank",
+    senderDomains: ["axisbank.com"],
+    fingerprint: "Axis Bank Credit Card Statement",
+    labels: {
+      statementDate: "statement (?:generation )?date",
+      totalDue: "total payment due",
+      minimumDue: "minimum payment due",
+      dueDate: "payment due date",
+      creditLimit: "^credit limit",
+    },
+  },
+  {
+    id: "amex",
+    bankName: "American Express",
+    senderDomains: ["americanexpress.com", "aexp.com", "welcome.aexp.com"],
+    fingerprint: "American Express.*(?:statement|closing balance)",
+    labels: {
+      statementDate: "closing date|statement date",
+      totalDue: "closing balance|new balance",
+      minimumDue: "minimum (?:payment|amount) due",
+      dueDate: "payment due date|due date",
+      cardLast4: "account ending",
+      creditLimit: "credit limit",
+    },
+  },
+  {
+    id: "chase",
+    bankName: "Chase",
+    senderDomains: ["chase.com"],
+    fingerprint: "Chase.*statement is ready",
+    labels: {
+      statementDate: "statement (?:closing )?date|closing date",
+      totalDue: "statement balance|new balance",
+      minimumDue: "minimum payment(?: due)?",
+      dueDate: "payment due date|due date",
+      cardLast4: "account ending(?: in)?",
+      creditLimit: "credit limit",
+    },
+  },
+];
+
+// ----------------------
+// Matching
+// ----------------------
+export function senderDomain(sender: string): string | null {
+  const address = sender.match(/<([^>]+)>/)?.[1] || sender;
+  const domain = address.split("@")[1];
+  return domain ? domain.trim().toLowerCase() : null;
+}
+
+export function matchesDomain(domain: string, templateDomain: string): boolean {
+  return domain === templateDomain || domain.endsWith(`.${templateDomain}`);
+}
+
+export function findTemplate(
+  templates: StatementTemplate[],
+  sender: string,
+  text: string,
+): { template: StatementTemplate; confidence: number } | null {
+  const domain = senderDomain(sender);
+  if (domain) {
+    const bySender = templates.find(template => template.senderDomains.some(d => matchesDomain(domain, d.toLowerCase())));
+    if (bySender) return { template: bySender, confidence: SENDER_MATCH_CONFIDENCE };
+  }
+  const byLayout = templates.find(template => {
+    if (!template.fingerprint) return false;
+    try {
+      return new RegExp(template.fingerprint, "i").test(text);
+    } catch {
+      log.warn("parse", `Invalid fingerprint in template ${template.id}`);
+      return false;
+    }
+  });
+  return byLayout ? { template: byLayout, confidence: FINGERPRINT_MATCH_CONFIDENCE } : null;
+}
+
+// ----------------------
+// Field Extraction
+// ----------------------
+function readValue(field: StatementField, text: string): string | null {
+  if (field === "cardLast4") {
+    const masked = text.match(MASKED_CARD_PATTERN);
+    if (masked) return masked[1] || masked[2];
+  }
+  const match = text.match(VALUE_PATTERNS[field]);
+  if (!match) return null;
+  if (field === "cardLast4") return match[1];
+  const value = match[0].trim();
+  return /\d/.test(value) ? value : null;
+}
+
+// Finds the label and reads the value after it on the same line, or on one of
+// the next two non-empty lines.
+function extractField(lines: string[], field: StatementField, label: string, confidence: number): ExtractedField | null {
+  let labelPattern: RegExp;
+  try {
+    labelPattern = new RegExp(label, "i");
+  } catch {
+    log.warn("parse", `Invalid label pattern for ${field}: ${label}`);
+    return null;
+  }
+  for (let i = 0; i < lines.length; i++) {
+    const labelMatch = lines[i].match(labelPattern);
+    if (!labelMatch) continue;
+    const rest = lines[i].substring(labelMatch.index! + labelMatch[0].length);
+    const sameLine = readValue(field, rest);
+    if (sameLine) return { value: sameLine, confidence };
+    for (let j = i + 1; j < Math.min(lines.length, i + 3); j++) {
+      const nextLine = readValue(field, lines[j]);
+      if (nextLine) return { value: nextLine, confidence: confidence - NEXT_LINE_PENALTY };
+    }
+  }
+  return null;
+}
+
+function extractFields(
+  lines: string[],
+  labels: Partial<Record<StatementField, string>>,
+  confidence: number,
+): Partial<Record<StatementField, ExtractedField>> {
+  const fields: Partial<Record<StatementField, ExtractedField>> = {};
+  for (const field of STATEMENT_FIELDS) {
+    const label = labels[field];
+    if (!label) continue;
+    const extracted = extractField(lines, field, label, confidence);
+    if (extracted) fields[field] = extracted;
+  }
+  return fields;
+}
+
+function toLines(text: string): string[] {
+  return text.split("\n").map(line => line.trim()).filter(line => line.length > 0);
+}
+
+// The original heuristic: look for a "summary" section and read labelled values from it,
+// falling back to the whole text with lower confidence.
+function parseGeneric(text: string): Partial<Record<StatementField, ExtractedField>> {
+  const markerMatch = text.match(/summary[\s:]*\n*/i);
+  let summaryPart = text;
+  let confidence = GENERIC_CONFIDENCE;
+  if (markerMatch) {
+    summaryPart = text.substring(markerMatch.index! + markerMatch[0].length).trim();
+    const noteIndex = summaryPart.search(/\bnote\b/i);
+    if (noteIndex !== -1) {
+      summaryPart = summaryPart.substring(0, noteIndex).trim();
+    }
+    confidence = GENERIC_SUMMARY_CONFIDENCE;
+  }
+  const fields = extractFields(toLines(summaryPart), GENERIC_LABELS, confidence);
+  if (markerMatch) {
+    // Fill anything the summary section lacked from the rest of the text.
+    const rest = extractFields(toLines(text), GENERIC_LABELS, GENERIC_CONFIDENCE);
+    for (const field of STATEMENT_FIELDS) {
+      if (!fields[field] && rest[field]) fields[field] = rest[field];
+    }
+  }
+  return fields;
+}
+
+export function parseStatement(text: string, sender: string, templates: StatementTemplate[] = BUILT_IN_TEMPLATES): StatementExtraction {
+  const generic = parseGeneric(text);
+  const match = findTemplate(templates, sender, text);
+  const fields: Partial<Record<StatementField, ExtractedField>> = match
+    ? extractFields(toLines(text), match.template.labels, match.confidence)
+    : {};
+  for (const field of STATEMENT_FIELDS) {
+    if (!fields[field] && generic[field]) fields[field] = generic[field];
+  }
+  if (!fields.cardLast4) {
+    const masked = text.match(MASKED_CARD_PATTERN);
+    if (masked) fields.cardLast4 = { value: masked[1] || masked[2], confidence: GENERIC_CONFIDENCE };
+  }
+  return {
+    templateId: match ? match.template.id : "generic",
+    bankName: match?.template.bankName,
+    fields,
+  };
+}
+
+// ----------------------
+// Prompt Dictionary
+// ----------------------
+const FIELD_LABELS: Record<StatementField, string> = {
+  statementDate: "Statement Date",
+  totalDue: "Total Amount Due",
+  minimumDue: "Minimum Amount Due",
+  dueDate: "Payment Due Date",
+  cardLast4: "Card Last 4 Digits",
+  creditLimit: "Credit Limit",
+};
+
+// Flattens an extraction into the labelled dictionary the summarization prompt expects.
+export function labelStatement(extraction: StatementExtraction): Record<string, string> {
+  const summary: Record<string, string> = {};
+  if (extraction.bankName) summary["Bank Name"] = extraction.bankName;
+  for (const field of STATEMENT_FIELDS) {
+    const extracted = extraction.fields[field];
+    if (extracted) summary[FIELD_LABELS[field]] = extracted.value;
+  }
+  if (Object.keys(summary).length === 0) {
+    log.warn("parse", "No statement fields found.");
+  }
+  return summary;
+}
+
+export function parseBankSummary(emailText: string, sender = "", templates: StatementTemplate[] = BUILT_IN_TEMPLATES): Record<string, string> {
+  return labelStatement(parseStatement(emailText, sender, templates));
+}
@@ -0,0 +1,46 @@
+import { BUILT_IN_TEMPLATES, StatementTemplate } from "./statement";
+
+// ----------------------
+// User Template Storage
+// ----------------------
+// User templates live in chrome.storage.local and are tried before the built-in
+// ones, so a user template with a built-in's sender domain overrides it.
+
+export async function getUserTemplates(): Promise<StatementTemplate[]> {
+  const stored = await chrome.storage.local.get("statementTemplates");
+  return stored.statementTemplates || [];
+}
+
+export async function getStatementTemplates(): Promise<StatementTemplate[]> {
+  return [...(await getUserTemplates()), ...BUILT_IN_TEMPLATES];
+}
+
+function validateTemplate(template: StatementTemplate): string | null {
+  if (!template.id || !template.bankName) return "Template needs an id and a bank name";
+  if (!Array.isArray(template.senderDomains) || (template.senderDomains.length === 0 && !template.fingerprint)) {
+    return "Template needs at least one sender domain or a fingerprint";
+  }
+  for (const source of [template.fingerprint, ...Object.values(template.labels || {})]) {
+    if (!source) continue;
+    try {
+      new RegExp(source, "i");
+    } catch {
+      return `Invalid pattern: ${source}`;
+    }
+  }
+  return null;
+}
+
+// Adds or replaces a user template by id. Returns an error message if it is invalid.
+export async function saveUserTemplate(template: StatementTemplate): Promise<string | null> {
+  const error = validateTemplate(template);
+  if (error) return error;
+  const templates = (await getUserTemplates()).filter(existing => existing.id !== template.id);
+  await chrome.storage.local.set({ statementTemplates: [template, ...templates] });
+  return null;
+}
+
+export async function deleteUserTemplate(id: string): Promise<void> {
+  const templates = (await getUserTemplates()).filter(template => template.id !== id);
+  await chrome.storage.local.set({ statementTemplates: templates });
+}
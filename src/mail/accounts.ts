@@ -0,0 +1,92 @@
+import { log } from "../diagnostics/log";
+import { GmailAccountAuth, getUserEmail, launchGoogleAuthFlow } from "./gmail";
+
+// ----------------------
+// Gmail Accounts
+// ----------------------
+// Accounts the user connected besides the Chrome profile's own, which is synced through
+// getAuthToken whenever Gmail is enabled. The list lives in chrome.storage.local;
+// access tokens live in chrome.storage.session, so they are dropped when the browser
+// closes, and are renewed silently (prompt=none) when they expire. Only when that
+// fails is the user asked to sign in again.
+
+export interface GmailAccount {
+  email: string;
+  addedAt: string;
+}
+
+// Refresh a little before Google's expiry, so a sync never starts with a dying token.
+const TOKEN_EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+const SYNC_STREAMS = ["statements", "payments"];
+
+function tokenKey(email: string): string {
+  return `gmailToken:${email}`;
+}
+
+// The client ID from the options page, or the manifest's when none is set.
+function resolveClientId(clientId: string): string {
+  const resolved = clientId || chrome.runtime.getManifest().oauth2?.client_id;
+  if (!resolved) throw new Error("No Google client ID is configured");
+  return resolved;
+}
+
+// Email of the account signed in to the Chrome profile, or null when there is none.
+export async function getProfileEmail(): Promise<string | null> {
+  const info = await chrome.identity.getProfileUserInfo({ accountStatus: chrome.identity.AccountStatus.ANY });
+  return info.email || null;
+}
+
+export async function getGmailAccounts(): Promise<GmailAccount[]> {
+  const stored = await chrome.storage.local.get("gmailAccounts");
+  return stored.gmailAccounts || [];
+}
+
+async function setGmailAccounts(accounts: GmailAccount[]): Promise<void> {
+  await chrome.storage.local.set({ gmailAccounts: accounts });
+}
+
+// Asks the user to pick a Google account and adds it; an account that is already
+// connected just gets a fresh token.
+export async function addGmailAccount(clientId: string): Promise<GmailAccount> {
+  const token = await launchGoogleAuthFlow(resolveClientId(clientId), { interactive: true, prompt: "select_account" });
+  if (!token) throw new Error("Google sign-in was cancelled or failed");
+  const email = await getUserEmail(token.accessToken);
+  if (!email) throw new Error("Could not read the account's email address");
+  if (email === await getProfileEmail()) throw new Error(`${email} is this Chrome profile's account; enable Gmail to sync it`);
+  await chrome.storage.session.set({ [tokenKey(email)]: token });
+  const accounts = await getGmailAccounts();
+  const existing = accounts.find(account => account.email === email);
+  if (existing) return existing;
+  const account: GmailAccount = { email, addedAt: new Date().toISOString() };
+  await setGmailAccounts([...accounts, account]);
+  log.info("auth", `Gmail account ${email} added.`);
+  return account;
+}
+
+export async function getGmailAccountToken(clientId: string, email: string, interactive: boolean): Promise<string | null> {
+  const key = tokenKey(email);
+  const stored = (await chrome.storage.session.get(key))[key];
+  if (stored && stored.expiresAt - TOKEN_EXPIRY_MARGIN_MS > Date.now()) return stored.accessToken;
+  const id = resolveClientId(clientId);
+  let token = await launchGoogleAuthFlow(id, { interactive: false, loginHint: email, prompt: "none" });
+  if (!token && interactive) token = await launchGoogleAuthFlow(id, { interactive: true, loginHint: email });
+  if (!token) return null;
+  await chrome.storage.session.set({ [key]: token });
+  return token.accessToken;
+}
+
+export function gmailAccountAuth(clientId: string, account: GmailAccount): GmailAccountAuth {
+  return {
+    email: account.email,
+    getToken: interactive => getGmailAccountToken(clientId, account.email, interactive),
+  };
+}
+
+// Forgets the account, its token and its sync cursors. Its bills, payments and ledger
+// entries are removed from IndexedDB separately (db/accounts.ts).
+export async function removeGmailAccount(email: string): Promise<void> {
+  await setGmailAccounts((await getGmailAccounts()).filter(account => account.email !== email));
+  await chrome.storage.session.remove(tokenKey(email));
+  await chrome.storage.local.remove(SYNC_STREAMS.map(stream => `gmailSync:${email}:${stream}`));
+  log.info("auth", `Gmail account ${email} removed.`);
+}
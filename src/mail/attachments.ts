@@ -0,0 +1,68 @@
+import { log } from "../diagnostics/log";
+import { extractPdfText } from "../extract/pdf";
+import { getPasswordRules, getPdfPasswords } from "../extract/pdfPasswords";
+import { matchesDomain, senderDomain } from "../extract/statement";
+import { getStatementTemplates } from "../extract/templateStore";
+import { MailAttachment } from "./mime";
+import { MailMessage, MailSource } from "./types";
+
+// ----------------------
+// Statement Attachments
+// ----------------------
+// Many banks send the statement itself as a (usually password-protected) PDF, with
+// only a teaser in the body. The text of each PDF attachment is appended to the
+// message content, so keyword matching, the statement parser and the model all read
+// it like any other part of the email. Attachments are only downloaded for mail that
+// may be a statement, since history sync lists every new message in the mailbox.
+
+const MAX_PDF_BYTES = 10 * 1024 * 1024;
+
+export function isPdfAttachment(attachment: MailAttachment): boolean {
+  return attachment.mimeType === "application/pdf" || /\.pdf$/i.test(attachment.filename);
+}
+
+// True for a message with a PDF attachment that comes from a bank with a statement
+// template or PDF password rule, or names a statement keyword in its subject or body.
+export async function mayCarryStatement(email: MailMessage, keywords: string[]): Promise<boolean> {
+  if (!(email.attachments || []).some(isPdfAttachment)) return false;
+  const emailText = `${email.subject} ${email.content}`.toLowerCase();
+  if (keywords.some(kw => emailText.includes(kw.toLowerCase()))) return true;
+  const domain = senderDomain(email.sender);
+  if (!domain) return false;
+  const knownDomains = [...await getStatementTemplates(), ...await getPasswordRules()].flatMap(known => known.senderDomains);
+  return knownDomains.some(known => matchesDomain(domain, known.toLowerCase()));
+}
+
+export interface AttachmentText {
+  email: MailMessage; // With the text of the PDFs that could be read
+  needsPassword: boolean; // Whether a PDF was left out because no password opened it
+}
+
+// Returns the message with the text of its PDF attachments after the body. PDFs that
+// cannot be downloaded or opened are logged and left out.
+export async function withAttachmentText(source: MailSource, email: MailMessage): Promise<AttachmentText> {
+  const pdfs = (email.attachments || []).filter(isPdfAttachment);
+  if (pdfs.length === 0 || !source.fetchAttachment) return { email, needsPassword: false };
+  const passwords = await getPdfPasswords(email.sender, `${email.subject}\n${email.content}`);
+  const texts: string[] = [];
+  let needsPassword = false;
+  for (const attachment of pdfs) {
+    const context = { messageId: email.id, data: { filename: attachment.filename, size: attachment.size } };
+    if (attachment.size > MAX_PDF_BYTES) {
+      log.warn("fetch", "PDF attachment is too large to read", context);
+      continue;
+    }
+    const bytes = await source.fetchAttachment(email.id, attachment);
+    if (!bytes) continue;
+    const result = await extractPdfText(bytes, passwords);
+    if (!result.ok) {
+      if (result.reason === "password") needsPassword = true;
+      const hint = result.reason === "password" ? "; add a PDF password rule for this bank in the options and the email is read again" : "";
+      log.warn("parse", `Could not read PDF attachment ${attachment.filename}: ${result.error}${hint}`, context);
+      continue;
+    }
+    log.info("parse", `Read ${result.pages} page(s) of ${result.encrypted ? "encrypted " : ""}PDF attachment ${attachment.filename}`, context);
+    texts.push(result.text);
+  }
+  return { email: texts.length > 0 ? { ...email, content: [email.content, ...texts].join("\n\n") } : email, needsPassword };
+}
@@ -0,0 +1,181 @@
+import { log } from "../diagnostics/log";
+import { GmailSync } from "./gmailSync";
+import { decodeBase64ToBytes, extractTextBody, fromGmailPayload, listAttachments, MailAttachment } from "./mime";
+import { MailMessage, MailSource, SyncBatch } from "./types";
+
+const GMAIL_API = "https://www.googleapis.com/gmail/v1/users/me";
+const GOOGLE_AUTHORIZE_URL = "https://accounts.google.com/o/oauth2/v2/auth";
+const GMAIL_SCOPES = ["https://www.googleapis.com/auth/userinfo.email", "https://www.googleapis.com/auth/gmail.readonly"];
+
+// ----------------------
+// Auth and Utility Functions
+// ----------------------
+// The Chrome profile's own Google account signs in through getAuthToken. Further
+// accounts each run the OAuth implicit grant through launchWebAuthFlow, which needs a
+// "Web application" client whose redirect URI is chrome.identity.getRedirectURL().
+export async function getAuthToken(interactive = false): Promise<string | null> {
+  return new Promise((resolve) => {
+    chrome.identity.getAuthToken({ interactive }, (token) => {
+      if (chrome.runtime.lastError || !token) {
+        log.error("auth", "Authentication failed", { data: chrome.runtime.lastError?.message });
+        resolve(null);
+      } else {
+        resolve(token);
+      }
+    });
+  });
+}
+
+export interface GoogleAuthOptions {
+  interactive: boolean;
+  loginHint?: string; // Email of the account to sign in
+  prompt?: "none" | "select_account";
+}
+
+export interface GoogleToken {
+  accessToken: string;
+  expiresAt: number; // Epoch milliseconds
+}
+
+export function launchGoogleAuthFlow(clientId: string, options: GoogleAuthOptions): Promise<GoogleToken | null> {
+  const authUrl = new URL(GOOGLE_AUTHORIZE_URL);
+  authUrl.searchParams.set("client_id", clientId);
+  authUrl.searchParams.set("response_type", "token");
+  authUrl.searchParams.set("redirect_uri", chrome.identity.getRedirectURL());
+  authUrl.searchParams.set("scope", GMAIL_SCOPES.join(" "));
+  if (options.loginHint) authUrl.searchParams.set("login_hint", options.loginHint);
+  if (options.prompt) authUrl.searchParams.set("prompt", options.prompt);
+  return new Promise((resolve) => {
+    chrome.identity.launchWebAuthFlow({ url: authUrl.toString(), interactive: options.interactive }, (redirectUrl) => {
+      if (chrome.runtime.lastError || !redirectUrl) {
+        log.error("auth", "Google authentication failed", { data: chrome.runtime.lastError?.message });
+        resolve(null);
+        return;
+      }
+      const params = new URLSearchParams(new URL(redirectUrl).hash.substring(1));
+      const accessToken = params.get("access_token");
+      const expiresIn = Number(params.get("expires_in") || 3600);
+      resolve(accessToken ? { accessToken, expiresAt: Date.now() + expiresIn * 1000 } : null);
+    });
+  });
+}
+
+export async function getUserEmail(token: string): Promise<string | null> {
+  try {
+    const response = await fetch("https://www.googleapis.com/oauth2/v1/userinfo?alt=json", {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    if (!response.ok) throw new Error(response.statusText);
+    const userData = await response.json();
+    return userData.email || null;
+  } catch (error) {
+    log.error("auth", "Failed to fetch user email", { data: error });
+    return null;
+  }
+}
+
+// ----------------------
+// Email Processing Functions
+// ----------------------
+export function extractEmailBody(payload: any): string {
+  if (!payload) return "No body found";
+  return extractTextBody(fromGmailPayload(payload)) || "No readable content";
+}
+
+// ----------------------
+// Gmail Source
+// ----------------------
+// An account added through launchWebAuthFlow; see accounts.ts.
+export interface GmailAccountAuth {
+  email: string;
+  getToken(interactive: boolean): Promise<string | null>;
+}
+
+// Reads one mailbox: the given account, or the Chrome profile's account when none is
+// given. Messages are tagged with the account's email, and each account keeps its own
+// sync cursors.
+export class GmailSource implements MailSource {
+  readonly kind = "gmail";
+  readonly fetchDelayMs = 1000;
+  private token: string | null = null;
+  private email: string | null = null;
+
+  // Checks started by an alarm are not interactive, so no sign-in window opens unasked.
+  constructor(private backfillDays: number, private account?: GmailAccountAuth, private interactive = true) {}
+
+  async connect(): Promise<string | null> {
+    if (this.account) {
+      this.token = await this.account.getToken(this.interactive);
+      this.email = this.token ? this.account.email : null;
+      return this.email;
+    }
+    this.token = await getAuthToken(this.interactive);
+    if (!this.token) return null;
+    this.email = await getUserEmail(this.token);
+    return this.email;
+  }
+
+  async search(keywords: string[], maxResults: number): Promise<string[]> {
+    if (!this.token) return [];
+    const query = keywords.map(kw => `"${kw}"`).join(" OR ");
+    log.info("search", `Searching Gmail with query: ${query}`);
+    const response = await fetch(`${GMAIL_API}/messages?q=${encodeURIComponent(query)}&maxResults=${maxResults}`, {
+      headers: { Authorization: `Bearer ${this.token}` },
+    });
+    if (!response.ok) throw new Error(response.statusText);
+    const data = await response.json();
+    return (data.messages || []).map((message: { id: string }) => message.id);
+  }
+
+  async sync(stream: string, keywords: string[]): Promise<SyncBatch> {
+    if (!this.token) return { messageIds: [], commit: async () => {} };
+    return new GmailSync(stream, this.token, this.backfillDays, this.account?.email).next(keywords);
+  }
+
+  async fetchMessage(id: string): Promise<MailMessage | null> {
+    try {
+      if (!this.token) return null;
+      const response = await fetch(`${GMAIL_API}/messages/${id}`, {
+        headers: { Authorization: `Bearer ${this.token}` },
+      });
+      if (!response.ok) throw new Error(response.statusText);
+      const emailDetails = await response.json();
+      const root = fromGmailPayload(emailDetails.payload || {});
+      const subject = root.headers["subject"] || "Unknown";
+      const sender = root.headers["from"] || "Unknown";
+      const emailBody = extractTextBody(root) || "No readable content";
+      log.debug("fetch", "Fetched email", { messageId: id, data: { from: sender, subject, contentLength: emailBody.length } });
+      return {
+        id,
+        source: this.kind,
+        account: this.email || undefined,
+        threadId: emailDetails.threadId,
+        subject,
+        sender,
+        receivedAt: emailDetails.internalDate ? new Date(Number(emailDetails.internalDate)).toISOString() : undefined,
+        content: emailBody,
+        attachments: listAttachments(root),
+        // Gmail picks the signed-in account by email, so the link opens the right mailbox.
+        link: `https://mail.google.com/mail/u/${this.email ? encodeURIComponent(this.email) : "0"}/#all/${emailDetails.threadId || id}`,
+      };
+    } catch (error) {
+      log.error("fetch", "Failed to fetch email details", { messageId: id, data: error });
+      return null;
+    }
+  }
+
+  async fetchAttachment(messageId: string, attachment: MailAttachment): Promise<Uint8Array | null> {
+    try {
+      if (!this.token || !attachment.attachmentId) return null;
+      const response = await fetch(`${GMAIL_API}/messages/${messageId}/attachments/${attachment.attachmentId}`, {
+        headers: { Authorization: `Bearer ${this.token}` },
+      });
+      if (!response.ok) throw new Error(response.statusText);
+      const { data } = await response.json();
+      return data ? decodeBase64ToBytes(data) : null;
+    } catch (error) {
+      log.error("fetch", `Failed to fetch attachment ${attachment.filename}`, { messageId, data: error });
+      return null;
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import { log } from "../diagnostics/log";
+import { SyncBatch } from "./types";
+
+const GMAIL_API = "https://www.googleapis.com/gmail/v1/users/me";
+const BACKFILL_PAGE_SIZE = 25;
+
+// Persisted per sync stream in chrome.storage.local, so a service worker restart
+// resumes the backfill or the history cursor instead of starting over.
+interface GmailSyncState {
+  historyId?: string;
+  backfillPageToken?: string;
+  backfillComplete: boolean;
+}
+
+// Raised when Gmail no longer has history for the stored historyId (HTTP 404).
+class HistoryExpiredError extends Error {}
+
+// ----------------------
+// Gmail Sync Engine
+// ----------------------
+// The first syncs page through the backfill window with nextPageToken, one page per call.
+// Once the backfill is done, only messages added since the stored historyId are returned,
+// via the history.list API.
+export class GmailSync {
+  constructor(
+    private stream: string,
+    private token: string,
+    private backfillDays: number,
+    private account?: string, // Unset for the Chrome profile's account, which predates multiple accounts
+  ) {}
+
+  private get storageKey(): string {
+    return this.account ? `gmailSync:${this.account}:${this.stream}` : `gmailSync:${this.stream}`;
+  }
+
+  private async loadState(): Promise<GmailSyncState> {
+    const stored = await chrome.storage.local.get(this.storageKey);
+    return stored[this.storageKey] || { backfillComplete: false };
+  }
+
+  private async saveState(state: GmailSyncState): Promise<void> {
+    await chrome.storage.local.set({ [this.storageKey]: state });
+  }
+
+  private async get(path: string): Promise<any> {
+    const response = await fetch(`${GMAIL_API}/${path}`, {
+      headers: { Authorization: `Bearer ${this.token}` },
+    });
+    if (response.status === 404) throw new HistoryExpiredError(response.statusText);
+    if (!response.ok) throw new Error(response.statusText);
+    return response.json();
+  }
+
+  async next(keywords: string[]): Promise<SyncBatch> {
+    const state = await this.loadState();
+    if (!state.backfillComplete) {
+      return this.backfillPage(state, keywords);
+    }
+    try {
+      return await this.historySince(state);
+    } catch (error) {
+      if (!(error instanceof HistoryExpiredError)) throw error;
+      log.warn("search", `Gmail history for ${this.stream} expired; restarting backfill.`);
+      await this.saveState({ backfillComplete: false });
+      return this.backfillPage({ backfillComplete: false }, keywords);
+    }
+  }
+
+  private async backfillPage(state: GmailSyncState, keywords: string[]): Promise<SyncBatch> {
+    // Record where history starts before listing, so mail that arrives during
+    // the backfill is picked up by the first incremental sync.
+    const historyId = state.historyId || (await this.get("profile")).historyId;
+    const query = `(${keywords.map(kw => `"${kw}"`).join(" OR ")}) newer_than:${this.backfillDays}d`;
+    const params = new URLSearchParams({ q: query, maxResults: String(BACKFILL_PAGE_SIZE) });
+    if (state.backfillPageToken) params.set("pageToken", state.backfillPageToken);
+    log.info("search", `Backfilling Gmail (${this.stream}) with query: ${query}`);
+    const data = await this.get(`messages?${params}`);
+    const messageIds: string[] = (data.messages || []).map((message: { id: string }) => message.id);
+    const nextState: GmailSyncState = data.nextPageToken
+      ? { historyId, backfillPageToken: data.nextPageToken, backfillComplete: false }
+      : { historyId, backfillComplete: true };
+    return { messageIds, commit: () => this.saveState(nextState) };
+  }
+
+  private async historySince(state: GmailSyncState): Promise<SyncBatch> {
+    const messageIds = new Set<string>();
+    let historyId = state.historyId!;
+    let pageToken: string | undefined;
+    do {
+      const params = new URLSearchParams({ startHistoryId: state.historyId!, historyTypes: "messageAdded" });
+      if (pageToken) params.set("pageToken", pageToken);
+      const data = await this.get(`history?${params}`);
+      for (const record of data.history || []) {
+        for (const added of record.messagesAdded || []) {
+          messageIds.add(added.message.id);
+        }
+      }
+      historyId = data.historyId || historyId;
+      pageToken = data.nextPageToken;
+    } while (pageToken);
+    log.info("search", `Gmail (${this.stream}) history since ${state.historyId}: ${messageIds.size} new message(s)`);
+    // Newest first, to match search results.
+    return {
+      messageIds: Array.from(messageIds).reverse(),
+      commit: () => this.saveState({ historyId, backfillComplete: true }),
+    };
+  }
+}
@@ -0,0 +1,93 @@
+import { log } from "../diagnostics/log";
+import { bytesToBinaryString, decodeHeaderValue, extractTextBody, findPartById, listAttachments, MailAttachment, MimePart, parseRawMessage } from "./mime";
+import { MailMessage, MailSource } from "./types";
+
+// Splits an mbox file on its "From " separator lines; a single .eml is returned as-is.
+function splitMailbox(text: string): string[] {
+  const normalized = text.replace(/\r\n/g, "\n");
+  if (!normalized.startsWith("From ")) return [normalized];
+  return normalized
+    .split(/^From .*$/m)
+    .map(message => message.replace(/^\n/, "").replace(/^>(>*From )/gm, "$1"))
+    .filter(message => message.trim().length > 0);
+}
+
+// 53-bit hash of a raw message (cyrb53), for messages without a Message-ID. Keying
+// them by content instead of position means a later export under the same file name
+// is not mistaken for one already processed.
+function contentHash(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+// ----------------------
+// Local Import Source
+// ----------------------
+// Holds messages imported from .eml or mbox files so the pipeline can run
+// without any live account. Unlike remote sources, search returns every match:
+// an import is always processed in full.
+export class LocalMailSource implements MailSource {
+  readonly kind = "local";
+  readonly fetchDelayMs = 0;
+  private messages = new Map<string, MailMessage>();
+  private roots = new Map<string, MimePart>(); // Parsed messages, holding the attachment bodies
+
+  get size(): number {
+    return this.messages.size;
+  }
+
+  // Takes the file's raw bytes; each part is decoded with its own declared charset.
+  addFile(fileName: string, bytes: Uint8Array): number {
+    const rawMessages = splitMailbox(bytesToBinaryString(bytes));
+    rawMessages.forEach((raw) => {
+      const root = parseRawMessage(raw);
+      const id = root.headers["message-id"] || `${fileName}#${contentHash(raw)}`;
+      const date = root.headers["date"] ? new Date(root.headers["date"]) : null;
+      this.roots.set(id, root);
+      this.messages.set(id, {
+        id,
+        source: this.kind,
+        subject: decodeHeaderValue(root.headers["subject"] || "Unknown"),
+        sender: decodeHeaderValue(root.headers["from"] || "Unknown"),
+        receivedAt: date && !isNaN(date.getTime()) ? date.toISOString() : undefined,
+        content: extractTextBody(root) || "No readable content",
+        attachments: listAttachments(root),
+      });
+    });
+    log.info("fetch", `Imported ${rawMessages.length} message(s) from ${fileName}`);
+    return rawMessages.length;
+  }
+
+  async connect(): Promise<string | null> {
+    return this.messages.size > 0 ? "Local import" : null;
+  }
+
+  async search(keywords: string[], _maxResults: number): Promise<string[]> {
+    const lowered = keywords.map(kw => kw.toLowerCase());
+    return Array.from(this.messages.values())
+      .filter(message => {
+        const text = `${message.subject} ${message.content}`.toLowerCase();
+        return lowered.some(kw => text.includes(kw));
+      })
+      .sort((a, b) => (b.receivedAt || "").localeCompare(a.receivedAt || ""))
+      .map(message => message.id);
+  }
+
+  async fetchMessage(id: string): Promise<MailMessage | null> {
+    return this.messages.get(id) || null;
+  }
+
+  async fetchAttachment(messageId: string, attachment: MailAttachment): Promise<Uint8Array | null> {
+    const root = this.roots.get(messageId);
+    const part = root && attachment.partId !== undefined ? findPartById(root, attachment.partId) : null;
+    return part?.body || null;
+  }
+}
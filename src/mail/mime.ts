@@ -0,0 +1,299 @@
+// ----------------------
+// MIME Decoding
+// ----------------------
+// Both Gmail API payloads and raw RFC 822 messages are turned into the same MimePart
+// tree, holding each body as raw bytes. Text is only produced at the end, decoded with
+// the charset each part declares, so non-ASCII content such as "₹" survives intact.
+
+export interface MimePart {
+  mimeType: string;
+  headers: Record<string, string>; // Lower-cased header names
+  charset?: string;
+  filename?: string;
+  body: Uint8Array | null;
+  size: number;
+  partId?: string;
+  attachmentId?: string; // Gmail only: the body must be fetched separately
+  parts: MimePart[];
+}
+
+export interface MailAttachment {
+  filename: string;
+  mimeType: string;
+  size: number;
+  partId?: string;
+  attachmentId?: string;
+}
+
+// ----------------------
+// Byte and Charset Helpers
+// ----------------------
+export function binaryStringToBytes(binary: string): Uint8Array {
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+}
+
+export function bytesToBinaryString(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return binary;
+}
+
+export function decodeBase64ToBytes(encoded: string): Uint8Array {
+  try {
+    const normalized = encoded.replace(/\s+/g, "").replace(/-/g, "+").replace(/_/g, "/");
+    return binaryStringToBytes(atob(normalized));
+  } catch (error) {
+    console.warn(" Error decoding Base64:", error);
+    return new Uint8Array(0);
+  }
+}
+
+export function decodeQuotedPrintableToBytes(encoded: string): Uint8Array {
+  const binary = encoded
+    .replace(/\r\n/g, "\n")
+    .replace(/=\n/g, "")
+    .replace(/=([0-9A-F]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+  return binaryStringToBytes(binary);
+}
+
+export function decodeCharset(bytes: Uint8Array, charset = "utf-8"): string {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    // Unknown charset label; UTF-8 is the most likely real encoding.
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+}
+
+function getParam(headerValue: string | undefined, name: string): string | undefined {
+  if (!headerValue) return undefined;
+  const match = headerValue.match(new RegExp(`(?:^|;)\\s*${name}\\*?=\\s*(?:"([^"]*)"|([^;\\s]*))`, "i"));
+  const value = match ? (match[1] ?? match[2]) : undefined;
+  if (value === undefined) return undefined;
+  // RFC 2231 extended values look like utf-8''name%20with%20spaces.
+  const extended = value.match(/^([^']*)'[^']*'(.*)$/);
+  if (extended) {
+    try {
+      return decodeURIComponent(extended[2]);
+    } catch {
+      return extended[2];
+    }
+  }
+  return decodeHeaderValue(value);
+}
+
+// Decodes RFC 2047 encoded-words such as =?UTF-8?B?4oK5?= in header values.
+export function decodeHeaderValue(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[bq]\?[^?]*\?=)\s+(?==\?)/gi, "$1")
+    .replace(/=\?([^?]+)\?([bq])\?([^?]*)\?=/gi, (_, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toLowerCase() === "b"
+        ? decodeBase64ToBytes(text)
+        : decodeQuotedPrintableToBytes(text.replace(/_/g, " "));
+      return decodeCharset(bytes, charset);
+    });
+}
+
+// ----------------------
+// Gmail Payloads
+// ----------------------
+export function fromGmailPayload(payload: any): MimePart {
+  const headers: Record<string, string> = {};
+  for (const header of payload?.headers || []) {
+    headers[header.name.toLowerCase()] = header.value;
+  }
+  const contentType = headers["content-type"];
+  const body = payload?.body?.data ? decodeBase64ToBytes(payload.body.data) : null;
+  return {
+    mimeType: (payload?.mimeType || "text/plain").toLowerCase(),
+    headers,
+    charset: getParam(contentType, "charset"),
+    filename: payload?.filename || getParam(headers["content-disposition"], "filename") || undefined,
+    body,
+    size: payload?.body?.size ?? body?.length ?? 0,
+    partId: payload?.partId,
+    attachmentId: payload?.body?.attachmentId,
+    parts: (payload?.parts || []).map(fromGmailPayload),
+  };
+}
+
+// ----------------------
+// Raw RFC 822 Messages
+// ----------------------
+// Parses a message given as a binary string (one char per byte), decoding
+// base64 and quoted-printable transfer encodings.
+export function parseRawMessage(raw: string, partId = ""): MimePart {
+  const normalized = raw.replace(/\r\n/g, "\n");
+  const separator = normalized.indexOf("\n\n");
+  const headerBlock = separator === -1 ? normalized : normalized.substring(0, separator);
+  const rawBody = separator === -1 ? "" : normalized.substring(separator + 2);
+  const headers: Record<string, string> = {};
+  // Unfold continuation lines before splitting into name/value pairs.
+  for (const line of headerBlock.replace(/\n[ \t]+/g, " ").split("\n")) {
+    const colon = line.indexOf(":");
+    if (colon > 0) {
+      headers[line.substring(0, colon).trim().toLowerCase()] = line.substring(colon + 1).trim();
+    }
+  }
+  const contentType = headers["content-type"] || "text/plain";
+  const mimeType = contentType.split(";")[0].trim().toLowerCase();
+  const part: MimePart = {
+    mimeType,
+    headers,
+    charset: getParam(contentType, "charset"),
+    filename: getParam(headers["content-disposition"], "filename") || getParam(contentType, "name"),
+    body: null,
+    size: 0,
+    partId,
+    parts: [],
+  };
+  if (mimeType.startsWith("multipart/")) {
+    const boundary = getParam(contentType, "boundary");
+    if (boundary) {
+      const sections = rawBody.split(`--${boundary}`).slice(1);
+      for (const section of sections) {
+        if (section.startsWith("--")) break;
+        const childId = partId ? `${partId}.${part.parts.length}` : String(part.parts.length);
+        part.parts.push(parseRawMessage(section.replace(/^\n/, ""), childId));
+      }
+    }
+    return part;
+  }
+  const encoding = (headers["content-transfer-encoding"] || "").toLowerCase();
+  if (encoding === "base64") {
+    part.body = decodeBase64ToBytes(rawBody);
+  } else if (encoding === "quoted-printable") {
+    part.body = decodeQuotedPrintableToBytes(rawBody);
+  } else {
+    part.body = binaryStringToBytes(rawBody);
+  }
+  part.size = part.body.length;
+  return part;
+}
+
+// ----------------------
+// HTML to Text
+// ----------------------
+const NAMED_ENTITIES: Record<string, string> = {
+  nbsp: " ",
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  rupee: "₹",
+  euro: "€",
+  pound: "£",
+  yen: "¥",
+  cent: "¢",
+  copy: "©",
+  reg: "®",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  rsquo: "’",
+  lsquo: "‘",
+  rdquo: "”",
+  ldquo: "“",
+  bull: "•",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const codePoint = code[1].toLowerCase() === "x" ? parseInt(code.substring(2), 16) : parseInt(code.substring(1), 10);
+      return Number.isFinite(codePoint) ? String.fromCodePoint(codePoint) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+// Regex-based, since DOMParser is not available in the service worker. Table rows
+// become single lines with their cells separated by " | ", so a label and its value
+// stay together.
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(head|script|style|title)\b[\s\S]*?<\/\1\s*>/gi, "")
+    .replace(/\s+/g, " ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/t[dh]\s*>/gi, " | ")
+    .replace(/<\/(tr|p|div|h[1-6]|li|table|thead|tbody|blockquote|pre|section|article|header|footer)\s*>/gi, "\n")
+    .replace(/<(p|div|h[1-6]|table|ul|ol|blockquote|pre|section|article|header|footer)\b[^>]*>/gi, "\n")
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<[^>]+>/g, "");
+  return decodeEntities(text)
+    .split("\n")
+    .map(line => line
+      .replace(/[ \t\u00a0]+/g, " ")
+      .replace(/(\s*\|\s*)+/g, " | ")
+      .replace(/^\s*\|\s*|\s*\|\s*$/g, "")
+      .trim())
+    .filter((line, index, lines) => line.length > 0 || (index > 0 && lines[index - 1].length > 0))
+    .join("\n")
+    .trim();
+}
+
+// ----------------------
+// Body and Attachment Extraction
+// ----------------------
+function isAttachment(part: MimePart): boolean {
+  const disposition = (part.headers["content-disposition"] || "").toLowerCase();
+  return disposition.startsWith("attachment") || (!!part.filename && !part.mimeType.startsWith("text/"));
+}
+
+function findPart(part: MimePart, mimeType: string): MimePart | null {
+  if (part.mimeType === mimeType && !isAttachment(part) && (part.body?.length || 0) > 0) {
+    return part;
+  }
+  for (const child of part.parts) {
+    const found = findPart(child, mimeType);
+    if (found) return found;
+  }
+  return null;
+}
+
+export function decodePartText(part: MimePart): string {
+  return part.body ? decodeCharset(part.body, part.charset) : "";
+}
+
+// Prefers text/plain anywhere in the tree, falling back to text/html converted to text.
+export function extractTextBody(root: MimePart): string | null {
+  const plain = findPart(root, "text/plain");
+  if (plain) return decodePartText(plain);
+  const html = findPart(root, "text/html");
+  if (html) return htmlToText(decodePartText(html));
+  return null;
+}
+
+export function findPartById(part: MimePart, partId: string): MimePart | null {
+  if (part.partId === partId) return part;
+  for (const child of part.parts) {
+    const found = findPartById(child, partId);
+    if (found) return found;
+  }
+  return null;
+}
+
+export function listAttachments(part: MimePart): MailAttachment[] {
+  const attachments: MailAttachment[] = [];
+  if (isAttachment(part)) {
+    attachments.push({
+      filename: part.filename || "attachment",
+      mimeType: part.mimeType,
+      size: part.size,
+      partId: part.partId,
+      attachmentId: part.attachmentId,
+    });
+  }
+  for (const child of part.parts) {
+    attachments.push(...listAttachments(child));
+  }
+  return attachments;
+}
@@ -0,0 +1,134 @@
+import { log } from "../diagnostics/log";
+import { MailMessage, MailSource } from "./types";
+
+const GRAPH_API = "https://graph.microsoft.com/v1.0/me";
+const MICROSOFT_AUTHORIZE_URL = "https://login.microsoftonline.com/common/oauth2/v2.0/authorize";
+const GRAPH_SCOPES = ["User.Read", "Mail.Read"];
+
+// ----------------------
+// Auth Functions
+// ----------------------
+// Microsoft accounts cannot use chrome.identity.getAuthToken, so the implicit grant
+// is run through launchWebAuthFlow against the extension's redirect URL. Tokens are
+// kept in chrome.storage.session until shortly before they expire, and renewed
+// silently (prompt=none) first; only interactive checks may then ask the user to sign in.
+
+interface MicrosoftToken {
+  accessToken: string;
+  expiresAt: number; // Epoch milliseconds
+}
+
+// Refresh a little before Microsoft's expiry, so a sync never starts with a dying token.
+const TOKEN_EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+
+function tokenKey(clientId: string): string {
+  return `outlookToken:${clientId}`;
+}
+
+function launchMicrosoftAuthFlow(clientId: string, interactive: boolean): Promise<MicrosoftToken | null> {
+  const authUrl = new URL(MICROSOFT_AUTHORIZE_URL);
+  authUrl.searchParams.set("client_id", clientId);
+  authUrl.searchParams.set("response_type", "token");
+  authUrl.searchParams.set("redirect_uri", chrome.identity.getRedirectURL());
+  authUrl.searchParams.set("scope", GRAPH_SCOPES.join(" "));
+  if (!interactive) authUrl.searchParams.set("prompt", "none");
+  return new Promise((resolve) => {
+    chrome.identity.launchWebAuthFlow({ url: authUrl.toString(), interactive }, (redirectUrl) => {
+      if (chrome.runtime.lastError || !redirectUrl) {
+        log.error("auth", "Microsoft authentication failed", { data: chrome.runtime.lastError?.message });
+        resolve(null);
+        return;
+      }
+      const params = new URLSearchParams(new URL(redirectUrl).hash.substring(1));
+      const accessToken = params.get("access_token");
+      const expiresIn = Number(params.get("expires_in") || 3600);
+      resolve(accessToken ? { accessToken, expiresAt: Date.now() + expiresIn * 1000 } : null);
+    });
+  });
+}
+
+export async function getMicrosoftToken(clientId: string, interactive: boolean): Promise<string | null> {
+  const key = tokenKey(clientId);
+  const stored: MicrosoftToken | undefined = (await chrome.storage.session.get(key))[key];
+  if (stored && stored.expiresAt - TOKEN_EXPIRY_MARGIN_MS > Date.now()) return stored.accessToken;
+  let token = await launchMicrosoftAuthFlow(clientId, false);
+  if (!token && interactive) token = await launchMicrosoftAuthFlow(clientId, true);
+  if (!token) return null;
+  await chrome.storage.session.set({ [key]: token });
+  return token.accessToken;
+}
+
+// ----------------------
+// Outlook Source
+// ----------------------
+export class OutlookSource implements MailSource {
+  readonly kind = "outlook";
+  readonly fetchDelayMs = 1000;
+  private token: string | null = null;
+  private email: string | null = null;
+
+  // Checks started by an alarm are not interactive, so no sign-in window opens unasked.
+  constructor(private clientId: string, private interactive = true) {}
+
+  async connect(): Promise<string | null> {
+    this.token = await getMicrosoftToken(this.clientId, this.interactive);
+    if (!this.token) return null;
+    try {
+      const response = await fetch(GRAPH_API, {
+        headers: { Authorization: `Bearer ${this.token}` },
+      });
+      if (!response.ok) throw new Error(response.statusText);
+      const profile = await response.json();
+      this.email = profile.mail || profile.userPrincipalName;
+      return this.email;
+    } catch (error) {
+      log.error("auth", "Failed to fetch Outlook profile", { data: error });
+      return null;
+    }
+  }
+
+  async search(keywords: string[], maxResults: number): Promise<string[]> {
+    if (!this.token) return [];
+    // Graph $search takes a KQL expression wrapped in double quotes.
+    const query = `"${keywords.map(kw => `\\"${kw}\\"`).join(" OR ")}"`;
+    log.info("search", `Searching Outlook with query: ${query}`);
+    const response = await fetch(`${GRAPH_API}/messages?$search=${encodeURIComponent(query)}&$top=${maxResults}&$select=id`, {
+      headers: { Authorization: `Bearer ${this.token}` },
+    });
+    if (!response.ok) throw new Error(response.statusText);
+    const data = await response.json();
+    return (data.value || []).map((message: { id: string }) => message.id);
+  }
+
+  async fetchMessage(id: string): Promise<MailMessage | null> {
+    try {
+      if (!this.token) return null;
+      const select = "subject,from,body,receivedDateTime,conversationId,webLink";
+      const response = await fetch(`${GRAPH_API}/messages/${encodeURIComponent(id)}?$select=${select}`, {
+        headers: {
+          Authorization: `Bearer ${this.token}`,
+          // Ask Graph to convert HTML bodies to text, matching what the prompt expects.
+          Prefer: 'outlook.body-content-type="text"',
+        },
+      });
+      if (!response.ok) throw new Error(response.statusText);
+      const message = await response.json();
+      const from = message.from?.emailAddress;
+      const sender = from ? `${from.name || ""} <${from.address}>`.trim() : "Unknown";
+      return {
+        id,
+        source: this.kind,
+        account: this.email || undefined,
+        threadId: message.conversationId,
+        subject: message.subject || "Unknown",
+        sender,
+        receivedAt: message.receivedDateTime,
+        content: message.body?.content || "No readable content",
+        link: message.webLink,
+      };
+    } catch (error) {
+      log.error("fetch", "Failed to fetch Outlook message", { messageId: id, data: error });
+      return null;
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import { log } from "../diagnostics/log";
+import { getGmailAccounts, gmailAccountAuth } from "./accounts";
+import { GmailSource } from "./gmail";
+import { OutlookSource } from "./outlook";
+import { MailSource } from "./types";
+
+export interface MailSourceConfig {
+  gmail: boolean;
+  outlook: boolean;
+  outlookClientId: string; // Azure AD application (client) ID used for Microsoft sign-in
+  googleClientId: string; // Web application client ID for added Gmail accounts; empty uses the manifest's
+  gmailBackfillDays: number; // How far back the initial Gmail sync looks
+}
+
+const DEFAULT_MAIL_SOURCE_CONFIG: MailSourceConfig = {
+  gmail: true,
+  outlook: false,
+  outlookClientId: "",
+  googleClientId: "",
+  gmailBackfillDays: 90,
+};
+
+export async function getMailSourceConfig(): Promise<MailSourceConfig> {
+  const stored = await chrome.storage.local.get("mailSources");
+  return { ...DEFAULT_MAIL_SOURCE_CONFIG, ...(stored.mailSources || {}) };
+}
+
+export async function setMailSourceConfig(config: Partial<MailSourceConfig>): Promise<void> {
+  const current = await getMailSourceConfig();
+  await chrome.storage.local.set({ mailSources: { ...current, ...config } });
+}
+
+// Builds the remote mailbox sources the user has enabled. Local imports are not
+// listed here; they are created on demand when a file is imported. Sources that are
+// not interactive only renew their sign-in silently.
+export async function getActiveMailSources(interactive = true): Promise<MailSource[]> {
+  const config = await getMailSourceConfig();
+  const sources: MailSource[] = [];
+  if (config.gmail) sources.push(new GmailSource(config.gmailBackfillDays, undefined, interactive));
+  // Added Gmail accounts are synced on top of the Chrome profile's, each on its own.
+  for (const account of await getGmailAccounts()) {
+    sources.push(new GmailSource(config.gmailBackfillDays, gmailAccountAuth(config.googleClientId, account), interactive));
+  }
+  if (config.outlook) {
+    if (config.outlookClientId) {
+      sources.push(new OutlookSource(config.outlookClientId, interactive));
+    } else {
+      log.warn("auth", "Outlook is enabled but no client ID is configured; skipping.");
+    }
+  }
+  return sources;
+}
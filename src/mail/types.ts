@@ -0,0 +1,47 @@
+// ----------------------
+// Mail Source Types
+// ----------------------
+// Every mailbox provider (Gmail, Outlook, a local .eml/mbox import) is exposed to
+// the extraction pipeline through the same MailSource interface, so the pipeline
+// never has to know about provider URLs or payload shapes.
+
+import { MailAttachment } from "./mime";
+
+export type MailSourceKind = "gmail" | "outlook" | "local";
+
+export interface MailMessage {
+  id: string;
+  source: MailSourceKind;
+  account?: string; // Email of the mailbox the message was read from
+  threadId?: string;
+  subject: string;
+  sender: string;
+  receivedAt?: string; // ISO timestamp, when the provider reports one
+  content: string; // Decoded body text, with HTML converted to plain text
+  attachments?: MailAttachment[];
+  link?: string; // URL that opens the message in the provider's web client
+}
+
+// Message IDs from one incremental sync step. commit() advances the stored cursor and
+// should be called only once the messages have been handled, so a crash mid-batch
+// replays the batch instead of losing it.
+export interface SyncBatch {
+  messageIds: string[];
+  commit(): Promise<void>;
+}
+
+export interface MailSource {
+  readonly kind: MailSourceKind;
+  // Delay between consecutive message fetches, to stay under provider rate limits.
+  readonly fetchDelayMs: number;
+  // Authenticates if needed and returns a label for the mailbox, or null if unavailable.
+  connect(): Promise<string | null>;
+  // Returns the IDs of messages matching any of the keywords, newest first.
+  search(keywords: string[], maxResults: number): Promise<string[]>;
+  fetchMessage(id: string): Promise<MailMessage | null>;
+  // Downloads an attachment's bytes; sources that cannot leave their attachments unread.
+  fetchAttachment?(messageId: string, attachment: MailAttachment): Promise<Uint8Array | null>;
+  // Sources with a change feed return only messages not yet seen by the named stream.
+  // Results may include messages that do not match the keywords; callers still filter.
+  sync?(stream: string, keywords: string[]): Promise<SyncBatch>;
+}
@@ -0,0 +1,60 @@
+import { buildStatementPrompt, ChatEngine, extractWithSchema, PAYMENT_DATA_SCHEMA, validatePaymentData } from "../extract/llm";
+import { parseAmount } from "../extract/normalize";
+import { redact } from "../extract/redact";
+import { labelStatement, parseStatement } from "../extract/statement";
+
+// ----------------------
+// Model Benchmark
+// ----------------------
+// Runs the statement extraction on a fixed email with known answers, so models can be
+// compared on speed and correctness before one is made the extraction model.
+
+const FIXTURE_SENDER = "HDFC Bank InstaAlerts <alerts@hdfcbank.net>";
+const FIXTURE_EMAIL = `Dear Customer,
+
+Your HDFC Bank Credit Card statement for the period 16-Feb-2025 to 15-Mar-2025 is ready.
+
+Card Number: XXXX XXXX XXXX 4821
+Statement Date: 15/03/2025
+Payment Due Date: 04/04/2025
+Total Amount Due: Rs. 23,456.78
+Minimum Amount Due: Rs. 1,180.00
+Credit Limit: Rs. 2,00,000.00
+
+Please pay by the due date to avoid late payment charges.
+
+Regards,
+HDFC Bank Credit Cards`;
+
+const EXPECTED = { dueDate: "04-04-2025", amountMinor: 2345678, bank: "hdfc" };
+
+export interface BenchmarkResult {
+  modelId: string;
+  loadMs?: number; // Time to download (if needed) and load the model
+  extractMs: number;
+  attempts: number;
+  valid: boolean; // The model produced schema-valid JSON
+  correct: boolean; // ...with the expected due date, amount and bank
+  output?: string;
+  error?: string;
+}
+
+export async function runBenchmark(engine: ChatEngine, modelId: string, maxEmailContentLength: number): Promise<BenchmarkResult> {
+  const summaryDict = labelStatement(parseStatement(FIXTURE_EMAIL, FIXTURE_SENDER));
+  const prompt = buildStatementPrompt(redact(FIXTURE_EMAIL).substring(0, maxEmailContentLength).toLowerCase(), summaryDict);
+  const started = performance.now();
+  try {
+    const extraction = await extractWithSchema(engine, prompt, PAYMENT_DATA_SCHEMA, validatePaymentData);
+    const extractMs = Math.round(performance.now() - started);
+    if (!extraction.ok) {
+      return { modelId, extractMs, attempts: extraction.attempts, valid: false, correct: false, output: extraction.rawOutput, error: extraction.error };
+    }
+    const data = extraction.data;
+    const correct = data["Due Date"] === EXPECTED.dueDate &&
+      parseAmount(data["Total Amount Due"])?.amountMinor === EXPECTED.amountMinor &&
+      data["Bank Name"].toLowerCase().includes(EXPECTED.bank);
+    return { modelId, extractMs, attempts: extraction.attempts, valid: true, correct, output: JSON.stringify(data) };
+  } catch (error) {
+    return { modelId, extractMs: Math.round(performance.now() - started), attempts: 0, valid: false, correct: false, error: String(error) };
+  }
+}
@@ -0,0 +1,82 @@
+import { deleteModelAllInfoInCache, ModelRecord, prebuiltAppConfig } from "@mlc-ai/web-llm";
+import { log } from "../diagnostics/log";
+import { DEFAULT_CONTEXT_WINDOW } from "../extract/context";
+
+// ----------------------
+// Model Manager
+// ----------------------
+// Lists web-llm's prebuilt models and what is cached of them. web-llm keeps weights in
+// the Cache API under "webllm/model", keyed by the model's Hugging Face URL; a model
+// counts as cached once its ndarray-cache.json manifest is stored, the same check
+// web-llm's hasModelInCache makes. The manifest also lists every weight shard's size.
+
+const MODEL_CACHE_NAME = "webllm/model";
+const MANIFEST_FILE = "ndarray-cache.json";
+
+export interface ModelInfo {
+  modelId: string;
+  vramRequiredMB?: number;
+  lowResource: boolean; // Suitable for devices with limited GPU memory
+  cached: boolean;
+  cachedSizeMB?: number; // Size of the cached weights
+}
+
+interface NDArrayCacheManifest {
+  metadata?: { ParamBytes?: number };
+  records?: { nbytes: number }[];
+}
+
+// Mirrors web-llm's cleanModelUrl: https://huggingface.co/USER/MODEL -> .../resolve/main/
+function modelBaseUrl(record: ModelRecord): string {
+  let url = record.model.endsWith("/") ? record.model : `${record.model}/`;
+  if (!/.+\/resolve\/.+\//.test(url)) url += "resolve/main/";
+  return new URL(url).href;
+}
+
+function manifestBytes(manifest: NDArrayCacheManifest): number {
+  const fromRecords = (manifest.records || []).reduce((total, record) => total + (record.nbytes || 0), 0);
+  return fromRecords || manifest.metadata?.ParamBytes || 0;
+}
+
+function toMB(bytes: number): number {
+  return Math.round(bytes / (1024 * 1024));
+}
+
+export function findModelRecord(modelId: string): ModelRecord | undefined {
+  return prebuiltAppConfig.model_list.find(record => record.model_id === modelId);
+}
+
+// Tokens the model attends to, from its prebuilt record's overrides.
+export function getContextWindow(modelId: string): number {
+  return findModelRecord(modelId)?.overrides?.context_window_size || DEFAULT_CONTEXT_WINDOW;
+}
+
+export async function listModels(): Promise<ModelInfo[]> {
+  const cache = await caches.open(MODEL_CACHE_NAME);
+  return Promise.all(prebuiltAppConfig.model_list.map(async (record): Promise<ModelInfo> => {
+    const cachedManifest = await cache.match(modelBaseUrl(record) + MANIFEST_FILE);
+    const manifest: NDArrayCacheManifest | null = cachedManifest ? await cachedManifest.json().catch(() => null) : null;
+    return {
+      modelId: record.model_id,
+      vramRequiredMB: record.vram_required_MB,
+      lowResource: !!record.low_resource_required,
+      cached: !!cachedManifest,
+      cachedSizeMB: manifest ? toMB(manifestBytes(manifest)) : undefined,
+    };
+  }));
+}
+
+// Download size of a model's weights, read from its manifest on Hugging Face.
+export async function getModelDownloadSizeMB(modelId: string): Promise<number> {
+  const record = findModelRecord(modelId);
+  if (!record) throw new Error(`Unknown model: ${modelId}`);
+  const response = await fetch(modelBaseUrl(record) + MANIFEST_FILE);
+  if (!response.ok) throw new Error(`Could not read the manifest of ${modelId}: ${response.status}`);
+  return toMB(manifestBytes(await response.json()));
+}
+
+export async function deleteCachedModel(modelId: string): Promise<void> {
+  if (!findModelRecord(modelId)) throw new Error(`Unknown model: ${modelId}`);
+  await deleteModelAllInfoInCache(modelId);
+  log.info("llm", `Deleted cached files of ${modelId}.`);
+}
@@ -0,0 +1,528 @@
+"use strict";
+
+import "./options.css";
+import { BUILT_IN_PASSWORD_RULES, PdfPasswordRule } from "./extract/pdfPasswords";
+import { BUILT_IN_TEMPLATES, StatementTemplate } from "./extract/statement";
+import { getMailSourceConfig, MailSourceConfig, setMailSourceConfig } from "./mail/sources";
+import { VaultStatus } from "./db/vault";
+import { ExportFormat } from "./export/backup";
+import { BenchmarkResult } from "./model/benchmark";
+import { ModelInfo } from "./model/manager";
+import { sendRequest, subscribeToEvents } from "./protocol";
+import { getReminderSettings, ReminderSettings, setReminderSettings } from "./reminders/settings";
+import { DEFAULT_SETTINGS, ExtractionModeSetting, getSettings, setSettings, Settings } from "./settings";
+
+// The options page writes settings straight to chrome.storage; the service worker
+// picks the changes up through its storage listeners. Statement templates and PDF
+// password rules go through the background protocol like every other edit.
+
+const NEW_TEMPLATE: StatementTemplate = {
+  id: "my-bank",
+  bankName: "My Bank",
+  senderDomains: ["mybank.com"],
+  labels: { totalDue: "total amount due", dueDate: "payment due date" },
+};
+
+const NEW_PDF_RULE: PdfPasswordRule = {
+  id: "my-bank",
+  bankName: "My Bank",
+  senderDomains: ["mybank.com"],
+  pattern: "{NAME4}{DD}{MM}",
+};
+
+function showNotification(message: string, type: "success" | "error" = "success") {
+  const notificationBar = document.getElementById("notificationBar");
+  if (!notificationBar) return;
+  notificationBar.textContent = message;
+  notificationBar.className = type;
+  notificationBar.style.display = "block";
+  setTimeout(() => {
+    notificationBar.style.display = "none";
+  }, 4000);
+}
+
+function input(id: string): HTMLInputElement {
+  return document.getElementById(id) as HTMLInputElement;
+}
+
+function splitList(value: string): string[] {
+  return value.split(",").map(item => item.trim()).filter(item => item.length > 0);
+}
+
+// ----------------------
+// Settings Form
+// ----------------------
+function fillForm(settings: Settings, sources: MailSourceConfig, reminders: ReminderSettings) {
+  input("statementKeywords").value = settings.statementKeywords.join(", ");
+  input("paymentKeywords").value = settings.paymentKeywords.join(", ");
+  for (const key of ["maxSearchResults", "checkEmailsMinutes", "checkPaymentsMinutes", "keepAliveMinutes", "maxEmailContentLength"] as const) {
+    input(key).value = String(settings[key]);
+  }
+  (document.getElementById("extractionMode") as HTMLSelectElement).value = settings.extractionMode;
+  input("locale").value = settings.locale;
+  input("gmail").checked = sources.gmail;
+  input("outlook").checked = sources.outlook;
+  input("outlookClientId").value = sources.outlookClientId;
+  input("googleClientId").value = sources.googleClientId;
+  input("gmailBackfillDays").value = String(sources.gmailBackfillDays);
+  input("offsetsDays").value = reminders.offsetsDays.join(", ");
+  for (const key of ["reminderHour", "quietHoursStart", "quietHoursEnd", "overdueRepeatHours", "snoozeMinutes"] as const) {
+    input(key).value = String(reminders[key]);
+  }
+}
+
+// The model is changed through the model manager below, not the form.
+function readSettings(): Omit<Settings, "modelId"> {
+  return {
+    statementKeywords: splitList(input("statementKeywords").value),
+    paymentKeywords: splitList(input("paymentKeywords").value),
+    checkEmailsMinutes: input("checkEmailsMinutes").valueAsNumber,
+    checkPaymentsMinutes: input("checkPaymentsMinutes").valueAsNumber,
+    keepAliveMinutes: input("keepAliveMinutes").valueAsNumber,
+    maxEmailContentLength: input("maxEmailContentLength").valueAsNumber,
+    maxSearchResults: input("maxSearchResults").valueAsNumber,
+    extractionMode: (document.getElementById("extractionMode") as HTMLSelectElement).value as ExtractionModeSetting,
+    locale: input("locale").value.trim(),
+  };
+}
+
+function readMailSources(): MailSourceConfig {
+  return {
+    gmail: input("gmail").checked,
+    outlook: input("outlook").checked,
+    outlookClientId: input("outlookClientId").value.trim(),
+    googleClientId: input("googleClientId").value.trim(),
+    gmailBackfillDays: input("gmailBackfillDays").valueAsNumber,
+  };
+}
+
+function readReminderSettings(): ReminderSettings {
+  const offsetsDays = splitList(input("offsetsDays").value).map(Number);
+  if (offsetsDays.length === 0 || offsetsDays.some(offset => !Number.isInteger(offset) || offset < 0)) {
+    throw new Error("Reminder days must be a list of whole numbers of 0 or more");
+  }
+  return {
+    offsetsDays: [...new Set(offsetsDays)].sort((a, b) => b - a),
+    reminderHour: input("reminderHour").valueAsNumber,
+    quietHoursStart: input("quietHoursStart").valueAsNumber,
+    quietHoursEnd: input("quietHoursEnd").valueAsNumber,
+    overdueRepeatHours: input("overdueRepeatHours").valueAsNumber,
+    snoozeMinutes: input("snoozeMinutes").valueAsNumber,
+  };
+}
+
+async function loadForm() {
+  const [settings, sources, reminders] = await Promise.all([getSettings(), getMailSourceConfig(), getReminderSettings()]);
+  fillForm(settings, sources, reminders);
+}
+
+document.getElementById("settingsForm")?.addEventListener("submit", async (event) => {
+  event.preventDefault();
+  try {
+    const reminders = readReminderSettings();
+    const sources = readMailSources();
+    if (sources.outlook && !sources.outlookClientId) throw new Error("Outlook needs an application (client) ID");
+    await setSettings(readSettings());
+    await setMailSourceConfig(sources);
+    await setReminderSettings(reminders);
+    showNotification("Settings saved");
+  } catch (error) {
+    console.error(" Failed to save settings:", error);
+    showNotification(error instanceof Error ? error.message : String(error), "error");
+  }
+});
+
+document.getElementById("resetSettings")?.addEventListener("click", async () => {
+  await setSettings(DEFAULT_SETTINGS);
+  await loadForm();
+  showNotification("Defaults restored");
+});
+
+// ----------------------
+// Gmail Accounts
+// ----------------------
+async function loadGmailAccounts() {
+  const list = document.getElementById("gmailAccountList");
+  const profile = document.getElementById("profileEmail");
+  const redirectUrl = document.getElementById("redirectUrl");
+  if (!list || !profile || !redirectUrl) return;
+  redirectUrl.textContent = chrome.identity.getRedirectURL();
+  const { profileEmail, accounts } = await sendRequest({ type: "listGmailAccounts" });
+  if (profileEmail) profile.textContent = profileEmail;
+  list.replaceChildren(...accounts.map((account) => {
+    const item = document.createElement("li");
+    const name = document.createElement("span");
+    name.textContent = account.email;
+    const remove = document.createElement("button");
+    remove.type = "button";
+    remove.className = "btn secondary";
+    remove.textContent = "Remove";
+    remove.addEventListener("click", async () => {
+      if (!confirm(`Remove ${account.email}? The bills and payments read from it are deleted.`)) return;
+      try {
+        const { removedBills } = await sendRequest({ type: "removeGmailAccount", email: account.email });
+        showNotification(`${account.email} removed with ${removedBills} bill(s)`);
+        await loadGmailAccounts();
+      } catch (error) {
+        console.error(" Failed to remove the account:", error);
+        showNotification(error instanceof Error ? error.message : String(error), "error");
+      }
+    });
+    item.append(name, remove);
+    return item;
+  }));
+}
+
+document.getElementById("addGmailAccount")?.addEventListener("click", async () => {
+  try {
+    // Sign-in uses the saved client ID, so save a changed one first.
+    await setMailSourceConfig({ googleClientId: input("googleClientId").value.trim() });
+    const { account } = await sendRequest({ type: "addGmailAccount" });
+    showNotification(`${account.email} added; syncing its mail`);
+    await loadGmailAccounts();
+  } catch (error) {
+    console.error(" Failed to add the account:", error);
+    showNotification(error instanceof Error ? error.message : String(error), "error");
+  }
+});
+
+// ----------------------
+// Model Manager
+// ----------------------
+function showBenchmark(result: BenchmarkResult) {
+  const output = document.getElementById("benchmarkResult");
+  if (!output) return;
+  const lines = [
+    `${result.modelId}: ${result.correct ? "correct" : result.valid ? "valid JSON, wrong values" : "failed"}`,
+    result.loadMs !== undefined ? `Load time: ${(result.loadMs / 1000).toFixed(1)} s` : "",
+    `Extraction time: ${(result.extractMs / 1000).toFixed(1)} s over ${result.attempts} attempt(s)`,
+    result.output ? `Output: ${result.output}` : "",
+    result.error ? `Error: ${result.error}` : "",
+  ];
+  output.textContent = lines.filter(line => line).join("\n");
+}
+
+function modelButton(label: string, onClick: (button: HTMLButtonElement) => Promise<void>): HTMLButtonElement {
+  const button = document.createElement("button");
+  button.type = "button";
+  button.className = "btn secondary";
+  button.textContent = label;
+  button.addEventListener("click", async () => {
+    button.disabled = true;
+    try {
+      await onClick(button);
+    } catch (error) {
+      console.error(` Model action "${label}" failed:`, error);
+      showNotification(error instanceof Error ? error.message : String(error), "error");
+    } finally {
+      button.disabled = false;
+    }
+  });
+  return button;
+}
+
+function createModelRow(model: ModelInfo, activeModelId: string): HTMLTableRowElement {
+  const row = document.createElement("tr");
+  if (model.modelId === activeModelId) row.className = "active";
+  const cells = [
+    model.modelId,
+    model.vramRequiredMB ? `${Math.round(model.vramRequiredMB)} MB` : "unknown",
+    model.cached ? (model.cachedSizeMB ? `${model.cachedSizeMB} MB` : "yes") : "no",
+  ].map((text) => {
+    const cell = document.createElement("td");
+    cell.textContent = text;
+    return cell;
+  });
+  const actions = document.createElement("td");
+  if (model.modelId !== activeModelId) {
+    actions.appendChild(modelButton("Use", async () => {
+      showNotification(`Loading ${model.modelId}; this can take a while on first download`);
+      const { benchmark } = await sendRequest({ type: "switchModel", modelId: model.modelId });
+      showBenchmark(benchmark);
+      await loadModels();
+    }));
+  }
+  if (model.cached) {
+    actions.appendChild(modelButton("Delete", async () => {
+      if (!confirm(`Delete the cached files of ${model.modelId}?`)) return;
+      await sendRequest({ type: "deleteModel", modelId: model.modelId });
+      await loadModels();
+    }));
+  } else {
+    actions.appendChild(modelButton("Size", async (button) => {
+      const { sizeMB } = await sendRequest({ type: "getModelDownloadSize", modelId: model.modelId });
+      button.replaceWith(`${sizeMB} MB download`);
+    }));
+  }
+  row.append(...cells, actions);
+  return row;
+}
+
+async function loadModels() {
+  const body = document.querySelector("#modelTable tbody");
+  const active = document.getElementById("activeModel");
+  if (!body || !active) return;
+  const { models, activeModelId, loadedModelId } = await sendRequest({ type: "listModels" });
+  active.textContent = loadedModelId && loadedModelId !== activeModelId ? `${activeModelId} (loaded: ${loadedModelId})` : activeModelId;
+  const showAll = input("showAllModels").checked;
+  const shown = models
+    .filter(model => showAll || model.lowResource || model.cached || model.modelId === activeModelId)
+    .sort((a, b) => (a.vramRequiredMB || Infinity) - (b.vramRequiredMB || Infinity));
+  body.replaceChildren(...shown.map(model => createModelRow(model, activeModelId)));
+}
+
+input("showAllModels").addEventListener("change", () => {
+  loadModels().catch(error => console.error(" Failed to load models:", error));
+});
+
+document.getElementById("benchmarkModel")?.addEventListener("click", async () => {
+  try {
+    showNotification("Running the benchmark...");
+    const { benchmark } = await sendRequest({ type: "benchmarkModel" });
+    showBenchmark(benchmark);
+  } catch (error) {
+    console.error(" Benchmark failed:", error);
+    showNotification(error instanceof Error ? error.message : String(error), "error");
+  }
+});
+
+// Download and compile progress streamed from the service worker.
+subscribeToEvents((event) => {
+  if (event.type !== "engineProgress") return;
+  const progress = document.getElementById("modelProgress");
+  if (progress) progress.textContent = event.state === "loading" ? event.text : "";
+});
+
+// ----------------------
+// Statement Templates
+// ----------------------
+function editTemplate(template: StatementTemplate) {
+  (document.getElementById("templateEditor") as HTMLTextAreaElement).value = JSON.stringify(template, null, 2);
+}
+
+async function loadTemplates() {
+  const list = document.getElementById("templateList");
+  if (!list) return;
+  const { templates } = await sendRequest({ type: "getStatementTemplates" });
+  list.replaceChildren(...templates.map((template) => {
+    const item = document.createElement("li");
+    const name = document.createElement("span");
+    name.textContent = `${template.bankName} (${template.id})`;
+    const edit = document.createElement("button");
+    edit.className = "btn secondary";
+    edit.textContent = "Edit";
+    edit.addEventListener("click", () => editTemplate(template));
+    const remove = document.createElement("button");
+    remove.className = "btn secondary";
+    remove.textContent = "Delete";
+    remove.addEventListener("click", async () => {
+      if (!confirm(`Delete the ${template.bankName} template?`)) return;
+      await sendRequest({ type: "deleteStatementTemplate", id: template.id });
+      await loadTemplates();
+    });
+    item.append(name, edit, remove);
+    return item;
+  }));
+  if (templates.length === 0) {
+    const item = document.createElement("li");
+    item.textContent = `No custom templates. Built-in templates cover ${BUILT_IN_TEMPLATES.map(template => template.bankName).join(", ")}.`;
+    list.appendChild(item);
+  }
+}
+
+document.getElementById("saveTemplate")?.addEventListener("click", async () => {
+  const source = (document.getElementById("templateEditor") as HTMLTextAreaElement).value;
+  try {
+    const template = JSON.parse(source) as StatementTemplate;
+    await sendRequest({ type: "saveStatementTemplate", template });
+    await loadTemplates();
+    showNotification(`Template ${template.id} saved`);
+  } catch (error) {
+    console.error(" Failed to save template:", error);
+    showNotification(error instanceof Error ? error.message : String(error), "error");
+  }
+});
+
+document.getElementById("newTemplate")?.addEventListener("click", () => editTemplate(NEW_TEMPLATE));
+
+// ----------------------
+// Statement PDF Passwords
+// ----------------------
+async function loadPdfPasswords() {
+  const { profile } = await sendRequest({ type: "getPdfPasswordProfile" });
+  input("pdfName").value = profile.name;
+  input("pdfDateOfBirth").value = profile.dateOfBirth;
+  input("pdfPan").value = profile.pan;
+  input("pdfMobile").value = profile.mobile;
+  input("pdfCards").value = profile.cardLast4.join(", ");
+  await loadPdfRules();
+}
+
+function editPdfRule(rule: PdfPasswordRule) {
+  (document.getElementById("pdfRuleEditor") as HTMLTextAreaElement).value = JSON.stringify(rule, null, 2);
+}
+
+async function loadPdfRules() {
+  const list = document.getElementById("pdfRuleList");
+  if (!list) return;
+  const { rules } = await sendRequest({ type: "getPdfPasswordRules" });
+  list.replaceChildren(...rules.map((rule) => {
+    const item = document.createElement("li");
+    const name = document.createElement("span");
+    name.textContent = `${rule.bankName}: ${rule.pattern}`;
+    const edit = document.createElement("button");
+    edit.className = "btn secondary";
+    edit.textContent = "Edit";
+    edit.addEventListener("click", () => editPdfRule(rule));
+    const remove = document.createElement("button");
+    remove.className = "btn secondary";
+    remove.textContent = "Delete";
+    remove.addEventListener("click", async () => {
+      if (!confirm(`Delete the ${rule.bankName} password rule?`)) return;
+      await sendRequest({ type: "deletePdfPasswordRule", id: rule.id });
+      await loadPdfRules();
+    });
+    item.append(name, edit, remove);
+    return item;
+  }));
+  if (rules.length === 0) {
+    const item = document.createElement("li");
+    item.textContent = `No custom rules. Built-in rules cover ${BUILT_IN_PASSWORD_RULES.map(rule => rule.bankName).join(", ")}.`;
+    list.appendChild(item);
+  }
+}
+
+document.getElementById("savePdfProfile")?.addEventListener("click", async () => {
+  try {
+    await sendRequest({
+      type: "savePdfPasswordProfile",
+      profile: {
+        name: input("pdfName").value.trim(),
+        dateOfBirth: input("pdfDateOfBirth").value,
+        pan: input("pdfPan").value.trim(),
+        mobile: input("pdfMobile").value.replace(/\D/g, ""),
+        cardLast4: splitList(input("pdfCards").value),
+      },
+    });
+    showNotification("Details saved");
+  } catch (error) {
+    console.error(" Failed to save PDF password details:", error);
+    showNotification(error instanceof Error ? error.message : String(error), "error");
+  }
+});
+
+document.getElementById("savePdfRule")?.addEventListener("click", async () => {
+  const source = (document.getElementById("pdfRuleEditor") as HTMLTextAreaElement).value;
+  try {
+    const rule = JSON.parse(source) as PdfPasswordRule;
+    await sendRequest({ type: "savePdfPasswordRule", rule });
+    await loadPdfRules();
+    showNotification(`Password rule ${rule.id} saved`);
+  } catch (error) {
+    console.error(" Failed to save password rule:", error);
+    showNotification(error instanceof Error ? error.message : String(error), "error");
+  }
+});
+
+document.getElementById("newPdfRule")?.addEventListener("click", () => editPdfRule(NEW_PDF_RULE));
+
+// ----------------------
+// Backup and Export
+// ----------------------
+function downloadFile(fileName: string, mimeType: string, content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+for (const button of document.querySelectorAll<HTMLButtonElement>(".exportBills")) {
+  button.addEventListener("click", async () => {
+    try {
+      const file = await sendRequest({ type: "exportSummaries", format: button.dataset.format as ExportFormat });
+      downloadFile(file.fileName, file.mimeType, file.content);
+    } catch (error) {
+      console.error(" Export failed:", error);
+      showNotification(error instanceof Error ? error.message : String(error), "error");
+    }
+  });
+}
+
+input("importBackup").addEventListener("change", async (event) => {
+  const fileInput = event.target as HTMLInputElement;
+  const file = fileInput.files?.[0];
+  if (!file) return;
+  try {
+    const { added, skipped } = await sendRequest({ type: "importSummaries", content: await file.text() });
+    showNotification(`Imported ${added} bill(s)${skipped > 0 ? `; ${skipped} already stored` : ""}`);
+  } catch (error) {
+    console.error(" Backup import failed:", error);
+    showNotification(error instanceof Error ? error.message : String(error), "error");
+  }
+  fileInput.value = "";
+});
+
+// ----------------------
+// Encryption
+// ----------------------
+function showVaultStatus(vault: VaultStatus) {
+  const state = !vault.enabled ? "Bills are stored unencrypted."
+    : vault.locked ? "Bills are encrypted and locked; unlock them from the popup."
+    : `Bills are encrypted and unlocked${vault.lockAt ? ` until ${new Date(vault.lockAt).toLocaleTimeString()}` : ""}.`;
+  document.getElementById("vaultState")!.textContent = state;
+  input("autoLockMinutes").value = String(vault.autoLockMinutes);
+  document.getElementById("vaultDisabled")!.hidden = vault.enabled;
+  document.getElementById("vaultEnabled")!.hidden = !vault.enabled;
+  for (const id of ["newPassphrase", "repeatPassphrase", "currentPassphrase", "changedPassphrase"]) input(id).value = "";
+}
+
+async function loadVaultStatus() {
+  showVaultStatus(await sendRequest({ type: "getVaultStatus" }));
+}
+
+// Runs a vault request from a button, showing its outcome; `run` resolves with null
+// when the user cancelled.
+function vaultButton(id: string, run: () => Promise<VaultStatus | null>, done: string) {
+  document.getElementById(id)?.addEventListener("click", async () => {
+    const button = document.getElementById(id) as HTMLButtonElement;
+    button.disabled = true;
+    try {
+      const vault = await run();
+      if (!vault) return;
+      showVaultStatus(vault);
+      showNotification(done);
+    } catch (error) {
+      console.error(` ${id} failed:`, error);
+      showNotification(error instanceof Error ? error.message : String(error), "error");
+    } finally {
+      button.disabled = false;
+    }
+  });
+}
+
+vaultButton("enableEncryption", async () => {
+  if (input("newPassphrase").value !== input("repeatPassphrase").value) throw new Error("The passphrases do not match");
+  return sendRequest({ type: "enableEncryption", passphrase: input("newPassphrase").value, autoLockMinutes: Number(input("autoLockMinutes").value) });
+}, "Bills encrypted");
+vaultButton("saveAutoLock", () => sendRequest({ type: "setAutoLock", minutes: Number(input("autoLockMinutes").value) }), "Auto-lock saved; it applies from the next unlock");
+vaultButton("changePassphrase", () => sendRequest({ type: "changePassphrase", current: input("currentPassphrase").value, next: input("changedPassphrase").value }), "Passphrase changed");
+vaultButton("disableEncryption", async () => {
+  if (!confirm("Store your bills unencrypted again?")) return null;
+  return sendRequest({ type: "disableEncryption", passphrase: input("currentPassphrase").value });
+}, "Encryption turned off");
+
+document.addEventListener("DOMContentLoaded", async () => {
+  try {
+    await loadForm();
+    await loadVaultStatus();
+    await loadGmailAccounts();
+    await loadTemplates();
+    await loadPdfPasswords();
+    await loadModels();
+  } catch (error) {
+    console.error(" Failed to load settings:", error);
+    showNotification("Could not load settings", "error");
+  }
+});
@@ -1,439 +1,241 @@
 "use strict";
 
-import { CreateMLCEngine } from "@mlc-ai/web-llm";
 import "./popup.css";
-import {
-  ChatCompletionMessageParam,
-  CreateExtensionServiceWorkerMLCEngine,
-  MLCEngineInterface,
-} from "@mlc-ai/web-llm";
+import { initDashboard, refreshDashboard } from "./dashboard";
+import { PendingPayment } from "./db/reconcile";
+import { VaultStatus } from "./db/vault";
+import { formatAmount } from "./extract/normalize";
+import { bytesToBinaryString } from "./mail/mime";
+import { BackgroundEvent, ExtractionResultEvent, sendRequest, subscribeToEvents } from "./protocol";
 
-const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+// The popup is a thin client: the service worker owns the engine and the pipeline,
+// and the popup only sends requests and renders the events it is sent back.
 
 console.log(" Initializing Popup...");
 
-const MAX_EMAIL_CONTENT_LENGTH = 4096; 
-
-let engine: MLCEngineInterface | null = null;
-const chatHistory: ChatCompletionMessageParam[] = [];
-
-// Initialize the model
-async function initializeEngine() {
-  try {
-    console.log(" Loading model...");
-    engine = await CreateMLCEngine(
-      "Qwen2-0.5B-Instruct-q4f16_1-MLC"
-    );
-    console.log(" Model loaded successfully");
-  } catch (error) {
-    console.error(" Error loading model:", error);
-  }
-}
-
-interface PaymentData {
-  "Due Date": string;
-  "Total Amount Due": string;
-  "Bank Name": string;
-}
-
-interface PaymentSummary {
-  DueDate: string;
-  totalAmountDue: string;
-  paymentStatus: string;
-  BankName: string;
-}
-
-
-// Function to send Chrome Notification
-function sendNotification(title: string, message: string) {
-  console.log(" Sending notification:", title, message); 
-
-  chrome.notifications.create({
-    type: 'basic',
-    iconUrl: 'icon-27.53632084.png', 
-    title: title,
-    message: message,
-    priority: 2
-  }, (notificationId) => {
-    if (chrome.runtime.lastError) {
-      console.error(" Error creating notification:", chrome.runtime.lastError.message);
-    } else {
-      console.log( `Notification created with ID: ${notificationId}`);
-    }
-  });
-}
-
-// Open or create the IndexedDB database
-function openDatabase() {
-  return new Promise<IDBDatabase>((resolve, reject) => {
-    const request = indexedDB.open("PaymentSummariesDB", 1);
-
-    request.onupgradeneeded = function(event: IDBVersionChangeEvent) {
-      const db = (event.target as IDBRequest).result;
-
-      if (db) {
-        if (!db.objectStoreNames.contains("summaries")) {
-          db.createObjectStore("summaries", { keyPath: "id", autoIncrement: true });
-        }
-        console.log(" Object store 'summaries' created.");
-      } else {
-        console.error(" Unable to access the database during upgrade.");
-      }
-    };
-
-    request.onerror = function() {
-      reject("Error opening IndexedDB");
-    };
-
-    request.onsuccess = function(event) {
-      const db = (event.target as IDBRequest).result;
-      resolve(db);
-      console.log(" Database opened successfully.");
-    };
-  });
-}
-
-// Save payment summary to IndexedDB
-function savePaymentSummaryToIndexedDB(paymentData: any) {
-  openDatabase().then((db) => {
-    const transaction = db.transaction("summaries", "readwrite");
-    const store = transaction.objectStore("summaries");
-
-    // Normalize the new data for comparison.
-    const newTotal = paymentData["Total Amount Due"].replace(/[,]/g, '');
-    const newDue = paymentData["Due Date"];
-
-    const getAllRequest = store.getAll();
-    getAllRequest.onsuccess = function() {
-      const existingSummaries: PaymentSummary[] = getAllRequest.result;
-      const isDuplicate = existingSummaries.some(summary => {
-        const existingTotal = summary.totalAmountDue.replace(/[,]/g, '');
-        const existingDue = summary.DueDate;
-        return existingTotal === newTotal && existingDue === newDue;
-      });
-      if (!isDuplicate) {
-        const summary = {
-          DueDate: newDue,
-          totalAmountDue: newTotal,
-          BankName: paymentData["Bank Name"].trim(),
-          paymentStatus: "unpaid",
-          summaryTimestamp: new Date().toISOString(),
-        };
-        store.add(summary);
-        console.log(" Payment summary saved to IndexedDB.");
-      } else {
-        console.log("Duplicate summary found. Not saving.");
-      } 
-    };
-    getAllRequest.onerror = function() {
-      console.error(" Error checking for duplicate summaries in IndexedDB.");
-    };
-  }).catch(err => {
-    console.error(" Error saving summary to IndexedDB:", err);
-  });
+// Function to show notifications
+function showNotification(title: string, message: string, type: "success" | "error" = "success") {
+  const notificationBar = document.getElementById("notificationBar");
+  if (!notificationBar) return;
+  notificationBar.textContent = `${title}: ${message}`;
+  notificationBar.className = type; // Add success/error class
+  notificationBar.style.display = "block";
+
+  setTimeout(() => {
+    notificationBar.style.display = "none";
+  }, 3000);
 }
 
-
-// Retrieve payment summaries from IndexedDB
-function getPaymentSummariesFromIndexedDB(): Promise<PaymentSummary[]> {
-  return new Promise((resolve, reject) => {
-    openDatabase().then((db) => {
-      const transaction = db.transaction("summaries", "readonly");
-      const store = transaction.objectStore("summaries");
-      const request = store.getAll();
-
-      request.onsuccess = function() {
-        resolve(request.result); // TypeScript now knows the type is PaymentSummary[]
-      };
-
-      request.onerror = function() {
-        reject("Error retrieving payment summaries from IndexedDB");
-      };
-    }).catch(reject);
-  });
+// Show or hide the loading indicator with a status line, and a progress bar while the
+// model downloads and compiles
+function setLoading(text: string | null, progress?: number) {
+  const loadingIndicator = document.getElementById("loading-indicator");
+  const loadingText = document.getElementById("loading-text");
+  const loadingProgress = document.getElementById("loading-progress") as HTMLProgressElement | null;
+  if (!loadingIndicator || !loadingText) return;
+  loadingIndicator.style.display = text ? "block" : "none";
+  loadingText.textContent = text || "";
+  if (loadingProgress) {
+    loadingProgress.style.display = text && progress !== undefined ? "block" : "none";
+    if (progress !== undefined) loadingProgress.value = progress;
+  }
 }
 
 // Update the UI with the extracted payment details
 function updateAnswer(summary: string) {
   const answerWrapper = document.getElementById("answerWrapper");
   const answerElement = document.getElementById("answer");
-  const loadingIndicator = document.getElementById("loading-indicator");
   const timestampElement = document.getElementById("timestamp");
 
-  if (!answerWrapper || !answerElement || !loadingIndicator || !timestampElement) {
+  if (!answerWrapper || !answerElement || !timestampElement) {
     console.error(" Missing required DOM elements in updateAnswer()");
     return;
   }
 
   answerWrapper.style.display = "block";
-  answerElement.innerHTML = summary.replace(/\n/g, "<br>");
-  loadingIndicator.style.display = "none";
-
+  answerElement.innerText = summary;
   timestampElement.innerText = `Updated: ${new Date().toLocaleString()}`;
 }
 
-
-function normalizeCurrencySymbols(text: string): string {
-  // Replace garbled rupee symbol with the proper one.
-  return text.replace(/â\x82¹/g, "₹");
+function showResult(event: ExtractionResultEvent) {
+  if (event.result.status === "success" && event.paymentData) {
+    updateAnswer(`${event.subject}\n\n${JSON.stringify(event.paymentData, null, 2)}`);
+  } else if (event.result.status !== "success") {
+    updateAnswer(`${event.subject}\n\n${event.result.status}: ${event.result.error || "unknown error"}`);
+  }
 }
 
-function parseBankSummary(emailText: string): Record<string, string> {
-  // Use a regex to locate a common "summary" marker.
-  const markerRegex = /summary[\s:]*\n*/i;
-  const markerMatch = emailText.match(markerRegex);
-  if (!markerMatch) {
-    console.warn("Summary marker not found.");
-    return {};
-  }
-  
-  // Extract text after the marker.
-  const startIndex = markerMatch.index! + markerMatch[0].length;
-  let summaryPart = emailText.substring(startIndex).trim();
-  
-  // If there's a "Note:" section later, cut it off.
-  const noteIndex = summaryPart.search(/\bnote\b/i);
-  if (noteIndex !== -1) {
-    summaryPart = summaryPart.substring(0, noteIndex).trim();
-  }
-  
-  // Split the summary section into lines and filter out empty lines.
-  const lines = summaryPart.split("\n").map(line => line.trim()).filter(line => line.length > 0);
-  
-  // Define our expected keys (case-insensitive) and their normalized names.
-  const expectedKeys: { pattern: RegExp; key: string }[] = [
-    { pattern: /total amount due/i, key: "Total Amount Due" },
-    { pattern: /rewards earned/i, key: "Rewards Earned" },
-    { pattern: /payment due date|bill due date/i, key: "Payment Due Date" },
-  ];
-  
-  const summary: Record<string, string> = {};
-  
-  // Iterate over the lines, and if a line matches one of the expected keys, 
-  // take the next non-empty line as the value.
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    const expected = expectedKeys.find(exp => exp.pattern.test(line));
-    if (expected) {
-      // Get the next non-empty line as value.
-      let value = "";
-      for (let j = i + 1; j < lines.length; j++) {
-        if (lines[j].length > 0) {
-          value = lines[j];
-          i = j; // advance i past the value line
-          break;
-        }
-      }
-      summary[expected.key] = normalizeCurrencySymbols(value);
-      // summary[expected.key] = value;
+// Lists payments the background could not match to a single bill, with one button per
+// candidate bill and one to dismiss the payment.
+function renderPendingPayments(pending: PendingPayment[]) {
+  const wrapper = document.getElementById("pendingPaymentsWrapper");
+  const list = document.getElementById("pendingPayments");
+  if (!wrapper || !list) return;
+  wrapper.style.display = pending.length > 0 ? "block" : "none";
+  list.replaceChildren();
+  for (const { payment, candidates } of pending) {
+    const item = document.createElement("div");
+    item.className = "pendingPayment";
+    const description = document.createElement("p");
+    description.textContent = `${formatAmount(payment)} paid${payment.paidOn ? ` on ${payment.paidOn}` : ""}${payment.bankName ? ` to ${payment.bankName}` : ""}`;
+    item.appendChild(description);
+    for (const summary of candidates) {
+      const card = summary.cardLast4 ? ` ••${summary.cardLast4}` : "";
+      item.appendChild(createResolveButton(payment.id, summary.id,
+        `${summary.bankName}${card}: ${formatAmount(summary)} due ${summary.dueDate || "unknown"}`));
     }
+    item.appendChild(createResolveButton(payment.id, null, "Not one of these"));
+    list.appendChild(item);
   }
-  
-  return summary;
 }
 
-
-// Function to process email content and summarize it
-async function summarizeEmail(emailContent: string) {
-  if (!engine) {
-    console.warn(" Engine is not initialized. Waiting...");
-    await waitForEngine();
-  }
-
-  if (!engine) {
-    console.error(" Engine failed to initialize.");
-    updateAnswer(" Unable to process email.");
-    return;
-  }
-
-  console.log(" Sending email for summarization...");
-
-
-  let truncatedEmailContent = emailContent;
-  if (emailContent.length > MAX_EMAIL_CONTENT_LENGTH) {
-    truncatedEmailContent = emailContent.substring(0, MAX_EMAIL_CONTENT_LENGTH);
-    console.log(`Email content truncated to ${MAX_EMAIL_CONTENT_LENGTH} characters.`);
-  }
-
-  console.log("Full email content (truncated if needed):", truncatedEmailContent);
-
-  // Lowercase the email content for prompt consistency
-  truncatedEmailContent = truncatedEmailContent.toLowerCase();
-
-  // // Format the email content as JSON
-  // const emailJson = structureEmailData(emailContent)
-
-  // console.log("email content: ", emailJson)
-
-  console.log(JSON.stringify(truncatedEmailContent))
-
-  const summaryDict = parseBankSummary(emailContent);
-  console.log("Structured Summary:", summaryDict);
-
-  emailContent = emailContent.toLowerCase()
-  
-  const prompt = `
-    Extract the following from the inputs provided:
-
-    1. From the email below, extract only the bank name from the email content "${truncatedEmailContent}". 
-    
-    2. From the dictionary below, extract only the Payment Due Date and Total Amount Due from Dictionary: ${JSON.stringify(summaryDict)}. 
-
-    combine both 1 and 2 answers and return it as JSON in the following format:
-      {
-      "Due Date": "DD-MM-YYYY",
-      "Total Amount Due": "XXXX.XX",
-      "Bank Name": "XXXX",
-    }`;
-
-    chatHistory.length = 0; 
-
-    chatHistory.push({ role: "user", content: prompt });
-
-  try {
-    const completion = await engine.chat.completions.create({ stream: true, messages: chatHistory });
-    let curMessage = "";
-
-
-    console.log(" Processing AI response...");
-    for await (const chunk of completion) {
-      const curDelta = chunk.choices[0]?.delta?.content;
-      if (curDelta) {
-        curMessage += curDelta;
-      }
-    }
-    
-    // chatHistory.push({ role: "assistant", content: curMessage });
-
-    console.log("AI response:",curMessage);
-
-    updateAnswer(curMessage);
-    
-    // Trim any unwanted text from the response (e.g., "This JSON format is provided for you...")
-    const jsonResponse = curMessage.split("This JSON format is provided for you")[0].trim();
-
-    let paymentData: PaymentData;
-
+function createResolveButton(paymentId: number, summaryId: number | null, label: string): HTMLButtonElement {
+  const button = document.createElement("button");
+  button.className = "btn";
+  button.textContent = label;
+  button.addEventListener("click", async () => {
     try {
-      paymentData = JSON.parse(jsonResponse);
+      await sendRequest({ type: "resolvePayment", paymentId, summaryId });
+      showNotification("Saved", summaryId === null ? "Payment dismissed" : "Payment applied to the bill", "success");
+      await refreshPendingPayments();
+      await refreshDashboard();
     } catch (error) {
-      console.error(" Error parsing AI response:", error);
-      return;
+      console.error(" Failed to resolve payment:", error);
+      showNotification("Error", "Could not save the payment", "error");
     }
+  });
+  return button;
+}
 
-    // Save summarized result to IndexedDB
-    savePaymentSummaryToIndexedDB({
-      "Due Date": paymentData["Due Date"],
-      "Total Amount Due": paymentData["Total Amount Due"],
-      "Bank Name": paymentData["Bank Name"]
-    });
-
-
-    // const notificationMessage = `Payment Due Date: ${paymentData["Due Date"]}, Total Amount Due: ${paymentData["Total Amount Due"]}, Status: unpaid`;
-    // console.log(" Sending notification:", notificationMessage); 
+async function refreshPendingPayments() {
+  const { pending } = await sendRequest({ type: "getPendingPayments" });
+  renderPendingPayments(pending);
+}
 
-    // chrome.runtime.sendMessage({
-    //   type: "sendNotification",
-    //   message: notificationMessage
-    // });
+// ----------------------
+// Lock
+// ----------------------
+// While the bills are locked, the popup shows only the unlock form.
+function showVaultStatus(vault: VaultStatus) {
+  document.getElementById("unlockForm")!.style.display = vault.locked ? "block" : "none";
+  document.getElementById("dashboard")!.style.display = vault.locked ? "none" : "block";
+  if (vault.locked) document.getElementById("pendingPaymentsWrapper")!.style.display = "none";
+  document.getElementById("lockBills")!.style.display = vault.enabled && !vault.locked ? "inline-block" : "none";
+}
 
-    notifyFromIndexedDB() 
+async function refreshBills() {
+  await refreshPendingPayments();
+  await refreshDashboard();
+}
 
+document.getElementById("unlockForm")?.addEventListener("submit", async (event) => {
+  event.preventDefault();
+  const input = document.getElementById("unlockPassphrase") as HTMLInputElement;
+  try {
+    showVaultStatus(await sendRequest({ type: "unlockVault", passphrase: input.value }));
+    input.value = "";
+    await refreshBills();
   } catch (error) {
-    console.error(" Error summarizing email:", error);
+    console.error(" Unlock failed:", error);
+    showNotification("Error", error instanceof Error ? error.message : String(error), "error");
+    input.select();
   }
-}
+});
 
-// Handle incoming email data from the background script
-chrome.runtime.onMessage.addListener(async (message, sender, sendResponse) => {
+document.getElementById("lockBills")?.addEventListener("click", async () => {
   try {
-    if (message.type === "emailData") {
-      console.log(" Received Email Data:", message.emails);
+    showVaultStatus(await sendRequest({ type: "lockVault" }));
+  } catch (error) {
+    console.error(" Lock failed:", error);
+    showNotification("Error", "Could not lock your bills", "error");
+  }
+});
 
-      if (!message.emails || message.emails.length === 0) {
-        console.warn(" No valid emails received.");
-        sendResponse({ success: false, message: "No valid emails found" });
-        return;
+function handleEvent(event: BackgroundEvent) {
+  switch (event.type) {
+    case "engineProgress":
+      if (event.state === "loading") setLoading(event.text, event.progress);
+      if (event.state === "ready") setLoading(null);
+      if (event.state === "failed") {
+        setLoading(null);
+        showNotification("Error", "The model failed to load", "error");
       }
-  
-      const email = message.emails[0]; // Take the first valid email
-      console.log(" Processing Email:", email);
-  
-      if (!engine) {
-        console.warn(" Engine not initialized. Waiting...");
-        await waitForEngine();
+      break;
+    case "queueProgress":
+      setLoading(event.processed < event.total
+        ? `Summarizing email ${event.processed + 1} of ${event.total}: ${event.subject || ""}`
+        : null);
+      // Bills and payments processed in this run may have changed.
+      if (event.processed === event.total) {
+        refreshPendingPayments().catch(error => console.error(" Failed to load pending payments:", error));
+        refreshDashboard().catch(error => console.error(" Failed to load bills:", error));
       }
+      break;
+    case "extractionResult":
+      showResult(event);
+      break;
+  }
+}
 
-      if (engine) {
-        await summarizeEmail(message.emails[0]?.content);
-        sendResponse({ success: true, message: "Email processed successfully" });
-      } else {
-        console.error(" Engine failed to initialize.");
-        sendResponse({ success: false, message: "Engine failed to initialize" });
-      }
-    }
+document.addEventListener("DOMContentLoaded", async () => {
+  subscribeToEvents(handleEvent);
+  initDashboard(showNotification);
+  try {
+    const status = await sendRequest({ type: "getStatus" });
+    if (status.engineState === "loading") setLoading(status.engineProgress || "Loading model...");
+    if (status.lastResult) showResult(status.lastResult);
+    const vault = await sendRequest({ type: "getVaultStatus" });
+    showVaultStatus(vault);
+    if (!vault.locked) await refreshBills();
+    // Check for new emails whenever the popup opens.
+    await sendRequest({ type: "checkEmails" });
   } catch (error) {
-    console.error(" Message processing error:", error);
-    sendResponse({ success: false, message: "Unexpected error occurred" });
+    console.error(" Failed to reach the background:", error);
+    showNotification("Error", "Could not reach the background service", "error");
   }
-
-  return true; 
 });
 
-// Wait for engine initialization
-async function waitForEngine() {
-  let attempts = 0;
-  while (!engine && attempts < 10) {
-    console.log(` Waiting for engine... Attempt ${attempts + 1}`);
-    await sleep(1000);
-    attempts++;
+// Copy answer to clipboard functionality
+document.getElementById("copyAnswer")?.addEventListener("click", () => {
+  const answerText = document.getElementById("answer")?.innerText;
+  if (answerText) {
+    navigator.clipboard.writeText(answerText).then(() => {
+      showNotification("Copied!", "Summary copied to clipboard", "success");
+    }, (err) => {
+      console.error("Error copying text: ", err);
+      showNotification("Error", "Failed to copy text", "error");
+    });
   }
+});
 
-  if (!engine) {
-    console.warn(" Engine still not ready. Retrying initialization...");
-    await initializeEngine(); // 🔥 Try initializing again
+// Hand an imported .eml/mbox file to the background pipeline
+document.getElementById("importMail")?.addEventListener("change", async (event) => {
+  const input = event.target as HTMLInputElement;
+  const file = input.files?.[0];
+  if (!file) return;
+  // Send the raw bytes as base64 so the background can honour each part's charset.
+  const content = btoa(bytesToBinaryString(new Uint8Array(await file.arrayBuffer())));
+  try {
+    const { count } = await sendRequest({ type: "importMail", fileName: file.name, content });
+    showNotification("Imported", `${count} message(s) from ${file.name}`, "success");
+  } catch (error) {
+    console.error(" Mail import failed:", error);
+    showNotification("Error", "Mail import failed", "error");
   }
+  input.value = "";
+});
 
-  if (!engine) {
-    console.error(" Engine failed to initialize.");
-  } else {
-    console.log(" Engine is ready!");
+// Ask the background to retry emails whose extraction failed
+document.getElementById("retryFailed")?.addEventListener("click", async () => {
+  try {
+    const { count } = await sendRequest({ type: "retryFailed" });
+    showNotification("Retrying", `${count} failed email(s) requeued`, "success");
+  } catch (error) {
+    console.error(" Retry request failed:", error);
+    showNotification("Error", "Retry request failed", "error");
   }
-}
-
-
-// Wait for DOM before initializing
-document.addEventListener("DOMContentLoaded", async () => {
-  console.log(" DOM loaded, initializing engine...");
-  await initializeEngine();
-  
 });
 
-// Send a notification with payment details from IndexedDB
-function notifyFromIndexedDB() {
-  getPaymentSummariesFromIndexedDB().then((paymentSummaries: PaymentSummary[]) => {
-    if (paymentSummaries.length > 0) {
-      const latestSummary = paymentSummaries[paymentSummaries.length - 1]; // Get the latest payment summary
-      const message = `Payment Due Date: ${latestSummary.DueDate}, Total Amount Due: ${latestSummary.totalAmountDue}, Status: ${latestSummary.paymentStatus}`;
-      console.log(" Payment summary found in IndexedDB:", latestSummary); 
-      sendNotification("Payment Summary", message);
-    } else {
-      console.log(" No payment summaries found in IndexedDB");
-      sendNotification("No Payment Summary", "No payment summary found in IndexedDB.");
-    }
-  }).catch(err => {
-    console.error(" Error retrieving payment summaries from IndexedDB:", err);
-    sendNotification("Error", "An error occurred while retrieving payment summaries.");
-  });
-}
-
-
-chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
-  if (message.type === "processEmailInPopup") {
-    console.log("Popup received email for processing:", message.content);
-    // Call your popup summarization function here:
-    summarizeEmail(message.content);
-    sendResponse({ success: true });
-  }
-  return true;
+document.getElementById("openOptions")?.addEventListener("click", () => {
+  chrome.runtime.openOptionsPage();
 });
@@ -0,0 +1,160 @@
+import { ProcessingResult } from "./db/ledger";
+import { PendingPayment } from "./db/reconcile";
+import { PaymentSummary } from "./db/summaries";
+import { VaultStatus } from "./db/vault";
+import { LogEntry, LogFilter } from "./diagnostics/log";
+import { PaymentData } from "./extract/llm";
+import { PdfPasswordProfile, PdfPasswordRule } from "./extract/pdfPasswords";
+import { StatementTemplate } from "./extract/statement";
+import { ExportFile, ExportFormat } from "./export/backup";
+import { GmailAccount } from "./mail/accounts";
+import { BenchmarkResult } from "./model/benchmark";
+import { ModelInfo } from "./model/manager";
+
+// ----------------------
+// Popup <-> Background Protocol
+// ----------------------
+// The service worker owns the engine and the pipeline; extension pages are thin
+// clients. Requests go through chrome.runtime.sendMessage in a versioned envelope and
+// get a typed response. Progress and results are pushed to pages over a long-lived
+// port. Bump PROTOCOL_VERSION whenever a request or event changes shape.
+
+export const PROTOCOL_VERSION = 12;
+export const EVENTS_PORT_NAME = "bill-tracker-events";
+
+export type EngineState = "idle" | "loading" | "ready" | "failed";
+
+// A bill as shown on the dashboard, with a link to the email it was extracted from.
+export type SummaryView = PaymentSummary & { sourceLink?: string };
+
+// Dashboard edits as typed by the user; the background parses and validates them.
+export interface SummaryEditRequest {
+  summaryId: number;
+  bankName?: string;
+  amount?: string;
+  dueDate?: string; // YYYY-MM-DD
+}
+
+export interface BackgroundStatus {
+  engineState: EngineState;
+  engineProgress?: string;
+  queuedMessages: number;
+  lastResult?: ExtractionResultEvent;
+}
+
+// Each request type maps to its payload and the result it resolves with.
+export interface ProtocolMap {
+  getStatus: { request: {}; response: BackgroundStatus };
+  checkEmails: { request: {}; response: {} };
+  importMail: { request: { fileName: string; content: string }; response: { count: number } }; // content is base64
+  retryFailed: { request: {}; response: { count: number } };
+  getSummaries: { request: {}; response: { summaries: SummaryView[] } };
+  editSummary: { request: SummaryEditRequest; response: { summary: PaymentSummary } };
+  deleteSummary: { request: { summaryId: number }; response: {} };
+  markPaid: { request: { summaryId: number }; response: {} };
+  markUnpaid: { request: { summaryId: number }; response: {} };
+  snoozeReminder: { request: { summaryId: number; minutes?: number }; response: {} }; // minutes defaults to the configured snooze
+  exportSummaries: { request: { format: ExportFormat }; response: ExportFile };
+  importSummaries: { request: { content: string }; response: { added: number; skipped: number } }; // content is a JSON backup
+  listGmailAccounts: { request: {}; response: { profileEmail: string | null; accounts: GmailAccount[] } };
+  addGmailAccount: { request: {}; response: { account: GmailAccount } };
+  removeGmailAccount: { request: { email: string }; response: { removedBills: number } };
+  getPendingPayments: { request: {}; response: { pending: PendingPayment[] } };
+  resolvePayment: { request: { paymentId: number; summaryId: number | null }; response: {} }; // null dismisses the payment
+  listModels: { request: {}; response: { models: ModelInfo[]; activeModelId: string; loadedModelId: string | null } };
+  getModelDownloadSize: { request: { modelId: string }; response: { sizeMB: number } };
+  deleteModel: { request: { modelId: string }; response: {} };
+  switchModel: { request: { modelId: string }; response: { benchmark: BenchmarkResult } };
+  benchmarkModel: { request: {}; response: { benchmark: BenchmarkResult } };
+  getLogEntries: { request: { filter: LogFilter }; response: { entries: LogEntry[] } };
+  clearLog: { request: {}; response: {} };
+  exportDebugBundle: { request: {}; response: ExportFile };
+  getVaultStatus: { request: {}; response: VaultStatus };
+  unlockVault: { request: { passphrase: string }; response: VaultStatus };
+  lockVault: { request: {}; response: VaultStatus };
+  enableEncryption: { request: { passphrase: string; autoLockMinutes: number }; response: VaultStatus };
+  changePassphrase: { request: { current: string; next: string }; response: VaultStatus };
+  disableEncryption: { request: { passphrase: string }; response: VaultStatus };
+  setAutoLock: { request: { minutes: number }; response: VaultStatus }; // 0 never auto-locks
+  getStatementTemplates: { request: {}; response: { templates: StatementTemplate[] } };
+  saveStatementTemplate: { request: { template: StatementTemplate }; response: {} };
+  deleteStatementTemplate: { request: { id: string }; response: {} };
+  getPdfPasswordRules: { request: {}; response: { rules: PdfPasswordRule[] } };
+  savePdfPasswordRule: { request: { rule: PdfPasswordRule }; response: {} };
+  deletePdfPasswordRule: { request: { id: string }; response: {} };
+  getPdfPasswordProfile: { request: {}; response: { profile: PdfPasswordProfile } };
+  savePdfPasswordProfile: { request: { profile: PdfPasswordProfile }; response: {} };
+}
+
+export type RequestType = keyof ProtocolMap;
+export type ProtocolRequest<T extends RequestType = RequestType> = { type: T } & ProtocolMap[T]["request"];
+export type ProtocolResult<T extends RequestType> = ProtocolMap[T]["response"];
+
+export interface RequestEnvelope<T extends RequestType = RequestType> {
+  version: number;
+  request: ProtocolRequest<T>;
+}
+
+export type ResponseEnvelope<T extends RequestType = RequestType> =
+  | { ok: true; result: ProtocolResult<T> }
+  | { ok: false; error: string };
+
+export interface EngineProgressEvent {
+  type: "engineProgress";
+  state: EngineState;
+  progress: number; // 0..1
+  text: string;
+}
+
+export interface QueueProgressEvent {
+  type: "queueProgress";
+  processed: number;
+  total: number;
+  subject?: string;
+}
+
+export interface ExtractionResultEvent {
+  type: "extractionResult";
+  messageId: string;
+  subject: string;
+  result: ProcessingResult;
+  paymentData?: PaymentData;
+}
+
+export type BackgroundEvent = EngineProgressEvent | QueueProgressEvent | ExtractionResultEvent;
+
+export function isRequestEnvelope(message: any): message is RequestEnvelope {
+  return typeof message === "object" && message !== null && typeof message.version === "number" && typeof message.request?.type === "string";
+}
+
+// ----------------------
+// Client Helpers
+// ----------------------
+export function sendRequest<T extends RequestType>(request: ProtocolRequest<T>): Promise<ProtocolResult<T>> {
+  const envelope: RequestEnvelope<T> = { version: PROTOCOL_VERSION, request };
+  return new Promise((resolve, reject) => {
+    chrome.runtime.sendMessage(envelope, (response?: ResponseEnvelope<T>) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else if (!response) {
+        reject(new Error(`No response to ${request.type}`));
+      } else if (!response.ok) {
+        reject(new Error(response.error));
+      } else {
+        resolve(response.result);
+      }
+    });
+  });
+}
+
+export function subscribeToEvents(onEvent: (event: BackgroundEvent) => void): chrome.runtime.Port {
+  const port = chrome.runtime.connect({ name: EVENTS_PORT_NAME });
+  port.onMessage.addListener((message: { version: number; event: BackgroundEvent }) => {
+    if (message.version !== PROTOCOL_VERSION) {
+      console.warn(" Ignoring event from protocol version", message.version);
+      return;
+    }
+    onEvent(message.event);
+  });
+  return port;
+}
@@ -0,0 +1,131 @@
+import { getLedgerEntry } from "../db/ledger";
+import { log } from "../diagnostics/log";
+import { markSummaryPaid } from "../db/reconcile";
+import { isVaultLocked } from "../db/vault";
+import { formatAmount } from "../extract/normalize";
+import { DueReminder, rebuildReminderSchedule, snoozeReminder } from "./scheduler";
+
+// ----------------------
+// Actionable Notifications
+// ----------------------
+// Due reminders are shown as one notification, replaced each time reminders fire.
+// Chrome allows two buttons, so they are "Mark paid" and "Snooze 1 day"; clicking the
+// notification itself opens the statement email. The bills a notification is about are
+// kept in session storage, because the service worker may restart before the user
+// clicks it.
+
+const REMINDER_NOTIFICATION_ID = "bill-reminders";
+const SNOOZE_ONE_DAY_MINUTES = 24 * 60;
+const BUTTONS = ["markPaid", "snooze"] as const;
+
+interface NotificationContext {
+  summaryIds: number[];
+  sourceMessageId?: string; // Set when the notification is about a single bill
+}
+
+// The manifest icon, resolved at runtime because the bundler renames icon files.
+function notificationIconUrl(): string {
+  const icons = chrome.runtime.getManifest().icons || {};
+  return chrome.runtime.getURL(icons["128"] || icons["64"] || "");
+}
+
+async function setContext(notificationId: string, context: NotificationContext): Promise<void> {
+  await chrome.storage.session.set({ [`notification:${notificationId}`]: context });
+}
+
+async function takeContext(notificationId: string): Promise<NotificationContext | undefined> {
+  const key = `notification:${notificationId}`;
+  const stored = await chrome.storage.session.get(key);
+  await chrome.storage.session.remove(key);
+  return stored[key];
+}
+
+export function sendNotification(title: string, message: string, options: { priority?: number; requireInteraction?: boolean } = {}) {
+  chrome.notifications.create({
+    type: "basic",
+    iconUrl: notificationIconUrl(),
+    title,
+    message,
+    priority: options.priority ?? 2,
+    requireInteraction: options.requireInteraction,
+  });
+}
+
+function describeReminder({ summary, kind, daysUntilDue }: DueReminder): { title: string; message: string } {
+  const card = summary.cardLast4 ? ` ••${summary.cardLast4}` : "";
+  const outstanding = formatAmount({ amountMinor: summary.amountMinor - summary.paidMinor, currency: summary.currency });
+  if (kind === "overdue") {
+    return { title: `Overdue: ${summary.bankName}${card}`, message: `${outstanding} was due ${-daysUntilDue} day(s) ago, on ${summary.dueDate}.` };
+  }
+  if (kind === "due_today") {
+    return { title: `Due today: ${summary.bankName}${card}`, message: `${outstanding} is due today.` };
+  }
+  return { title: `Upcoming bill: ${summary.bankName}${card}`, message: `${outstanding} is due in ${daysUntilDue} day(s), on ${summary.dueDate}.` };
+}
+
+// Names the mailbox the bills came from, when they all came from the same one.
+function mailboxContext(reminders: DueReminder[]): string | undefined {
+  const accounts = new Set(reminders.map(reminder => reminder.summary.account));
+  const [account] = accounts;
+  if (accounts.size !== 1 || !account) return undefined;
+  return `From ${account}`;
+}
+
+// Shows every due reminder in one notification, escalating with the most urgent bill.
+export async function notifyReminders(reminders: DueReminder[]): Promise<void> {
+  if (reminders.length === 0) return;
+  const sorted = [...reminders].sort((a, b) => a.daysUntilDue - b.daysUntilDue);
+  const mostUrgent = sorted[0];
+  const single = sorted.length === 1;
+  const overdue = sorted.filter(reminder => reminder.kind === "overdue").length;
+  const { title, message } = describeReminder(mostUrgent);
+  const contextMessage = mailboxContext(sorted);
+  await setContext(REMINDER_NOTIFICATION_ID, {
+    summaryIds: sorted.map(reminder => reminder.summary.id),
+    sourceMessageId: single ? mostUrgent.summary.sourceMessageId : undefined,
+  });
+  // Clear first so an updated group is shown again rather than silently replaced.
+  await chrome.notifications.clear(REMINDER_NOTIFICATION_ID);
+  chrome.notifications.create(REMINDER_NOTIFICATION_ID, {
+    type: single ? "basic" : "list",
+    iconUrl: notificationIconUrl(),
+    title: single ? title : overdue > 0 ? `${sorted.length} bills need attention, ${overdue} overdue` : `${sorted.length} bills due soon`,
+    message: single ? message : "Open the extension to see all bills.",
+    contextMessage,
+    // Bills from several mailboxes each name theirs.
+    items: single ? undefined : sorted.map((reminder) => {
+      const item = describeReminder(reminder);
+      return contextMessage || !reminder.summary.account ? item : { ...item, message: `${item.message} (${reminder.summary.account})` };
+    }),
+    buttons: [{ title: single ? "Mark paid" : "Mark all paid" }, { title: single ? "Snooze 1 day" : "Snooze all 1 day" }],
+    priority: mostUrgent.kind === "upcoming" ? (mostUrgent.daysUntilDue <= 1 ? 1 : 0) : 2,
+    requireInteraction: overdue > 0,
+  });
+  log.info("notify", `Reminder notification shown for ${sorted.length} bill(s).`);
+}
+
+// Opens the statement email in the mailbox it came from, or the extension page when
+// the message has no web link (e.g. an imported .eml file) or the bills are locked.
+async function openStatement(sourceMessageId: string | undefined) {
+  const entry = sourceMessageId && !await isVaultLocked() ? await getLedgerEntry("statements", sourceMessageId) : undefined;
+  await chrome.tabs.create({ url: entry?.link || chrome.runtime.getURL("popup.html") });
+}
+
+export async function handleNotificationButton(notificationId: string, buttonIndex: number): Promise<void> {
+  const context = await takeContext(notificationId);
+  chrome.notifications.clear(notificationId);
+  if (!context) return;
+  const button = BUTTONS[buttonIndex];
+  for (const summaryId of context.summaryIds) {
+    if (button === "markPaid") await markSummaryPaid(summaryId);
+    if (button === "snooze") await snoozeReminder(summaryId, SNOOZE_ONE_DAY_MINUTES);
+  }
+  if (button === "markPaid") await rebuildReminderSchedule();
+  log.info("notify", `Notification action ${button} applied to ${context.summaryIds.length} bill(s).`);
+}
+
+export async function handleNotificationClick(notificationId: string): Promise<void> {
+  const context = await takeContext(notificationId);
+  chrome.notifications.clear(notificationId);
+  await openStatement(context?.sourceMessageId);
+}
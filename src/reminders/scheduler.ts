@@ -0,0 +1,135 @@
+import { getOpenSummaries, PaymentSummary, updateSummary } from "../db/summaries";
+import { isVaultLocked } from "../db/vault";
+import { log } from "../diagnostics/log";
+import { getReminderSettings, ReminderSettings } from "./settings";
+
+// ----------------------
+// Reminder Scheduler
+// ----------------------
+// Each open bill with a due date gets one chrome alarm, set for its next reminder: one
+// of the configured offsets before the due date, or a repeating reminder once it is
+// overdue. Reminders already sent are tracked on the summary (lastRemindedAt), so a
+// reminder missed while the browser was closed fires once on the next wake, and the
+// schedule can be rebuilt from IndexedDB at any time. Snoozes and quiet hours only
+// push a reminder later.
+
+const REMINDER_ALARM_PREFIX = "reminder:";
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// Chrome rounds alarms up to 30 seconds; a reminder due within this is sent now.
+const DUE_TOLERANCE_MS = 60 * 1000;
+
+export type ReminderKind = "upcoming" | "due_today" | "overdue";
+
+export interface DueReminder {
+  summary: PaymentSummary;
+  kind: ReminderKind;
+  daysUntilDue: number; // Negative once overdue
+}
+
+export function isReminderAlarm(name: string): boolean {
+  return name.startsWith(REMINDER_ALARM_PREFIX);
+}
+
+// Local time of the reminder on the day `offsetDays` before the due date.
+function reminderTime(dueDate: string, offsetDays: number, settings: ReminderSettings): number {
+  const [year, month, day] = dueDate.split("-").map(Number);
+  return new Date(year, month - 1, day - offsetDays, settings.reminderHour).getTime();
+}
+
+function daysUntil(dueDate: string, now: number): number {
+  const [year, month, day] = dueDate.split("-").map(Number);
+  const today = new Date(now);
+  const startOfToday = new Date(today.getFullYear(), today.getMonth(), today.getDate()).getTime();
+  return Math.round((new Date(year, month - 1, day).getTime() - startOfToday) / DAY_MS);
+}
+
+// Moves a time that falls inside quiet hours to the end of them.
+export function outsideQuietHours(time: number, settings: ReminderSettings): number {
+  const { quietHoursStart: start, quietHoursEnd: end } = settings;
+  if (start === end) return time;
+  const date = new Date(time);
+  const hour = date.getHours() + date.getMinutes() / 60;
+  const wraps = start > end; // e.g. 22:00 to 08:00
+  const quiet = wraps ? hour >= start || hour < end : hour >= start && hour < end;
+  if (!quiet) return time;
+  const endsTomorrow = wraps && hour >= start;
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + (endsTomorrow ? 1 : 0), end).getTime();
+}
+
+// When the next reminder for a bill should fire, or null if it needs none.
+export function nextReminderTime(summary: PaymentSummary, settings: ReminderSettings, now: number): number | null {
+  if (!summary.dueDate || summary.status === "paid" || summary.status === "overpaid") return null;
+  const lastReminded = summary.lastRemindedAt ? Date.parse(summary.lastRemindedAt) : -Infinity;
+  const candidates = settings.offsetsDays
+    .map(offset => reminderTime(summary.dueDate!, offset, settings))
+    .filter(time => time > lastReminded);
+  // Overdue bills are reminded again every overdueRepeatHours from the day after the due date.
+  const overdueStart = reminderTime(summary.dueDate, -1, settings);
+  const repeatMs = Math.max(1, settings.overdueRepeatHours) * HOUR_MS;
+  const repeats = lastReminded < overdueStart ? 0 : Math.floor((lastReminded - overdueStart) / repeatMs) + 1;
+  candidates.push(overdueStart + repeats * repeatMs);
+  let next = Math.min(...candidates);
+  if (summary.snoozedUntil) next = Math.max(next, Date.parse(summary.snoozedUntil));
+  // A reminder missed while the browser was closed is sent now rather than skipped.
+  next = Math.max(next, now);
+  return outsideQuietHours(next, settings);
+}
+
+function scheduleSummary(summary: PaymentSummary, settings: ReminderSettings, now: number): boolean {
+  const when = nextReminderTime(summary, settings, now);
+  const name = `${REMINDER_ALARM_PREFIX}${summary.id}`;
+  if (when === null) {
+    chrome.alarms.clear(name);
+    return false;
+  }
+  chrome.alarms.create(name, { when: Math.max(when, now + 1000) });
+  return true;
+}
+
+// Recreates every reminder alarm from the open summaries in IndexedDB.
+export async function rebuildReminderSchedule(): Promise<number> {
+  // Locked bills cannot be read; the alarms already set stay until the next unlock.
+  if (await isVaultLocked()) {
+    log.info("notify", "Bills are locked; the reminder schedule is rebuilt after unlock.");
+    return 0;
+  }
+  const [settings, summaries, alarms] = await Promise.all([getReminderSettings(), getOpenSummaries(), chrome.alarms.getAll()]);
+  await Promise.all(alarms.filter(alarm => isReminderAlarm(alarm.name)).map(alarm => chrome.alarms.clear(alarm.name)));
+  const now = Date.now();
+  const scheduled = summaries.filter(summary => scheduleSummary(summary, settings, now)).length;
+  log.info("notify", `Scheduled reminders for ${scheduled} bill(s).`);
+  return scheduled;
+}
+
+// Collects every bill whose reminder is due, marks it reminded and schedules its next
+// reminder. Bills due at the same time are returned together, so they share one
+// notification whichever of their alarms fires first.
+export async function collectDueReminders(): Promise<DueReminder[]> {
+  const [settings, summaries] = await Promise.all([getReminderSettings(), getOpenSummaries()]);
+  const now = Date.now();
+  const due: DueReminder[] = [];
+  for (const summary of summaries) {
+    const when = nextReminderTime(summary, settings, now);
+    if (when === null || when > now + DUE_TOLERANCE_MS) continue;
+    const updated = await updateSummary(summary.id, { lastRemindedAt: new Date(now).toISOString() });
+    if (!updated) continue;
+    const daysUntilDue = daysUntil(summary.dueDate!, now);
+    due.push({
+      summary: updated,
+      kind: daysUntilDue < 0 ? "overdue" : daysUntilDue === 0 ? "due_today" : "upcoming",
+      daysUntilDue,
+    });
+    scheduleSummary(updated, settings, now);
+  }
+  return due;
+}
+
+export async function snoozeReminder(summaryId: number, minutes?: number): Promise<void> {
+  const settings = await getReminderSettings();
+  const snoozedUntil = new Date(Date.now() + (minutes ?? settings.snoozeMinutes) * 60 * 1000).toISOString();
+  const updated = await updateSummary(summaryId, { snoozedUntil });
+  if (!updated) throw new Error(`Summary ${summaryId} does not exist`);
+  scheduleSummary(updated, settings, Date.now());
+  log.info("notify", `Reminders for summary ${summaryId} snoozed until ${snoozedUntil}.`);
+}
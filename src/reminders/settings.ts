@@ -0,0 +1,33 @@
+export interface ReminderSettings {
+  offsetsDays: number[]; // Days before the due date to remind on; 0 is the due date itself
+  reminderHour: number; // Local hour reminders fire at
+  quietHoursStart: number; // Local hour quiet hours begin; equal to the end disables them
+  quietHoursEnd: number;
+  overdueRepeatHours: number; // How often an overdue bill is reminded again
+  snoozeMinutes: number; // Default snooze length
+}
+
+const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  offsetsDays: [7, 3, 1, 0],
+  reminderHour: 9,
+  quietHoursStart: 22,
+  quietHoursEnd: 8,
+  overdueRepeatHours: 24,
+  snoozeMinutes: 24 * 60,
+};
+
+export async function getReminderSettings(): Promise<ReminderSettings> {
+  const stored = await chrome.storage.local.get("reminderSettings");
+  return { ...DEFAULT_REMINDER_SETTINGS, ...(stored.reminderSettings || {}) };
+}
+
+export async function setReminderSettings(settings: Partial<ReminderSettings>): Promise<void> {
+  const current = await getReminderSettings();
+  await chrome.storage.local.set({ reminderSettings: { ...current, ...settings } });
+}
+
+export function onReminderSettingsChanged(listener: () => void) {
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === "local" && changes.reminderSettings) listener();
+  });
+}
@@ -0,0 +1,103 @@
+// ----------------------
+// Extension Settings
+// ----------------------
+// User-tunable settings, stored in chrome.storage.sync so they follow the user across
+// browsers. Pages write them directly; the service worker listens for changes and
+// applies them live (alarms are rescheduled, the engine reloads a new model).
+
+import { DEFAULT_LOCALE, isSupportedLocale } from "./extract/normalize";
+import { ExtractionMode } from "./extract/rules";
+
+// "auto" uses hybrid extraction where WebGPU is available and rules-only elsewhere.
+export type ExtractionModeSetting = "auto" | ExtractionMode;
+
+export const EXTRACTION_MODES: ExtractionModeSetting[] = ["auto", "hybrid", "llm", "rules"];
+
+export interface Settings {
+  statementKeywords: string[]; // A statement email must contain all of these
+  paymentKeywords: string[]; // A payment confirmation email must contain all of these
+  checkEmailsMinutes: number;
+  checkPaymentsMinutes: number;
+  keepAliveMinutes: number;
+  modelId: string; // web-llm prebuilt model ID
+  extractionMode: ExtractionModeSetting;
+  maxEmailContentLength: number; // Most characters of an email sent in one prompt; see extract/context.ts
+  maxSearchResults: number; // Messages fetched per search on sources without a change feed
+  locale: string; // BCP 47 tag deciding how emails write amounts and numeric dates; see extract/normalize.ts
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  statementKeywords: ["Due Date", "Amount", "Credit Card", "Statement"],
+  paymentKeywords: ["received", "credit", "payment"],
+  checkEmailsMinutes: 5,
+  checkPaymentsMinutes: 3,
+  keepAliveMinutes: 3,
+  modelId: "Qwen2-0.5B-Instruct-q4f16_1-MLC",
+  extractionMode: "auto",
+  maxEmailContentLength: 4096,
+  maxSearchResults: 5,
+  locale: DEFAULT_LOCALE,
+};
+
+const SETTINGS_KEY = "settings";
+
+// Inclusive bounds for the numeric settings.
+const NUMBER_RANGES: { [K in keyof Settings]?: [number, number] } = {
+  checkEmailsMinutes: [1, 24 * 60],
+  checkPaymentsMinutes: [1, 24 * 60],
+  keepAliveMinutes: [1, 60],
+  maxEmailContentLength: [512, 32768],
+  maxSearchResults: [1, 100],
+};
+
+// Returns one message per invalid setting; an empty list means the settings are valid.
+export function validateSettings(settings: Partial<Settings>): string[] {
+  const errors: string[] = [];
+  for (const key of ["statementKeywords", "paymentKeywords"] as const) {
+    const keywords = settings[key];
+    if (keywords === undefined) continue;
+    if (!Array.isArray(keywords) || keywords.length === 0 || keywords.some(keyword => typeof keyword !== "string" || !keyword.trim())) {
+      errors.push(`${key} must be a non-empty list of keywords`);
+    }
+  }
+  for (const [key, [min, max]] of Object.entries(NUMBER_RANGES) as [keyof Settings, [number, number]][]) {
+    const value = settings[key];
+    if (value === undefined) continue;
+    if (typeof value !== "number" || !Number.isInteger(value) || value < min || value > max) {
+      errors.push(`${key} must be a whole number from ${min} to ${max}`);
+    }
+  }
+  if (settings.modelId !== undefined && (typeof settings.modelId !== "string" || !settings.modelId.trim())) {
+    errors.push("modelId must not be empty");
+  }
+  if (settings.extractionMode !== undefined && !EXTRACTION_MODES.includes(settings.extractionMode)) {
+    errors.push(`extractionMode must be one of ${EXTRACTION_MODES.join(", ")}`);
+  }
+  if (settings.locale !== undefined && (typeof settings.locale !== "string" || !isSupportedLocale(settings.locale))) {
+    errors.push("locale must be a language tag such as en-IN or de-DE");
+  }
+  return errors;
+}
+
+export async function getSettings(): Promise<Settings> {
+  const stored = await chrome.storage.sync.get(SETTINGS_KEY);
+  const settings = { ...DEFAULT_SETTINGS, ...(stored[SETTINGS_KEY] || {}) };
+  // Settings saved by an older version may no longer be valid; fall back to the defaults.
+  return validateSettings(settings).length === 0 ? settings : { ...DEFAULT_SETTINGS };
+}
+
+export async function setSettings(changes: Partial<Settings>): Promise<void> {
+  const errors = validateSettings(changes);
+  if (errors.length > 0) throw new Error(errors.join("; "));
+  const current = await getSettings();
+  await chrome.storage.sync.set({ [SETTINGS_KEY]: { ...current, ...changes } });
+}
+
+// Calls `listener` with the old and new settings whenever they change in any context.
+export function onSettingsChanged(listener: (settings: Settings, previous: Settings) => void) {
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName !== "sync" || !changes[SETTINGS_KEY]) return;
+    const { oldValue, newValue } = changes[SETTINGS_KEY];
+    listener({ ...DEFAULT_SETTINGS, ...(newValue || {}) }, { ...DEFAULT_SETTINGS, ...(oldValue || {}) });
+  });
+}
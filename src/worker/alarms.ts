@@ -0,0 +1,49 @@
+import { AUTO_LOCK_ALARM, lockVault, VaultLockedError } from "../db/vault";
+import { log } from "../diagnostics/log";
+import { getActiveMailSources } from "../mail/sources";
+import { notifyReminders, sendNotification } from "../reminders/notifications";
+import { collectDueReminders, isReminderAlarm } from "../reminders/scheduler";
+import { Settings } from "../settings";
+import { checkEmails, checkPaymentSuccessEmails } from "./queue";
+
+// ----------------------
+// Alarms
+// ----------------------
+// Creating an alarm under an existing name replaces it, so this also reschedules.
+export function scheduleAlarms(settings: Settings) {
+  chrome.alarms.create("keepAlive", { periodInMinutes: settings.keepAliveMinutes });
+  chrome.alarms.create("checkEmails", { periodInMinutes: settings.checkEmailsMinutes });
+  chrome.alarms.create("checkPaymentSuccess", { periodInMinutes: settings.checkPaymentsMinutes });
+}
+
+// Resolves once the work the alarm started is done.
+export async function handleAlarm(alarm: chrome.alarms.Alarm): Promise<void> {
+  if (alarm.name === "checkEmails") {
+    log.info("system", "Alarm triggered: checkEmails");
+    await checkEmails(await getActiveMailSources(false));
+  }
+  if (isReminderAlarm(alarm.name)) {
+    log.info("system", `Alarm triggered: ${alarm.name}`);
+    await collectDueReminders()
+      .then(notifyReminders)
+      .catch((error) => {
+        // Locked bills cannot be named, so the reminder only says that one is due.
+        if (error instanceof VaultLockedError) sendNotification("Bill reminder", "A bill is due soon. Unlock Bill Tracker to see which one.");
+        else log.error("notify", "Error sending reminders", { data: error });
+      });
+  }
+  if (alarm.name === AUTO_LOCK_ALARM) {
+    log.info("system", "Alarm triggered: auto-lock");
+    await lockVault();
+  }
+  if (alarm.name === "checkPaymentSuccess") {
+    log.info("system", "Alarm triggered: checkPaymentSuccess");
+    await checkPaymentSuccessEmails(await getActiveMailSources(false));
+  }
+  if (alarm.name === "keepAlive") {
+    log.debug("system", "Alarm triggered: keepAlive");
+    chrome.runtime.getPlatformInfo((info) => {
+      log.debug("system", `Service worker is still active. Platform: ${info.os}`);
+    });
+  }
+}
@@ -0,0 +1,112 @@
+import { CreateMLCEngine, ExtensionServiceWorkerMLCEngineHandler, InitProgressReport, MLCEngine } from "@mlc-ai/web-llm";
+import { log } from "../diagnostics/log";
+import { EngineState } from "../protocol";
+import { getSettings } from "../settings";
+import { broadcast } from "./events";
+
+// ----------------------
+// Engine
+// ----------------------
+// The service worker owns the only MLCEngine. The extraction pipeline, the model
+// manager and pages connected through web-llm's service worker handler all share it.
+let handler: ExtensionServiceWorkerMLCEngineHandler | undefined;
+let engine: MLCEngine | null = null;
+let loadedModelId: string | null = null;
+let engineState: EngineState = "idle";
+let engineLoad: Promise<void> | undefined; // Set while the engine is loading or reloading
+let engineProgress: string | undefined;
+
+export function getEngineStatus(): { state: EngineState; progress?: string; loadedModelId: string | null } {
+  return { state: engineState, progress: engineProgress, loadedModelId };
+}
+
+// Pages using CreateExtensionServiceWorkerMLCEngine talk to the engine over this port.
+export function connectEnginePort(port: chrome.runtime.Port) {
+  if (!handler) {
+    log.debug("llm", "Initializing new MLCEngineHandler");
+    handler = new ExtensionServiceWorkerMLCEngineHandler(port);
+    if (engine) handler.engine = engine;
+  } else {
+    log.debug("llm", "Reusing existing MLCEngineHandler");
+    handler.setPort(port);
+  }
+  port.onMessage.addListener(handler.onmessage.bind(handler));
+}
+
+function reportEngineProgress(report: InitProgressReport) {
+  engineProgress = report.text;
+  broadcast({ type: "engineProgress", state: "loading", progress: report.progress, text: report.text });
+}
+
+export function hasWebGPU(): boolean {
+  return typeof navigator !== "undefined" && "gpu" in navigator;
+}
+
+export function initializeEngine(modelId?: string): Promise<void> {
+  if (engine) {
+    log.debug("llm", "Engine already loaded; reusing existing engine.");
+    return Promise.resolve();
+  }
+  if (!engineLoad) engineLoad = loadEngine(modelId).finally(() => { engineLoad = undefined; });
+  return engineLoad;
+}
+
+async function loadEngine(modelId?: string) {
+  if (!hasWebGPU()) {
+    engineState = "failed";
+    broadcast({ type: "engineProgress", state: "failed", progress: 0, text: "WebGPU is not available" });
+    log.warn("llm", "WebGPU is not available; statements are extracted with rules only.");
+    return;
+  }
+  try {
+    log.info("llm", "Loading model...");
+    engineState = "loading";
+    modelId = modelId || (await getSettings()).modelId;
+    engine = await CreateMLCEngine(modelId, { initProgressCallback: reportEngineProgress });
+    loadedModelId = modelId;
+    engineState = "ready";
+    // Pages using CreateExtensionServiceWorkerMLCEngine share this engine instead of loading their own.
+    if (handler) handler.engine = engine;
+    broadcast({ type: "engineProgress", state: "ready", progress: 1, text: "Model loaded" });
+    log.info("llm", `Model ${modelId} loaded successfully`);
+  } catch (error) {
+    engineState = "failed";
+    broadcast({ type: "engineProgress", state: "failed", progress: 0, text: String(error) });
+    log.error("llm", "Error loading model", { data: error });
+  }
+}
+
+// Resolves with the engine once it is usable, or with null straight away when it
+// cannot load on this machine. A failed load is not retried until the model changes
+// or the service worker restarts, so extraction falls back to rules instead of waiting.
+export async function getEngine(): Promise<MLCEngine | null> {
+  if (engineLoad) await engineLoad;
+  if (engineState === "idle") await initializeEngine();
+  return engineState === "ready" ? engine : null;
+}
+
+// Switches the loaded engine to another model, e.g. after the model setting changed.
+export async function reloadEngine(modelId: string) {
+  if (!engine) {
+    await initializeEngine(modelId);
+    return;
+  }
+  if (loadedModelId === modelId && engineState === "ready") return;
+  const loaded = engine;
+  engineLoad = (async () => {
+    try {
+      log.info("llm", `Reloading engine with ${modelId}...`);
+      engineState = "loading";
+      await loaded.reload(modelId);
+      loadedModelId = modelId;
+      engineState = "ready";
+      broadcast({ type: "engineProgress", state: "ready", progress: 1, text: "Model loaded" });
+      log.info("llm", `Model ${modelId} reloaded successfully`);
+    } catch (error) {
+      engineState = "failed";
+      broadcast({ type: "engineProgress", state: "failed", progress: 0, text: String(error) });
+      log.error("llm", "Error reloading model", { data: error });
+    }
+  })().finally(() => { engineLoad = undefined; });
+  await engineLoad;
+}
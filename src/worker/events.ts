@@ -0,0 +1,19 @@
+import { BackgroundEvent, PROTOCOL_VERSION } from "../protocol";
+
+// ----------------------
+// Page Events
+// ----------------------
+// Extension pages connect a port named EVENTS_PORT_NAME to receive engine progress,
+// queue progress and extraction results as they happen.
+const eventPorts = new Set<chrome.runtime.Port>();
+
+export function addEventPort(port: chrome.runtime.Port) {
+  eventPorts.add(port);
+  port.onDisconnect.addListener(() => eventPorts.delete(port));
+}
+
+export function broadcast(event: BackgroundEvent) {
+  for (const port of eventPorts) {
+    port.postMessage({ version: PROTOCOL_VERSION, event });
+  }
+}
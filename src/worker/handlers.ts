@@ -0,0 +1,338 @@
+import { removeAccountData } from "../db/accounts";
+import { countLedgerEntries, getLedgerEntry, requeueFailedMessages } from "../db/ledger";
+import {
+  deleteSummary,
+  editSummary,
+  getPendingPayments,
+  markSummaryPaid,
+  markSummaryUnpaid,
+  resolvePayment,
+  SummaryEdits,
+} from "../db/reconcile";
+import { getPaymentSummariesFromIndexedDB, getSummary, importPaymentSummaries } from "../db/summaries";
+import {
+  changePassphrase,
+  disableEncryption,
+  enableEncryption,
+  getVaultStatus,
+  lockVault,
+  setAutoLockMinutes,
+  unlockVault,
+} from "../db/vault";
+import { createDebugBundle } from "../diagnostics/bundle";
+import { clearLog, getLogEntries, log } from "../diagnostics/log";
+import { exportSummaries, parseBackup } from "../export/backup";
+import { parseAmount, parseDate } from "../extract/normalize";
+import { deleteUserPasswordRule, getPasswordProfile, getUserPasswordRules, savePasswordProfile, saveUserPasswordRule } from "../extract/pdfPasswords";
+import { deleteUserTemplate, getUserTemplates, saveUserTemplate } from "../extract/templateStore";
+import { addGmailAccount, getGmailAccounts, getProfileEmail, removeGmailAccount } from "../mail/accounts";
+import { LocalMailSource } from "../mail/local";
+import { decodeBase64ToBytes } from "../mail/mime";
+import { getMailSourceConfig } from "../mail/sources";
+import { MailSource } from "../mail/types";
+import { BenchmarkResult, runBenchmark } from "../model/benchmark";
+import { deleteCachedModel, findModelRecord, getModelDownloadSizeMB, listModels } from "../model/manager";
+import {
+  BackgroundStatus,
+  ProtocolRequest,
+  ProtocolResult,
+  RequestType,
+  ResponseEnvelope,
+  SummaryEditRequest,
+  SummaryView,
+} from "../protocol";
+import { rebuildReminderSchedule, snoozeReminder } from "../reminders/scheduler";
+import { getReminderSettings } from "../reminders/settings";
+import { getSettings, setSettings } from "../settings";
+import { getEngine, getEngineStatus, hasWebGPU, reloadEngine } from "./engine";
+import { checkEmails, checkPaymentSuccessEmails, getLastResult, isQueueRunning, processQueue, retryPasswordProtectedEmails } from "./queue";
+
+// ----------------------
+// Model Manager
+// ----------------------
+// Loads the model, benchmarks it on the fixture email and makes it the extraction
+// model. The engine is shared with the pipeline, so switching is refused while the
+// queue is being processed.
+async function switchModel(modelId: string): Promise<BenchmarkResult> {
+  if (!findModelRecord(modelId)) throw new Error(`Unknown model: ${modelId}`);
+  if (isQueueRunning()) throw new Error("Emails are being processed; try again when they are done");
+  const started = performance.now();
+  await reloadEngine(modelId);
+  const engine = await getEngine();
+  if (!engine || getEngineStatus().loadedModelId !== modelId) throw new Error(`Could not load ${modelId}`);
+  const loadMs = Math.round(performance.now() - started);
+  const benchmark = await runBenchmark(engine, modelId, (await getSettings()).maxEmailContentLength);
+  // The settings listener sees the model is already loaded and leaves the engine alone.
+  await setSettings({ modelId });
+  log.info("llm", `Switched to ${modelId}`, { data: benchmark });
+  return { ...benchmark, loadMs };
+}
+
+// ----------------------
+// Mail Checks
+// ----------------------
+// Runs both pipelines without holding up the request; failures go to the log.
+function checkAllEmails(sources?: MailSource[]): void {
+  checkEmails(sources)
+    .then(() => checkPaymentSuccessEmails(sources))
+    .catch(error => log.error("system", "Error checking emails", { data: error }));
+}
+
+// Statements waiting for a PDF password are read again once the passwords change.
+function retryPasswordProtected(): void {
+  retryPasswordProtectedEmails()
+    .catch(error => log.error("system", "Error reading emails waiting for a PDF password", { data: error }));
+}
+
+// ----------------------
+// Encryption
+// ----------------------
+const MIN_PASSPHRASE_LENGTH = 8;
+const MAX_AUTO_LOCK_MINUTES = 1440;
+
+function checkPassphrase(passphrase: string) {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) throw new Error(`The passphrase needs at least ${MIN_PASSPHRASE_LENGTH} characters`);
+}
+
+function checkAutoLockMinutes(minutes: number) {
+  if (!Number.isInteger(minutes) || minutes < 0 || minutes > MAX_AUTO_LOCK_MINUTES) {
+    throw new Error(`Auto-lock must be between 0 and ${MAX_AUTO_LOCK_MINUTES} minutes`);
+  }
+}
+
+// Re-encryption rewrites every bill, so it waits for the queue to finish.
+function checkQueueIdle() {
+  if (isQueueRunning()) throw new Error("Emails are being processed; try again when they are done");
+}
+
+// Runs what waited for the bills to be unlocked: the mail checks, which also process
+// the queued emails, and the reminders.
+async function afterUnlock(): Promise<void> {
+  checkAllEmails();
+  await rebuildReminderSchedule();
+}
+
+// ----------------------
+// Dashboard
+// ----------------------
+async function getSummaryViews(): Promise<SummaryView[]> {
+  const summaries = await getPaymentSummariesFromIndexedDB();
+  return Promise.all(summaries.map(async (summary) => {
+    const entry = summary.sourceMessageId ? await getLedgerEntry("statements", summary.sourceMessageId) : undefined;
+    return { ...summary, sourceLink: entry?.link };
+  }));
+}
+
+// Amounts are read in the bill's currency and the user's locale, so "1.234,56" edits a
+// euro bill the way a German statement writes it.
+function parseSummaryEdits(request: SummaryEditRequest, currency: string, locale: string): SummaryEdits {
+  const edits: SummaryEdits = {};
+  if (request.bankName !== undefined) {
+    if (!request.bankName.trim()) throw new Error("Bank name cannot be empty");
+    edits.bankName = request.bankName;
+  }
+  if (request.amount !== undefined) {
+    const amount = parseAmount(request.amount, currency, locale);
+    if (!amount || amount.amountMinor < 0) throw new Error(`"${request.amount}" is not a valid amount`);
+    edits.amountMinor = amount.amountMinor;
+  }
+  if (request.dueDate !== undefined) {
+    const dueDate = parseDate(request.dueDate, { locale });
+    if (!dueDate) throw new Error(`"${request.dueDate}" is not a valid date`);
+    edits.dueDate = dueDate;
+  }
+  return edits;
+}
+
+// ----------------------
+// Request Handlers
+// ----------------------
+// Handlers for every protocol request; the mapped type keeps them in sync with ProtocolMap.
+const requestHandlers: { [T in RequestType]: (request: ProtocolRequest<T>) => Promise<ProtocolResult<T>> } = {
+  getStatus: async (): Promise<BackgroundStatus> => ({
+    engineState: getEngineStatus().state,
+    engineProgress: getEngineStatus().progress,
+    queuedMessages: await countLedgerEntries("queued"),
+    lastResult: getLastResult(),
+  }),
+  checkEmails: async () => {
+    checkAllEmails();
+    return {};
+  },
+  // Run the statement and payment pipelines over an imported .eml/mbox file.
+  importMail: async (request) => {
+    const source = new LocalMailSource();
+    const count = source.addFile(request.fileName, decodeBase64ToBytes(request.content));
+    if (count === 0) throw new Error(`No messages found in ${request.fileName}`);
+    checkAllEmails([source]);
+    return { count };
+  },
+  // Requeue failed extractions and run them again.
+  retryFailed: async () => {
+    const count = await requeueFailedMessages();
+    if (count > 0) processQueue();
+    return { count };
+  },
+  getSummaries: async () => ({ summaries: await getSummaryViews() }),
+  editSummary: async (request) => {
+    const current = await getSummary(request.summaryId);
+    if (!current) throw new Error(`Summary ${request.summaryId} does not exist`);
+    const summary = await editSummary(request.summaryId, parseSummaryEdits(request, current.currency, (await getSettings()).locale));
+    if (!summary) throw new Error(`Summary ${request.summaryId} does not exist`);
+    await rebuildReminderSchedule();
+    return { summary };
+  },
+  deleteSummary: async (request) => {
+    await deleteSummary(request.summaryId);
+    await rebuildReminderSchedule();
+    return {};
+  },
+  markPaid: async (request) => {
+    await markSummaryPaid(request.summaryId);
+    await rebuildReminderSchedule();
+    return {};
+  },
+  markUnpaid: async (request) => {
+    await markSummaryUnpaid(request.summaryId);
+    await rebuildReminderSchedule();
+    return {};
+  },
+  snoozeReminder: async (request) => {
+    await snoozeReminder(request.summaryId, request.minutes);
+    return {};
+  },
+  // Exports for spreadsheets, backups and calendars, and restoring a backup.
+  exportSummaries: async (request) => exportSummaries(request.format, await getPaymentSummariesFromIndexedDB(), await getReminderSettings()),
+  importSummaries: async (request) => {
+    const result = await importPaymentSummaries(parseBackup(request.content));
+    if (result.added > 0) await rebuildReminderSchedule();
+    return result;
+  },
+  // Gmail accounts besides the Chrome profile's. A new account is synced right away;
+  // removing one deletes everything read from its mailbox.
+  listGmailAccounts: async () => ({ profileEmail: await getProfileEmail(), accounts: await getGmailAccounts() }),
+  addGmailAccount: async () => {
+    const account = await addGmailAccount((await getMailSourceConfig()).googleClientId);
+    checkAllEmails();
+    return { account };
+  },
+  removeGmailAccount: async (request) => {
+    // The data goes first: while the bills are locked this rejects, and the account stays
+    // listed so it can be removed once they are unlocked.
+    const removed = await removeAccountData(request.email);
+    await removeGmailAccount(request.email);
+    await rebuildReminderSchedule();
+    return { removedBills: removed.summaries };
+  },
+  listModels: async () => ({
+    models: await listModels(),
+    activeModelId: (await getSettings()).modelId,
+    loadedModelId: getEngineStatus().loadedModelId,
+  }),
+  getModelDownloadSize: async (request) => ({ sizeMB: await getModelDownloadSizeMB(request.modelId) }),
+  deleteModel: async (request) => {
+    await deleteCachedModel(request.modelId);
+    return {};
+  },
+  switchModel: async (request) => ({ benchmark: await switchModel(request.modelId) }),
+  benchmarkModel: async () => {
+    const engine = await getEngine();
+    const { loadedModelId } = getEngineStatus();
+    if (!engine || !loadedModelId) throw new Error("The model is not loaded");
+    return { benchmark: await runBenchmark(engine, loadedModelId, (await getSettings()).maxEmailContentLength) };
+  },
+  // Payments whose bill the user has to pick, and the user's choice.
+  getPendingPayments: async () => ({ pending: await getPendingPayments() }),
+  resolvePayment: async (request) => {
+    await resolvePayment(request.paymentId, request.summaryId);
+    await rebuildReminderSchedule();
+    return {};
+  },
+  // The diagnostics page: the filtered log, and a redacted bundle for bug reports.
+  getLogEntries: async (request) => ({ entries: await getLogEntries(request.filter) }),
+  clearLog: async () => {
+    await clearLog();
+    return {};
+  },
+  exportDebugBundle: async () => {
+    const { state, loadedModelId } = getEngineStatus();
+    return createDebugBundle({ state, loadedModelId, webGPU: hasWebGPU() });
+  },
+  // Encryption at rest: lock state from the popup, settings from the options page.
+  getVaultStatus: async () => getVaultStatus(),
+  unlockVault: async (request) => {
+    await unlockVault(request.passphrase);
+    await afterUnlock();
+    return getVaultStatus();
+  },
+  lockVault: async () => {
+    await lockVault();
+    return getVaultStatus();
+  },
+  enableEncryption: async (request) => {
+    checkPassphrase(request.passphrase);
+    checkAutoLockMinutes(request.autoLockMinutes);
+    checkQueueIdle();
+    await enableEncryption(request.passphrase, request.autoLockMinutes);
+    return getVaultStatus();
+  },
+  changePassphrase: async (request) => {
+    checkPassphrase(request.next);
+    checkQueueIdle();
+    await changePassphrase(request.current, request.next);
+    await afterUnlock();
+    return getVaultStatus();
+  },
+  disableEncryption: async (request) => {
+    checkQueueIdle();
+    await disableEncryption(request.passphrase);
+    await afterUnlock();
+    return getVaultStatus();
+  },
+  setAutoLock: async (request) => {
+    checkAutoLockMinutes(request.minutes);
+    await setAutoLockMinutes(request.minutes);
+    return getVaultStatus();
+  },
+  // User statement templates, edited from the extension pages.
+  getStatementTemplates: async () => ({ templates: await getUserTemplates() }),
+  saveStatementTemplate: async (request) => {
+    const error = await saveUserTemplate(request.template);
+    if (error) throw new Error(error);
+    return {};
+  },
+  deleteStatementTemplate: async (request) => {
+    await deleteUserTemplate(request.id);
+    return {};
+  },
+  // Passwords of statement PDF attachments: user rules and the details they draw on.
+  getPdfPasswordRules: async () => ({ rules: await getUserPasswordRules() }),
+  savePdfPasswordRule: async (request) => {
+    const error = await saveUserPasswordRule(request.rule);
+    if (error) throw new Error(error);
+    retryPasswordProtected();
+    return {};
+  },
+  deletePdfPasswordRule: async (request) => {
+    await deleteUserPasswordRule(request.id);
+    return {};
+  },
+  getPdfPasswordProfile: async () => ({ profile: await getPasswordProfile() }),
+  savePdfPasswordProfile: async (request) => {
+    const error = await savePasswordProfile(request.profile);
+    if (error) throw new Error(error);
+    retryPasswordProtected();
+    return {};
+  },
+};
+
+export async function handleRequest<T extends RequestType>(request: ProtocolRequest<T>): Promise<ResponseEnvelope<T>> {
+  const requestHandler = requestHandlers[request.type] as (request: ProtocolRequest<T>) => Promise<ProtocolResult<T>>;
+  if (!requestHandler) return { ok: false, error: `Unknown request type: ${request.type}` };
+  try {
+    return { ok: true, result: await requestHandler(request) };
+  } catch (error) {
+    log.error("system", `Error handling ${request.type}`, { data: error });
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
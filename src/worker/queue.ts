@@ -0,0 +1,299 @@
+import {
+  countLedgerEntries,
+  getEntriesNeedingPassword,
+  getLedgerEntries,
+  getLedgerEntry,
+  hasLedgerEntry,
+  LedgerEntry,
+  NEEDS_PDF_PASSWORD,
+  PipelineStream,
+  ProcessingResult,
+  recordMessage,
+  recordNeedsPassword,
+  recordOutcome,
+} from "../db/ledger";
+import { addPayment } from "../db/payments";
+import { reconcilePayment, reconcileUnmatchedPayments } from "../db/reconcile";
+import { savePaymentSummaryToIndexedDB } from "../db/summaries";
+import { isVaultLocked, VaultLockedError } from "../db/vault";
+import { log } from "../diagnostics/log";
+import { PaymentData } from "../extract/llm";
+import { formatAmount } from "../extract/normalize";
+import { extractPayment, extractStatement, PipelineOptions } from "../extract/pipeline";
+import { getStatementTemplates } from "../extract/templateStore";
+import { getContextWindow } from "../model/manager";
+import { mayCarryStatement, withAttachmentText } from "../mail/attachments";
+import { getActiveMailSources } from "../mail/sources";
+import { MailMessage, MailSource, SyncBatch } from "../mail/types";
+import { ExtractionResultEvent } from "../protocol";
+import { sendNotification } from "../reminders/notifications";
+import { rebuildReminderSchedule } from "../reminders/scheduler";
+import { getSettings } from "../settings";
+import { getEngine, getEngineStatus, hasWebGPU } from "./engine";
+import { broadcast } from "./events";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Outcome of one extraction, with the data that was saved on success.
+type ExtractionOutcome = ProcessingResult & { paymentData?: PaymentData };
+
+// ----------------------
+// Extraction Modes
+// ----------------------
+async function pipelineOptions(messageId: string): Promise<PipelineOptions> {
+  const { extractionMode, maxEmailContentLength, modelId, locale } = await getSettings();
+  // "auto" uses hybrid extraction where a model can run, and rules elsewhere.
+  const mode = extractionMode !== "auto" ? extractionMode : hasWebGPU() && getEngineStatus().state !== "failed" ? "hybrid" : "rules";
+  const contextWindow = getContextWindow(getEngineStatus().loadedModelId || modelId);
+  return { mode, maxEmailContentLength, contextWindow, locale, templates: await getStatementTemplates(), getEngine, messageId };
+}
+
+// ----------------------
+// Mailbox Search
+// ----------------------
+// Lists candidate messages for a pipeline stream, using the source's change feed when it
+// has one, and records every message the stream has no ledger entry for: those
+// containing all of the keywords are queued for extraction, the rest are marked skipped.
+// Likely statements carry the text of their PDF attachments; see attachments.ts.
+async function enqueueNewEmails(source: MailSource, stream: PipelineStream, keywords: string[]): Promise<number> {
+  const batch: SyncBatch = source.sync
+    ? await source.sync(stream, keywords)
+    : { messageIds: await source.search(keywords, (await getSettings()).maxSearchResults), commit: async () => {} };
+  const { messageIds } = batch;
+  if (messageIds.length === 0) {
+    log.info("search", `No new relevant ${source.kind} emails found.`);
+    await batch.commit();
+    return 0;
+  }
+  log.info("search", `Found ${messageIds.length} potentially relevant ${source.kind} email(s)`);
+  let queued = 0;
+  for (let i = 0; i < messageIds.length; i++) {
+    if (await hasLedgerEntry(stream, messageIds[i]) && !await readAgainOnImport(source, stream, messageIds[i])) {
+      log.debug("search", `Email ${i + 1} of ${messageIds.length} already processed, skipping`, { messageId: messageIds[i] });
+      continue;
+    }
+    log.debug("fetch", `Fetching email ${i + 1} of ${messageIds.length}`, { messageId: messageIds[i] });
+    const fetched = await source.fetchMessage(messageIds[i]);
+    if (!fetched) continue;
+    if (await recordFetchedEmail(source, fetched, stream, keywords)) queued++;
+    if (source.fetchDelayMs > 0) await sleep(source.fetchDelayMs);
+  }
+  await batch.commit();
+  return queued;
+}
+
+// Records one fetched message for the stream and returns whether it was queued. A
+// message short of keywords while one of its PDFs stayed locked may be a statement
+// inside that PDF, so it waits for a password instead of being skipped.
+async function recordFetchedEmail(source: MailSource, fetched: MailMessage, stream: PipelineStream, keywords: string[]): Promise<boolean> {
+  // Statements often come as PDF attachments; their text counts towards the keywords.
+  const { email, needsPassword } = stream === "statements" && await mayCarryStatement(fetched, keywords)
+    ? await withAttachmentText(source, fetched)
+    : { email: fetched, needsPassword: false };
+  const emailText = `${email.subject} ${email.content}`.toLowerCase();
+  const containsAllKeywords = keywords.every(kw => emailText.includes(kw.toLowerCase()));
+  const context = { messageId: email.id, data: { subject: email.subject, from: email.sender } };
+  if (containsAllKeywords) {
+    log.info("search", "Email meets all keyword criteria; queued", context);
+  } else if (needsPassword) {
+    log.info("search", "Email may be a statement in a PDF no password opens; it is read again when the PDF passwords change", context);
+    await recordNeedsPassword(email, stream);
+    return false;
+  } else {
+    log.info("search", "Email does not contain all required keywords; skipped", context);
+  }
+  await recordMessage(email, stream, containsAllKeywords);
+  return containsAllKeywords;
+}
+
+// Imported files are not kept, so importing one again is how its emails that waited for
+// a PDF password are read again.
+async function readAgainOnImport(source: MailSource, stream: PipelineStream, messageId: string): Promise<boolean> {
+  return source.kind === "local" && (await getLedgerEntry(stream, messageId))?.error === NEEDS_PDF_PASSWORD;
+}
+
+// Reads the statements that waited for a PDF password again, after the password rules or
+// profile changed, and returns how many were queued.
+export async function retryPasswordProtectedEmails(sources?: MailSource[]): Promise<number> {
+  if (await mailLocked()) return 0;
+  const waiting = await getEntriesNeedingPassword();
+  if (waiting.length === 0) return 0;
+  const { statementKeywords } = await getSettings();
+  let queued = 0;
+  for (const source of sources || await getActiveMailSources()) {
+    try {
+      const account = await source.connect();
+      if (!account) continue;
+      for (const entry of waiting.filter(entry => entry.source === source.kind && entry.account === account)) {
+        const fetched = await source.fetchMessage(entry.messageId);
+        if (fetched && await recordFetchedEmail(source, fetched, "statements", statementKeywords)) queued++;
+        if (source.fetchDelayMs > 0) await sleep(source.fetchDelayMs);
+      }
+    } catch (error) {
+      log.error("search", `Error reading ${source.kind} emails waiting for a PDF password`, { data: error });
+    }
+  }
+  log.info("search", `${queued} of ${waiting.length} email(s) waiting for a PDF password were queued.`);
+  await processQueue();
+  return queued;
+}
+
+// ----------------------
+// Processing Queue
+// ----------------------
+let queueRunning = false;
+let lastResult: ExtractionResultEvent | undefined;
+
+export function isQueueRunning(): boolean {
+  return queueRunning;
+}
+
+export function getLastResult(): ExtractionResultEvent | undefined {
+  return lastResult;
+}
+
+// Works through every queued ledger entry once, recording each outcome. Runs one
+// message at a time because all of them share the same engine. While the bills are
+// locked, messages stay queued (and sealed); unlocking runs the queue again.
+export async function processQueue() {
+  if (queueRunning) {
+    log.debug("system", "Queue is already being processed.");
+    return;
+  }
+  queueRunning = true;
+  let billsChanged = false;
+  try {
+    if (await isVaultLocked()) {
+      const waiting = await countLedgerEntries("queued");
+      if (waiting > 0) log.info("system", `Bills are locked; ${waiting} queued email(s) wait for unlock.`);
+      return;
+    }
+    const queued = await getLedgerEntries("queued");
+    log.info("system", `${queued.length} queued email(s) to process.`);
+    for (let i = 0; i < queued.length; i++) {
+      const entry = queued[i];
+      log.info("parse", `Processing queued ${entry.stream} email: ${entry.subject}`, { messageId: entry.messageId });
+      broadcast({ type: "queueProgress", processed: i, total: queued.length, subject: entry.subject });
+      const { paymentData, ...result }: ExtractionOutcome = entry.stream === "statements"
+        ? await summarizeEmail(entry)
+        : await handlePaymentSuccess(entry);
+      const outcome = { messageId: entry.messageId, data: result.error ? { error: result.error } : undefined };
+      if (result.status === "success") log.info("save", "Extraction succeeded", outcome);
+      else log.warn("save", `Extraction ended with ${result.status}`, outcome);
+      await recordOutcome(entry, result);
+      lastResult = { type: "extractionResult", messageId: entry.messageId, subject: entry.subject, result, paymentData };
+      broadcast(lastResult);
+      if (result.status === "success") billsChanged = true;
+    }
+    broadcast({ type: "queueProgress", processed: queued.length, total: queued.length });
+  } catch (error) {
+    if (error instanceof VaultLockedError) log.info("system", "Bills were locked while processing; the remaining emails wait for unlock.");
+    else log.error("system", "Error processing queue", { data: error });
+  } finally {
+    queueRunning = false;
+  }
+  // New statements and reconciled payments both change which reminders are due.
+  if (billsChanged) {
+    await rebuildReminderSchedule().catch(error => log.error("notify", "Error rebuilding the reminder schedule", { data: error }));
+  }
+}
+
+// ----------------------
+// Email Summarization
+// ----------------------
+// Ledger entries are sealed with the bills, so no mail is read while they are locked:
+// the sync cursors stay where they are and unlocking checks the mail again.
+async function mailLocked(): Promise<boolean> {
+  if (!await isVaultLocked()) return false;
+  log.info("search", "Bills are locked; new emails are checked after unlock.");
+  return true;
+}
+
+export async function checkEmails(sources?: MailSource[]) {
+  if (await mailLocked()) return;
+  for (const source of sources || await getActiveMailSources()) {
+    try {
+      const account = await source.connect();
+      if (!account) continue;
+      log.info("search", `Checking ${source.kind} emails for ${account}`);
+      const queued = await enqueueNewEmails(source, "statements", (await getSettings()).statementKeywords);
+      if (queued === 0) {
+        log.info("search", "No new emails met all keyword criteria.");
+      } else {
+        log.info("search", `${queued} new email(s) matched all keywords and were queued.`);
+      }
+    } catch (error) {
+      log.error("search", `Error checking ${source.kind} emails`, { data: error });
+    }
+  }
+  await processQueue();
+}
+
+// Process email content and summarize it (in the background).
+async function summarizeEmail(entry: LedgerEntry): Promise<ExtractionOutcome> {
+  const emailContent = entry.content || "";
+  try {
+    const extraction = await extractStatement(emailContent, entry.sender, await pipelineOptions(entry.messageId));
+    if (!extraction.ok) return { status: "parse_failure", error: extraction.error, rawOutput: extraction.rawOutput };
+    const saved = await savePaymentSummaryToIndexedDB({ ...extraction.record, sourceMessageId: entry.messageId, account: entry.account });
+    // Payments that arrived before this statement can be matched now.
+    if (saved) await reconcileUnmatchedPayments();
+    return { status: "success", paymentData: extraction.data };
+  } catch (error) {
+    // The message stays queued until the bills are unlocked.
+    if (error instanceof VaultLockedError) throw error;
+    log.error("save", "Error summarizing email", { messageId: entry.messageId, data: error });
+    return { status: "error", error: String(error) };
+  }
+}
+
+// ----------------------
+// New Functionality: Check for Payment Success Emails and Reconcile Payments
+// ----------------------
+
+// This function checks for emails indicating a successful payment using a different set of keywords.
+export async function checkPaymentSuccessEmails(sources?: MailSource[]) {
+  if (await mailLocked()) return;
+  for (const source of sources || await getActiveMailSources()) {
+    try {
+      const account = await source.connect();
+      if (!account) continue;
+      log.info("search", `Checking for ${source.kind} payment success emails for ${account}`);
+      const queued = await enqueueNewEmails(source, "payments", (await getSettings()).paymentKeywords);
+      if (queued === 0) {
+        log.info("search", "No new payment success emails met criteria.");
+      } else {
+        log.info("search", `${queued} new payment success email(s) matched criteria and were queued.`);
+      }
+    } catch (error) {
+      log.error("search", `Error checking ${source.kind} payment success emails`, { data: error });
+    }
+  }
+  await processQueue();
+}
+
+// This function processes a payment success email: the payment is extracted, recorded
+// and reconciled against open bills.
+async function handlePaymentSuccess(entry: LedgerEntry): Promise<ProcessingResult> {
+  try {
+    const extraction = await extractPayment(entry.content || "", entry.sender, await pipelineOptions(entry.messageId));
+    if (!extraction.ok) return { status: "parse_failure", error: extraction.error, rawOutput: extraction.rawOutput };
+    const payment = await addPayment({
+      ...extraction.record,
+      paidOn: extraction.record.paidOn || entry.receivedAt?.substring(0, 10),
+      sourceMessageId: entry.messageId,
+      account: entry.account,
+    });
+    const outcome = await reconcilePayment(payment);
+    const amount = formatAmount(payment);
+    log.info("save", `Payment is ${outcome.status}.`, { messageId: entry.messageId });
+    if (outcome.status === "needs_confirmation") {
+      sendNotification("Confirm a payment", `Which bill did your payment of ${amount} pay? Open the extension to choose.`);
+    }
+    return { status: "success" };
+  } catch (error) {
+    if (error instanceof VaultLockedError) throw error;
+    log.error("save", "Error processing payment success email", { messageId: entry.messageId, data: error });
+    return { status: "error", error: String(error) };
+  }
+}
@@ -0,0 +1,165 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { removeAccountData } from "../src/db/accounts";
+import { getLedgerEntries, recordMessage } from "../src/db/ledger";
+import { addPayment, getPayments } from "../src/db/payments";
+import { reconcilePayment } from "../src/db/reconcile";
+import { getPaymentSummariesFromIndexedDB, savePaymentSummaryToIndexedDB } from "../src/db/summaries";
+import { addGmailAccount, getGmailAccounts, getGmailAccountToken, gmailAccountAuth, removeGmailAccount } from "../src/mail/accounts";
+import { GmailSource } from "../src/mail/gmail";
+import { getMicrosoftToken } from "../src/mail/outlook";
+import { setMailSourceConfig } from "../src/mail/sources";
+import { handleAlarm } from "../src/worker/alarms";
+import { checkEmails } from "../src/worker/queue";
+import { FakeChrome, installFakeChrome } from "./fakes/chrome";
+import { FakeGmailServer } from "./fakes/gmailServer";
+
+const CLIENT_ID = "web-client-id.apps.googleusercontent.com";
+const OUTLOOK_CLIENT_ID = "00000000-0000-0000-0000-000000000000";
+
+const HDFC_STATEMENT = `Your HDFC Bank Credit Card statement is ready.
+
+Card Number: XXXX XXXX XXXX 4821
+Statement Date: 15/03/2025
+Payment Due Date: 04/04/2025
+Total Amount Due: Rs. 23,456.78
+Minimum Amount Due: Rs. 1,180.00`;
+
+describe("Gmail accounts", () => {
+  let fake: FakeChrome;
+  let gmail: FakeGmailServer;
+
+  beforeEach(async () => {
+    fake = installFakeChrome();
+    gmail = new FakeGmailServer();
+    gmail.email = "second@example.com";
+    await gmail.start();
+    gmail.redirectGoogleApis();
+    fake.webAuthFlow = () => `https://fake-extension-id.chromiumapp.org/#access_token=${gmail.token}&token_type=Bearer&expires_in=3600`;
+  });
+
+  afterEach(async () => {
+    await gmail.stop();
+  });
+
+  it("adds an account through the web auth flow and syncs it on its own", async () => {
+    const account = await addGmailAccount(CLIENT_ID);
+    expect(account.email).toBe("second@example.com");
+    expect(await getGmailAccounts()).toEqual([account]);
+    const [authUrl] = fake.webAuthUrls;
+    expect(authUrl.searchParams.get("client_id")).toBe(CLIENT_ID);
+    expect(authUrl.searchParams.get("prompt")).toBe("select_account");
+    expect(authUrl.searchParams.get("redirect_uri")).toBe("https://fake-extension-id.chromiumapp.org/");
+
+    const statement = gmail.addMessage({ from: "HDFC Bank <alerts@hdfcbank.net>", subject: "Credit Card Statement", body: HDFC_STATEMENT });
+    const source = Object.assign(new GmailSource(90, gmailAccountAuth(CLIENT_ID, account)), { fetchDelayMs: 0 });
+    await checkEmails([source]);
+
+    const [summary] = await getPaymentSummariesFromIndexedDB();
+    expect(summary).toMatchObject({ bankName: "HDFC Bank", account: "second@example.com", sourceMessageId: statement.id });
+    const [entry] = await getLedgerEntries();
+    expect(entry.link).toBe(`https://mail.google.com/mail/u/second%40example.com/#all/${statement.id}`);
+    expect(fake.storage.local.items.get("gmailSync:second@example.com:statements")).toMatchObject({ backfillComplete: true });
+    expect(fake.storage.local.items.has("gmailSync:statements")).toBe(false);
+    // The token from sign-in was reused.
+    expect(fake.webAuthUrls).toHaveLength(1);
+  });
+
+  it("refuses the Chrome profile's own account", async () => {
+    fake.profileEmail = "second@example.com";
+    await expect(addGmailAccount(CLIENT_ID)).rejects.toThrow("second@example.com is this Chrome profile's account");
+    expect(await getGmailAccounts()).toEqual([]);
+  });
+
+  it("renews expired tokens without prompting", async () => {
+    await fake.storage.session.set({ "gmailToken:second@example.com": { accessToken: "old", expiresAt: Date.now() - 1000 } });
+    expect(await getGmailAccountToken(CLIENT_ID, "second@example.com", false)).toBe(gmail.token);
+    const [authUrl] = fake.webAuthUrls;
+    expect(authUrl.searchParams.get("prompt")).toBe("none");
+    expect(authUrl.searchParams.get("login_hint")).toBe("second@example.com");
+
+    fake.webAuthFlow = null;
+    await fake.storage.session.clear();
+    expect(await getGmailAccountToken(CLIENT_ID, "second@example.com", false)).toBeNull();
+    expect(fake.webAuthUrls).toHaveLength(2);
+  });
+
+  it("never asks to sign in during an alarm-driven check", async () => {
+    const account = await addGmailAccount(CLIENT_ID);
+    await setMailSourceConfig({ googleClientId: CLIENT_ID });
+    await fake.storage.session.remove(`gmailToken:${account.email}`);
+    fake.interactiveSignIns = 0;
+    fake.webAuthFlow = null;
+    fake.authToken = null;
+
+    await handleAlarm({ name: "checkEmails", scheduledTime: Date.now() });
+
+    // Both the Chrome profile's account and the added one tried to renew silently.
+    expect(fake.webAuthUrls.at(-1)?.searchParams.get("prompt")).toBe("none");
+    expect(fake.interactiveSignIns).toBe(0);
+  });
+
+  it("forgets the account's token and sync cursors when it is removed", async () => {
+    const account = await addGmailAccount(CLIENT_ID);
+    await fake.storage.local.set({ "gmailSync:second@example.com:statements": { backfillComplete: true }, "gmailSync:statements": { backfillComplete: true } });
+
+    await removeGmailAccount(account.email);
+
+    expect(await getGmailAccounts()).toEqual([]);
+    expect(fake.storage.session.items.size).toBe(0);
+    expect([...fake.storage.local.items.keys()].filter(key => key.startsWith("gmailSync:"))).toEqual(["gmailSync:statements"]);
+  });
+});
+
+describe("Outlook sign-in", () => {
+  let fake: FakeChrome;
+
+  beforeEach(() => {
+    fake = installFakeChrome();
+    fake.webAuthFlow = () => "https://fake-extension-id.chromiumapp.org/#access_token=outlook-token&token_type=Bearer&expires_in=3600";
+  });
+
+  it("reuses its token until it expires, then renews it without prompting", async () => {
+    expect(await getMicrosoftToken(OUTLOOK_CLIENT_ID, false)).toBe("outlook-token");
+    expect(await getMicrosoftToken(OUTLOOK_CLIENT_ID, true)).toBe("outlook-token");
+    expect(fake.webAuthUrls).toHaveLength(1);
+    expect(fake.webAuthUrls[0].searchParams.get("prompt")).toBe("none");
+
+    await fake.storage.session.set({ [`outlookToken:${OUTLOOK_CLIENT_ID}`]: { accessToken: "old", expiresAt: Date.now() - 1000 } });
+    expect(await getMicrosoftToken(OUTLOOK_CLIENT_ID, false)).toBe("outlook-token");
+    expect(fake.webAuthUrls).toHaveLength(2);
+  });
+
+  it("asks the user to sign in only when the check is interactive", async () => {
+    fake.webAuthFlow = url => url.searchParams.get("prompt") === "none" ? null : "https://fake-extension-id.chromiumapp.org/#access_token=outlook-token&expires_in=3600";
+
+    expect(await getMicrosoftToken(OUTLOOK_CLIENT_ID, false)).toBeNull();
+    expect(fake.webAuthUrls).toHaveLength(1);
+    expect(await getMicrosoftToken(OUTLOOK_CLIENT_ID, true)).toBe("outlook-token");
+    expect(fake.webAuthUrls).toHaveLength(3);
+  });
+});
+
+describe("removeAccountData", () => {
+  beforeEach(() => {
+    installFakeChrome();
+  });
+
+  it("removes the account's bills, payments and messages and unwinds payments across accounts", async () => {
+    await savePaymentSummaryToIndexedDB({ bankName: "HDFC Bank", cardLast4: "4821", statementPeriod: "2025-03", amountMinor: 500000, currency: "INR", dueDate: "2025-04-04", account: "gone@example.com" });
+    await savePaymentSummaryToIndexedDB({ bankName: "Axis Bank", cardLast4: "1234", statementPeriod: "2025-03", amountMinor: 300000, currency: "INR", dueDate: "2025-04-09", account: "kept@example.com" });
+    const [, axis] = await getPaymentSummariesFromIndexedDB();
+    // A payment read from the removed mailbox paid the kept bill, and the other way round.
+    await reconcilePayment(await addPayment({ amountMinor: 100000, currency: "INR", paidOn: "2025-04-01", bankName: "Axis Bank", cardLast4: "1234", sourceMessageId: "pay-axis", account: "gone@example.com" }));
+    await reconcilePayment(await addPayment({ amountMinor: 500000, currency: "INR", paidOn: "2025-04-01", bankName: "HDFC Bank", cardLast4: "4821", sourceMessageId: "pay-hdfc", account: "kept@example.com" }));
+    for (const [id, account] of [["msg-gone", "gone@example.com"], ["msg-kept", "kept@example.com"]]) {
+      await recordMessage({ id, source: "gmail", account, subject: "Statement", sender: "bank", content: "" }, "statements", false);
+    }
+    expect((await getPaymentSummariesFromIndexedDB()).map(summary => summary.status)).toEqual(["paid", "partially_paid"]);
+
+    expect(await removeAccountData("gone@example.com")).toEqual({ summaries: 1, payments: 1, messages: 1 });
+
+    expect(await getPaymentSummariesFromIndexedDB()).toEqual([expect.objectContaining({ id: axis.id, paidMinor: 0, status: "unpaid" })]);
+    expect(await getPayments()).toEqual([expect.objectContaining({ sourceMessageId: "pay-hdfc", status: "unmatched", summaryId: undefined })]);
+    expect((await getLedgerEntries()).map(entry => entry.messageId)).toEqual(["msg-kept"]);
+  });
+});
@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getPaymentSummariesFromIndexedDB, NewPaymentSummary, savePaymentSummaryToIndexedDB } from "../src/db/summaries";
+import { handleNotificationButton, handleNotificationClick } from "../src/reminders/notifications";
+import { rebuildReminderSchedule } from "../src/reminders/scheduler";
+import { DEFAULT_SETTINGS } from "../src/settings";
+import { handleAlarm, scheduleAlarms } from "../src/worker/alarms";
+import { checkEmails, checkPaymentSuccessEmails } from "../src/worker/queue";
+import { EXTENSION_ORIGIN, FakeChrome, installFakeChrome } from "./fakes/chrome";
+
+// The mail pipeline has its own tests; here only the dispatch to it matters.
+vi.mock("../src/worker/queue", () => ({
+  checkEmails: vi.fn(async () => {}),
+  checkPaymentSuccessEmails: vi.fn(async () => {}),
+}));
+
+function localDate(offsetDays: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() + offsetDays);
+  return [date.getFullYear(), date.getMonth() + 1, date.getDate()].map(part => String(part).padStart(2, "0")).join("-");
+}
+
+function bill(bankName: string, dueInDays: number): NewPaymentSummary {
+  return {
+    bankName,
+    statementPeriod: localDate(dueInDays - 20).substring(0, 7),
+    amountMinor: 500000,
+    currency: "INR",
+    dueDate: localDate(dueInDays),
+    sourceMessageId: `statement-${bankName}`,
+  };
+}
+
+async function fireReminder(summaryId: number) {
+  await handleAlarm({ name: `reminder:${summaryId}`, scheduledTime: Date.now() });
+}
+
+describe("alarms", () => {
+  let fake: FakeChrome;
+
+  beforeEach(async () => {
+    fake = installFakeChrome();
+    vi.mocked(checkEmails).mockClear();
+    vi.mocked(checkPaymentSuccessEmails).mockClear();
+    // No quiet hours, so reminders are due whatever time the tests run.
+    await fake.chrome.storage.local.set({ reminderSettings: { quietHoursStart: 0, quietHoursEnd: 0 } });
+  });
+
+  it("schedules the polling alarms from the settings", () => {
+    scheduleAlarms({ ...DEFAULT_SETTINGS, checkEmailsMinutes: 15 });
+    expect(fake.alarms.get("checkEmails")?.periodInMinutes).toBe(15);
+    expect(fake.alarms.get("checkPaymentSuccess")?.periodInMinutes).toBe(DEFAULT_SETTINGS.checkPaymentsMinutes);
+    expect(fake.alarms.get("keepAlive")?.periodInMinutes).toBe(DEFAULT_SETTINGS.keepAliveMinutes);
+  });
+
+  it("runs the statement and payment checks on their alarms", async () => {
+    await handleAlarm({ name: "checkEmails", scheduledTime: Date.now() });
+    expect(checkEmails).toHaveBeenCalledTimes(1);
+    expect(checkPaymentSuccessEmails).not.toHaveBeenCalled();
+    await handleAlarm({ name: "checkPaymentSuccess", scheduledTime: Date.now() });
+    expect(checkPaymentSuccessEmails).toHaveBeenCalledTimes(1);
+  });
+
+  it("answers the keep-alive alarm without other work", async () => {
+    await handleAlarm({ name: "keepAlive", scheduledTime: Date.now() });
+    expect(checkEmails).not.toHaveBeenCalled();
+    expect(fake.notifications.size).toBe(0);
+  });
+
+  it("schedules one reminder alarm per open bill", async () => {
+    await savePaymentSummaryToIndexedDB(bill("HDFC Bank", 5));
+    await savePaymentSummaryToIndexedDB(bill("Axis Bank", 12));
+    expect(await rebuildReminderSchedule()).toBe(2);
+    expect([...fake.alarms.keys()].filter(name => name.startsWith("reminder:"))).toHaveLength(2);
+  });
+
+  it("notifies about a bill due today and schedules its next reminder", async () => {
+    await savePaymentSummaryToIndexedDB(bill("HDFC Bank", 0));
+    const [summary] = await getPaymentSummariesFromIndexedDB();
+
+    await fireReminder(summary.id);
+
+    const notification = fake.notifications.get("bill-reminders");
+    expect(notification?.options).toMatchObject({ type: "basic", title: "Due today: HDFC Bank", iconUrl: `${EXTENSION_ORIGIN}/icons/icon-128.png` });
+    expect((await getPaymentSummariesFromIndexedDB())[0].lastRemindedAt).toBeDefined();
+    expect(fake.alarms.get(`reminder:${summary.id}`)!.scheduledTime).toBeGreaterThan(Date.now());
+  });
+
+  it("groups bills that are due together and marks them all paid from the notification", async () => {
+    await savePaymentSummaryToIndexedDB(bill("HDFC Bank", -2));
+    await savePaymentSummaryToIndexedDB(bill("Axis Bank", 0));
+    const summaries = await getPaymentSummariesFromIndexedDB();
+
+    await fireReminder(summaries[0].id);
+
+    const notification = fake.notifications.get("bill-reminders")!;
+    expect(notification.options).toMatchObject({ type: "list", title: "2 bills need attention, 1 overdue", requireInteraction: true });
+    expect(notification.options.buttons?.map(button => button.title)).toEqual(["Mark all paid", "Snooze all 1 day"]);
+
+    await handleNotificationButton("bill-reminders", 0);
+    expect((await getPaymentSummariesFromIndexedDB()).map(summary => summary.status)).toEqual(["paid", "paid"]);
+    expect(fake.notifications.has("bill-reminders")).toBe(false);
+    expect([...fake.alarms.keys()].filter(name => name.startsWith("reminder:"))).toHaveLength(0);
+  });
+
+  it("snoozes a bill for a day", async () => {
+    await savePaymentSummaryToIndexedDB(bill("HDFC Bank", 1));
+    const [summary] = await getPaymentSummariesFromIndexedDB();
+    await fireReminder(summary.id);
+
+    await handleNotificationButton("bill-reminders", 1);
+
+    const [snoozed] = await getPaymentSummariesFromIndexedDB();
+    expect(Date.parse(snoozed.snoozedUntil!)).toBeGreaterThan(Date.now() + 23 * 60 * 60 * 1000);
+    expect(fake.alarms.get(`reminder:${summary.id}`)!.scheduledTime).toBeGreaterThanOrEqual(Date.parse(snoozed.snoozedUntil!));
+  });
+
+  it("opens the extension when a bill without an email link is clicked", async () => {
+    await savePaymentSummaryToIndexedDB(bill("HDFC Bank", 0));
+    const [summary] = await getPaymentSummariesFromIndexedDB();
+    await fireReminder(summary.id);
+
+    await handleNotificationClick("bill-reminders");
+
+    expect(fake.openedTabs).toEqual([`${EXTENSION_ORIGIN}/popup.html`]);
+  });
+});
@@ -0,0 +1,204 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { getLedgerEntries, getLedgerEntry, recordMessage } from "../src/db/ledger";
+import { getPayments } from "../src/db/payments";
+import { getPaymentSummariesFromIndexedDB } from "../src/db/summaries";
+import { getLogEntries, MAX_LOG_ENTRIES } from "../src/diagnostics/log";
+import { GmailSource } from "../src/mail/gmail";
+import { LocalMailSource } from "../src/mail/local";
+import { checkEmails, checkPaymentSuccessEmails, processQueue } from "../src/worker/queue";
+import { FakeChrome, installFakeChrome } from "./fakes/chrome";
+import { FakeGmailServer } from "./fakes/gmailServer";
+
+const HDFC_SENDER = "HDFC Bank InstaAlerts <alerts@hdfcbank.net>";
+
+const HDFC_STATEMENT = `Dear Customer,
+
+Your HDFC Bank Credit Card statement for the period 16-Feb-2025 to 15-Mar-2025 is ready.
+
+Card Number: XXXX XXXX XXXX 4821
+Statement Date: 15/03/2025
+Payment Due Date: 04/04/2025
+Total Amount Due: Rs. 23,456.78
+Minimum Amount Due: Rs. 1,180.00`;
+
+const AXIS_STATEMENT = `Axis Bank Credit Card Statement
+
+Card Number: XXXX XXXX XXXX 1234
+Statement Generation Date: 20/03/2025
+Payment Due Date: 09/04/2025
+Total Payment Due: Rs. 5,000.00
+Minimum Payment Due: Rs. 250.00`;
+
+const HDFC_PAYMENT = `Dear Customer,
+
+We have received a payment of Rs. 23,456.78 towards your HDFC Bank Credit Card XX4821 on 01-04-2025.
+The credit will reflect in your available limit shortly.`;
+
+describe("checkEmails", () => {
+  let fake: FakeChrome;
+  let gmail: FakeGmailServer;
+  let source: GmailSource;
+
+  beforeEach(async () => {
+    fake = installFakeChrome();
+    gmail = new FakeGmailServer();
+    await gmail.start();
+    gmail.redirectGoogleApis();
+    // The real source waits a second between fetches to respect Gmail's rate limits.
+    source = Object.assign(new GmailSource(90), { fetchDelayMs: 0 });
+  });
+
+  afterEach(async () => {
+    await gmail.stop();
+  });
+
+  it("extracts a bill from a statement email and skips unrelated mail", async () => {
+    const statement = gmail.addMessage({ from: HDFC_SENDER, subject: "Your HDFC Bank Credit Card Statement", body: HDFC_STATEMENT });
+    const newsletter = gmail.addMessage({ from: "offers@example.com", subject: "Credit Card offers", body: "No amounts here." });
+
+    await checkEmails([source]);
+
+    const [summary, ...others] = await getPaymentSummariesFromIndexedDB();
+    expect(others).toHaveLength(0);
+    expect(summary).toMatchObject({
+      bankName: "HDFC Bank",
+      cardLast4: "4821",
+      amountMinor: 2345678,
+      minimumDueMinor: 118000,
+      currency: "INR",
+      dueDate: "2025-04-04",
+      statementPeriod: "2025-03",
+      sourceMessageId: statement.id,
+      account: "user@example.com",
+      // Without WebGPU, "auto" extracts with rules only.
+      extractionMode: "rules",
+    });
+    expect(await getLedgerEntry("statements", statement.id)).toMatchObject({
+      status: "success",
+      stream: "statements",
+      link: `https://mail.google.com/mail/u/user%40example.com/#all/${statement.id}`,
+    });
+    expect(await getLedgerEntry("statements", newsletter.id)).toMatchObject({ status: "skipped" });
+    expect(fake.alarms.has(`reminder:${summary.id}`)).toBe(true);
+  });
+
+  it("only fetches mail added since the last sync", async () => {
+    gmail.addMessage({ from: HDFC_SENDER, subject: "Your HDFC Bank Credit Card Statement", body: HDFC_STATEMENT });
+    await checkEmails([source]);
+    expect(fake.storage.local.items.get("gmailSync:statements")).toMatchObject({ backfillComplete: true });
+
+    gmail.addMessage({ from: "Axis Bank <statements@axisbank.com>", subject: "Axis Bank Credit Card Statement: amount due", body: AXIS_STATEMENT });
+    gmail.requests.length = 0;
+    await checkEmails([source]);
+
+    expect(gmail.requests.some(path => path.startsWith("/gmail/v1/users/me/history?"))).toBe(true);
+    const summaries = await getPaymentSummariesFromIndexedDB();
+    expect(summaries.map(summary => summary.bankName).sort()).toEqual(["Axis Bank", "HDFC Bank"]);
+    expect(await getLedgerEntries()).toHaveLength(2);
+  });
+
+  it("restarts the backfill without duplicating bills when Gmail history expired", async () => {
+    gmail.addMessage({ from: HDFC_SENDER, subject: "Your HDFC Bank Credit Card Statement", body: HDFC_STATEMENT });
+    await checkEmails([source]);
+    gmail.expiredHistory = true;
+
+    await checkEmails([source]);
+
+    expect(await getPaymentSummariesFromIndexedDB()).toHaveLength(1);
+    expect(await getLedgerEntries()).toHaveLength(1);
+  });
+
+  it("does nothing when the user does not sign in", async () => {
+    fake.authToken = null;
+    gmail.addMessage({ from: HDFC_SENDER, subject: "Your HDFC Bank Credit Card Statement", body: HDFC_STATEMENT });
+
+    await checkEmails([source]);
+
+    expect(gmail.requests).toHaveLength(0);
+    expect(await getLedgerEntries()).toHaveLength(0);
+  });
+
+  it("reconciles payment confirmations against the stored bill", async () => {
+    gmail.addMessage({ from: HDFC_SENDER, subject: "Your HDFC Bank Credit Card Statement", body: HDFC_STATEMENT });
+    await checkEmails([source]);
+    const [bill] = await getPaymentSummariesFromIndexedDB();
+    gmail.addMessage({ from: HDFC_SENDER, subject: "Payment received", body: HDFC_PAYMENT });
+
+    await checkPaymentSuccessEmails([source]);
+
+    const [payment] = await getPayments();
+    expect(payment).toMatchObject({ status: "matched", summaryId: bill.id, amountMinor: 2345678, paidOn: "2025-04-01", extractionMode: "rules" });
+    expect((await getPaymentSummariesFromIndexedDB())[0]).toMatchObject({ status: "paid", paidMinor: 2345678 });
+    // Paid bills need no more reminders.
+    expect(fake.alarms.has(`reminder:${bill.id}`)).toBe(false);
+  });
+
+  it("counts a payment once when its email is processed again", async () => {
+    gmail.addMessage({ from: HDFC_SENDER, subject: "Your HDFC Bank Credit Card Statement", body: HDFC_STATEMENT });
+    await checkEmails([source]);
+    const message = gmail.addMessage({ from: HDFC_SENDER, subject: "Payment received", body: HDFC_PAYMENT });
+    await checkPaymentSuccessEmails([source]);
+
+    // As if the outcome had not been saved, e.g. because the bills locked mid-run.
+    await recordMessage({ id: message.id, source: "gmail", subject: "Payment received", sender: HDFC_SENDER, content: HDFC_PAYMENT }, "payments", true);
+    await processQueue();
+
+    expect(await getLedgerEntry("payments", message.id)).toMatchObject({ status: "success" });
+    expect(await getPayments()).toEqual([expect.objectContaining({ status: "matched", amountMinor: 2345678 })]);
+    expect((await getPaymentSummariesFromIndexedDB())[0]).toMatchObject({ status: "paid", paidMinor: 2345678 });
+  });
+
+  it("keeps email bodies and extracted figures out of the diagnostics log", async () => {
+    gmail.addMessage({ from: HDFC_SENDER, subject: "Your HDFC Bank Credit Card Statement", body: HDFC_STATEMENT });
+    gmail.addMessage({ from: HDFC_SENDER, subject: "Payment received", body: HDFC_PAYMENT });
+
+    await checkEmails([source]);
+    await checkPaymentSuccessEmails([source]);
+
+    const logged = JSON.stringify(await getLogEntries({ limit: MAX_LOG_ENTRIES }));
+    expect(logged).toContain("Extracted with rules");
+    for (const figure of ["23,456.78", "23456.78", "2345678", "1,180.00", "04-04-2025", "2025-04-04", "4821"]) {
+      expect(logged).not.toContain(figure);
+    }
+  });
+
+  it.each([
+    ["statements first", [checkEmails, checkPaymentSuccessEmails]],
+    ["payments first", [checkPaymentSuccessEmails, checkEmails]],
+  ])("reads each email in both streams, %s", async (_, passes) => {
+    const statement = gmail.addMessage({ from: HDFC_SENDER, subject: "Your HDFC Bank Credit Card Statement", body: HDFC_STATEMENT });
+    const payment = gmail.addMessage({ from: HDFC_SENDER, subject: "Payment received", body: HDFC_PAYMENT });
+
+    for (const pass of passes) await pass([source]);
+
+    // Each stream skipped the other's email without hiding it from the other stream.
+    expect(await getLedgerEntry("statements", payment.id)).toMatchObject({ status: "skipped" });
+    expect(await getLedgerEntry("payments", statement.id)).toMatchObject({ status: "skipped" });
+    expect(await getLedgerEntry("payments", payment.id)).toMatchObject({ status: "success" });
+    const [bill] = await getPaymentSummariesFromIndexedDB();
+    expect(bill).toMatchObject({ status: "paid", sourceMessageId: statement.id });
+    expect(await getPayments()).toEqual([expect.objectContaining({ status: "matched", summaryId: bill.id, sourceMessageId: payment.id })]);
+  });
+});
+
+describe("local imports", () => {
+  beforeEach(() => {
+    installFakeChrome();
+  });
+
+  const eml = (from: string, subject: string, body: string) => new TextEncoder().encode(`From: ${from}\r\nSubject: ${subject}\r\n\r\n${body}`);
+
+  it("tells apart messages without a Message-ID that come from files of the same name", async () => {
+    const first = new LocalMailSource();
+    first.addFile("inbox.eml", eml(HDFC_SENDER, "Your HDFC Bank Credit Card Statement", HDFC_STATEMENT));
+    await checkEmails([first]);
+    const later = new LocalMailSource();
+    later.addFile("inbox.eml", eml("Axis Bank <statements@axisbank.com>", "Axis Bank Credit Card Statement: amount due", AXIS_STATEMENT));
+    await checkEmails([later]);
+    // Importing the first file again finds nothing new.
+    await checkEmails([first]);
+
+    expect((await getPaymentSummariesFromIndexedDB()).map(summary => summary.cardLast4).sort()).toEqual(["1234", "4821"]);
+    expect(await getLedgerEntries()).toHaveLength(2);
+  });
+});
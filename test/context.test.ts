@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { emailBudget, planEmailContext, rankSections } from "../src/extract/context";
+import { ChatEngine, mergePartials } from "../src/extract/llm";
+import { extractStatement, PipelineOptions } from "../src/extract/pipeline";
+
+const HEADER = "Dear Customer,\nYour YES Bank Credit Card statement is ready.";
+
+// Offers HTML statements put above the summary; nothing in them is worth extracting.
+const OFFERS = Array.from({ length: 40 }, (_, i) =>
+  `Offer ${i + 1}: enjoy a 10% discount at our partner restaurants and stores this season, on weekends and holidays alike.`);
+
+const SUMMARY = `Card Number | XXXX XXXX XXXX 6612
+Statement Date | 18/03/2025
+Payment Due Date | 07/04/2025
+Total Amount Due | Rs. 31,250.40
+Minimum Amount Due | Rs. 1,570.00`;
+
+const PAYMENT_BOX = "Pay now with autopay to never miss a due date.";
+
+const FOOTER = "This is a system generated email, do not reply. Unsubscribe | Privacy Policy | All rights reserved.";
+
+const LONG_STATEMENT = [HEADER, ...OFFERS, SUMMARY, PAYMENT_BOX, FOOTER].join("\n\n");
+
+const ANSWER = JSON.stringify({ "Due Date": "07-04-2025", "Total Amount Due": "31250.40", "Bank Name": "YES Bank" });
+
+// Gives the same answer to every prompt, recording the prompts it was sent.
+function scriptedEngine(answer: string) {
+  const prompts: string[] = [];
+  const create = async ({ messages }: { messages: { content: string }[] }) => {
+    prompts.push(messages[messages.length - 1].content);
+    return { choices: [{ message: { role: "assistant", content: answer } }] };
+  };
+  return { prompts, engine: { chat: { completions: { create } } } as unknown as ChatEngine };
+}
+
+function llmOptions(engine: ChatEngine, overrides: Partial<PipelineOptions> = {}): PipelineOptions {
+  return { mode: "llm", templates: [], maxEmailContentLength: 4096, getEngine: async () => engine, ...overrides };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+describe("section ranking", () => {
+  it("finds the header, the summary table and the payment box, and ignores offers and footers", () => {
+    const sections = rankSections(LONG_STATEMENT);
+    const byText = (text: string) => sections.find(section => section.text === text)!;
+    expect(byText(HEADER)).toMatchObject({ index: 0, role: "header" });
+    expect(byText(SUMMARY)).toMatchObject({ role: "summary" });
+    expect(byText(PAYMENT_BOX)).toMatchObject({ role: "payment" });
+    expect(byText(OFFERS[0]).score).toBe(0);
+    expect(byText(FOOTER).score).toBe(0);
+    expect(byText(SUMMARY).score).toBeGreaterThan(byText(PAYMENT_BOX).score);
+    expect(byText(PAYMENT_BOX).score).toBeGreaterThan(0);
+    expect(byText(HEADER).score).toBeGreaterThan(0);
+  });
+
+  it("splits a section longer than a prompt at its lines", () => {
+    const table = Array.from({ length: 60 }, (_, i) => `Transaction ${i + 1} | 0${(i % 9) + 1}/03/2025 | Rs. ${i + 1}00.00`).join("\n");
+    const sections = rankSections(table, 500);
+    expect(sections.length).toBeGreaterThan(1);
+    expect(sections.every(section => section.text.length <= 500)).toBe(true);
+    expect(sections.map(section => section.text).join("\n")).toBe(table);
+  });
+});
+
+describe("context plan", () => {
+  it("keeps an email that fits as it is", () => {
+    const short = [HEADER, SUMMARY, FOOTER].join("\n\n");
+    expect(planEmailContext(short, 4096)).toEqual({ kind: "whole", text: short, dropped: 0 });
+  });
+
+  it("sends the relevant sections of a long email in their order", () => {
+    expect(LONG_STATEMENT.indexOf(SUMMARY)).toBeGreaterThan(4096);
+    expect(planEmailContext(LONG_STATEMENT, 4096)).toEqual({
+      kind: "whole",
+      text: [HEADER, SUMMARY, PAYMENT_BOX].join("\n\n"),
+      dropped: OFFERS.length + 1,
+    });
+  });
+
+  it("chunks the relevant sections when they do not fit one prompt", () => {
+    const plan = planEmailContext(LONG_STATEMENT, 200);
+    expect(plan.kind).toBe("chunked");
+    if (plan.kind !== "chunked") return;
+    expect(plan.chunks.map(chunk => chunk.text)).toEqual([HEADER, SUMMARY, PAYMENT_BOX]);
+    expect(plan.chunks[1].score).toBeGreaterThan(plan.chunks[0].score);
+  });
+
+  it("budgets what the context window leaves after the prompt and the answer", () => {
+    expect(emailBudget(4096, 200, 32768)).toBe((4096 - 200 - 256) * 3);
+    expect(emailBudget(4096, 200, 4096)).toBe(4096);
+    expect(emailBudget(1024, 900, 4096)).toBe(0);
+  });
+});
+
+describe("chunked extraction", () => {
+  it("merges partial answers by the confidence of the chunks behind them", () => {
+    expect(mergePartials([
+      { data: { "Bank Name": "YES Bank", "Total Amount Due": "1570.00" }, confidence: 3 },
+      { data: { "Total Amount Due": "31250.40", "Due Date": "07-04-2025" }, confidence: 8 },
+      { data: { "Bank Name": "yes  bank" }, confidence: 1 },
+    ])).toEqual({ "Bank Name": "YES Bank", "Total Amount Due": "31250.40", "Due Date": "07-04-2025" });
+  });
+
+  it("sends the summary table of a long statement to the model instead of the offers", async () => {
+    const { engine, prompts } = scriptedEngine(ANSWER);
+    const result = await extractStatement(LONG_STATEMENT, "YES Bank <statements@yesbank.in>", llmOptions(engine));
+    expect(result).toMatchObject({ ok: true, record: { bankName: "YES Bank", amountMinor: 3125040, dueDate: "2025-04-07" } });
+    expect(prompts).toHaveLength(1);
+    expect(prompts[0]).toContain("total amount due | rs. 31,250.40");
+    expect(prompts[0]).not.toContain("offer 1:");
+  });
+
+  it("extracts chunk by chunk within a small context window", async () => {
+    const prompts: string[] = [];
+    // The first part names the bank; the later ones hold the amounts.
+    const create = async ({ messages }: { messages: { content: string }[] }) => {
+      const prompt = messages[messages.length - 1].content;
+      prompts.push(prompt);
+      const answer = prompt.includes("part 1 of") ? { "Bank Name": "YES Bank" } : { "Due Date": "07-04-2025", "Total Amount Due": "31250.40" };
+      return { choices: [{ message: { role: "assistant", content: JSON.stringify(answer) } }] };
+    };
+    const engine = { chat: { completions: { create } } } as unknown as ChatEngine;
+    // A statement with a summary for each of a dozen add-on cards.
+    const addOnCards = Array.from({ length: 12 }, (_, i) => SUMMARY.replace("6612", `${7000 + i}`));
+    const statement = [HEADER, ...addOnCards, ...OFFERS, PAYMENT_BOX].join("\n\n");
+
+    const result = await extractStatement(statement, "YES Bank <statements@yesbank.in>", llmOptions(engine, { contextWindow: 1024 }));
+    expect(prompts.length).toBeGreaterThan(1);
+    expect(prompts.every(prompt => prompt.includes(`of ${prompts.length} of a long email`))).toBe(true);
+    expect(prompts.some(prompt => prompt.includes("offer 1:"))).toBe(false);
+    expect(result).toMatchObject({ ok: true, record: { bankName: "YES Bank", amountMinor: 3125040, dueDate: "2025-04-07" } });
+  });
+});
@@ -0,0 +1,139 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { openDatabase } from "../src/db/database";
+import { recordMessage } from "../src/db/ledger";
+import { savePaymentSummaryToIndexedDB } from "../src/db/summaries";
+import { enableEncryption, lockVault } from "../src/db/vault";
+import { createDebugBundle } from "../src/diagnostics/bundle";
+import { clearLog, flushLog, getLogEntries, log, MAX_LOG_ENTRIES } from "../src/diagnostics/log";
+import { installFakeChrome } from "./fakes/chrome";
+
+beforeEach(async () => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  // Creating the database logs its migrations, and entries other tests logged may still
+  // be on their way into it.
+  await openDatabase();
+  await flushLog();
+  await clearLog();
+});
+
+describe("diagnostics log", () => {
+  it("persists entries with their level, stage and message ID", async () => {
+    log.info("search", "Found 2 potentially relevant gmail email(s)");
+    log.warn("llm", "Extraction attempt 1 failed", { messageId: "msg-1", data: ["Due Date is missing"] });
+    const entries = await getLogEntries({ minLevel: "debug" });
+    expect(entries.map(({ level, stage, message, messageId, data }) => ({ level, stage, message, messageId, data }))).toEqual([
+      { level: "warn", stage: "llm", message: "Extraction attempt 1 failed", messageId: "msg-1", data: ["Due Date is missing"] },
+      { level: "info", stage: "search", message: "Found 2 potentially relevant gmail email(s)", messageId: undefined, data: undefined },
+    ]);
+    expect(entries[0].time).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+  });
+
+  it("redacts messages and details before storing them", async () => {
+    log.info("auth", "Gmail account rahul.sharma@gmail.com added.");
+    log.debug("fetch", "Fetched email", { messageId: "msg-2", data: { from: "alerts@hdfcbank.net", body: "Card Number: 4111 1111 1111 1111" } });
+    const [fetched, added] = await getLogEntries({ minLevel: "debug" });
+    expect(added.message).toBe("Gmail account •••@gmail.com added.");
+    expect(fetched.data).toEqual({ from: "•••@hdfcbank.net", body: "Card Number: XXXX XXXX XXXX 1111" });
+  });
+
+  it("stores errors by name and message", async () => {
+    log.error("save", "Error saving summary to IndexedDB", { data: new TypeError("store is closed") });
+    const [entry] = await getLogEntries();
+    expect(entry.data).toMatchObject({ name: "TypeError", message: "store is closed" });
+  });
+
+  it("keeps only the newest entries", async () => {
+    for (let i = 0; i < MAX_LOG_ENTRIES + 5; i++) log.debug("search", `Entry ${i}`);
+    const entries = await getLogEntries({ minLevel: "debug", limit: MAX_LOG_ENTRIES + 10 });
+    expect(entries).toHaveLength(MAX_LOG_ENTRIES);
+    expect(entries[0].message).toBe(`Entry ${MAX_LOG_ENTRIES + 4}`);
+    expect(entries[entries.length - 1].message).toBe("Entry 5");
+  });
+
+  it("filters by level, stage, message ID and text", async () => {
+    log.debug("fetch", "Fetched email", { messageId: "msg-1" });
+    log.info("parse", "Extracted with rules", { messageId: "msg-1", data: { "Bank Name": "HDFC Bank" } });
+    log.error("parse", "Extraction (llm) failed after 2 attempt(s)", { messageId: "msg-2" });
+    log.info("notify", "Scheduled reminders for 1 bill(s).");
+    const messages = async (filter: Parameters<typeof getLogEntries>[0]) => (await getLogEntries(filter)).map(entry => entry.message);
+    expect(await messages({})).toEqual(["Scheduled reminders for 1 bill(s).", "Extraction (llm) failed after 2 attempt(s)", "Extracted with rules", "Fetched email"]);
+    expect(await messages({ minLevel: "error" })).toEqual(["Extraction (llm) failed after 2 attempt(s)"]);
+    expect(await messages({ stage: "parse" })).toEqual(["Extraction (llm) failed after 2 attempt(s)", "Extracted with rules"]);
+    expect(await messages({ messageId: "msg-1", minLevel: "info" })).toEqual(["Extracted with rules"]);
+    expect(await messages({ text: "hdfc" })).toEqual(["Extracted with rules"]);
+    expect(await messages({ limit: 1 })).toEqual(["Scheduled reminders for 1 bill(s)."]);
+  });
+
+  it("clears the log", async () => {
+    log.info("system", "Alarm triggered: checkEmails");
+    await flushLog();
+    await clearLog();
+    expect(await getLogEntries()).toEqual([]);
+  });
+});
+
+describe("debug bundle", () => {
+  it("holds the redacted log, ledger and bills without email bodies", async () => {
+    installFakeChrome();
+    await recordMessage({
+      id: "statement-1",
+      source: "gmail",
+      account: "rahul.sharma@gmail.com",
+      subject: "Your HDFC Bank Credit Card statement",
+      sender: "alerts@hdfcbank.net",
+      content: "Card Number: 4111 1111 1111 1111\nTotal Amount Due: Rs. 23,456.78",
+    }, "statements", true);
+    await savePaymentSummaryToIndexedDB({
+      bankName: "HDFC Bank",
+      cardLast4: "1111",
+      statementPeriod: "2025-03",
+      amountMinor: 2345678,
+      currency: "INR",
+      dueDate: "2025-04-04",
+      sourceMessageId: "statement-1",
+      account: "rahul.sharma@gmail.com",
+    });
+    log.info("parse", "Processing queued statements email", { messageId: "statement-1" });
+
+    const file = await createDebugBundle({ state: "failed", loadedModelId: null, webGPU: false }, Date.UTC(2025, 3, 1));
+    expect(file.fileName).toBe("bill-tracker-debug-2025-04-01.json");
+    expect(file.mimeType).toBe("application/json");
+    expect(file.content).not.toContain("rahul.sharma");
+    expect(file.content).not.toContain("4111 1111 1111 1111");
+
+    const bundle = JSON.parse(file.content);
+    expect(bundle).toMatchObject({
+      format: "bill-tracker-debug-bundle",
+      extension: { version: "1.0.0" },
+      engine: { state: "failed", webGPU: false },
+      settings: { extractionMode: "auto" },
+    });
+    expect(bundle.ledger).toEqual([expect.objectContaining({ messageId: "statement-1", status: "queued", account: "•••@gmail.com", contentLength: 64 })]);
+    expect(bundle.ledger[0]).not.toHaveProperty("content");
+    expect(bundle.summaries).toEqual([expect.objectContaining({ bankName: "HDFC Bank", amountMinor: 2345678, account: "•••@gmail.com" })]);
+    expect(bundle.log.map((entry: { message: string }) => entry.message)).toContain("Processing queued statements email");
+  });
+
+  it("keeps only the status of ledger entries while the bills are locked", async () => {
+    installFakeChrome();
+    await enableEncryption("correct horse battery", 15);
+    await recordMessage({
+      id: "statement-1",
+      source: "gmail",
+      subject: "Your HDFC Bank Credit Card statement",
+      sender: "alerts@hdfcbank.net",
+      content: "Total Amount Due: Rs. 23,456.78",
+    }, "statements", true);
+    await lockVault();
+
+    const bundle = JSON.parse((await createDebugBundle({ state: "ready", loadedModelId: null, webGPU: false })).content);
+
+    expect(bundle.summaries).toBe("locked");
+    expect(bundle.ledger).toEqual([expect.objectContaining({ messageId: "statement-1", stream: "statements", status: "queued" })]);
+    expect(bundle.ledger[0]).not.toHaveProperty("subject");
+    expect(bundle.ledger[0]).not.toHaveProperty("sender");
+    expect(bundle.ledger[0]).not.toHaveProperty("contentLength");
+  });
+});
@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { getPaymentSummariesFromIndexedDB, importPaymentSummaries, PaymentSummary, savePaymentSummaryToIndexedDB } from "../src/db/summaries";
+import { createBackup, exportSummaries, parseBackup } from "../src/export/backup";
+import { summariesToCsv } from "../src/export/csv";
+import { summariesToIcs } from "../src/export/ics";
+import { formatAmount } from "../src/extract/normalize";
+import { ReminderSettings } from "../src/reminders/settings";
+import { installFakeChrome } from "./fakes/chrome";
+
+const NOW = Date.parse("2025-03-20T08:30:00Z");
+
+const REMINDERS: ReminderSettings = {
+  offsetsDays: [7, 1, 0],
+  reminderHour: 9,
+  quietHoursStart: 22,
+  quietHoursEnd: 8,
+  overdueRepeatHours: 24,
+  snoozeMinutes: 1440,
+};
+
+function bill(overrides: Partial<PaymentSummary> = {}): PaymentSummary {
+  return {
+    id: 1,
+    bankName: "HDFC Bank",
+    cardLast4: "4821",
+    statementPeriod: "2025-03",
+    amountMinor: 2345678,
+    minimumDueMinor: 118000,
+    paidMinor: 0,
+    currency: "INR",
+    dueDate: "2025-04-04",
+    status: "unpaid",
+    identity: "hdfc bank|4821|2025-03",
+    sourceMessageId: "statement-1",
+    extractionMode: "rules",
+    createdAt: "2025-03-15T10:00:00.000Z",
+    updatedAt: "2025-03-15T10:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("CSV export", () => {
+  it("writes one row per bill in major units, sorted by due date", () => {
+    const csv = summariesToCsv([bill(), bill({ id: 2, bankName: "Axis", cardLast4: undefined, dueDate: "2025-03-28", amountMinor: 500000, minimumDueMinor: undefined })]);
+    const lines = csv.trimEnd().split("\r\n");
+    expect(lines[0]).toBe("Bank,Card,Statement period,Due date,Currency,Amount due,Minimum due,Paid,Status,Extraction mode,Mailbox,Source message,Created,Updated");
+    expect(lines[1]).toBe("Axis,,2025-03,2025-03-28,INR,5000.00,,0.00,unpaid,rules,,statement-1,2025-03-15T10:00:00.000Z,2025-03-15T10:00:00.000Z");
+    expect(lines[2]).toContain("HDFC Bank,4821,2025-03,2025-04-04,INR,23456.78,1180.00,0.00");
+  });
+
+  it("quotes special characters and defuses formulas", () => {
+    const csv = summariesToCsv([bill({ bankName: 'Bank "One", Ltd' }), bill({ id: 2, bankName: "=HYPERLINK(\"x\")", dueDate: "2025-05-01" })]);
+    const lines = csv.trimEnd().split("\r\n");
+    expect(lines[1].startsWith('"Bank ""One"", Ltd",')).toBe(true);
+    expect(lines[2].startsWith(`"'=HYPERLINK(""x"")",`)).toBe(true);
+  });
+
+  it("writes negative amounts as numbers", () => {
+    const csv = summariesToCsv([bill({ amountMinor: -12345, minimumDueMinor: undefined })]);
+    expect(csv.split("\r\n")[1]).toContain(",INR,-123.45,,0.00,");
+  });
+});
+
+describe("iCalendar export", () => {
+  it("adds an all-day event with reminder alarms for each open bill", () => {
+    const ics = summariesToIcs([bill()], REMINDERS, NOW);
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    const lines = ics.replace(/\r\n /g, "").split("\r\n");
+    expect(lines).toContain("UID:hdfc%20bank%7C4821%7C2025-03@bill-tracker");
+    expect(lines).toContain("DTSTAMP:20250320T083000Z");
+    expect(lines).toContain("DTSTART;VALUE=DATE:20250404");
+    expect(lines).toContain("DTEND;VALUE=DATE:20250405");
+    expect(lines).toContain(`SUMMARY:HDFC Bank ••4821 due: ${formatAmount({ amountMinor: 2345678, currency: "INR" }).replace(/,/g, "\\,")}`);
+    expect(lines.filter(line => line.startsWith("TRIGGER:"))).toEqual(["TRIGGER:-P6DT15H", "TRIGGER:-PT15H", "TRIGGER:PT9H"]);
+  });
+
+  it("skips bills without a due date and leaves paid bills without alarms", () => {
+    const ics = summariesToIcs([bill({ status: "paid", paidMinor: 2345678 }), bill({ id: 2, dueDate: undefined })], REMINDERS, NOW);
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+    expect(ics).toContain("SUMMARY:Paid: HDFC Bank ••4821");
+    expect(ics).not.toContain("BEGIN:VALARM");
+  });
+
+  it("folds long lines at 75 octets without splitting characters", () => {
+    const ics = summariesToIcs([bill({ bankName: "₹".repeat(40) })], REMINDERS, NOW);
+    for (const line of ics.split("\r\n")) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+      expect(line).not.toContain("�");
+    }
+    expect(ics.replace(/\r\n /g, "")).toContain(`SUMMARY:${"₹".repeat(40)} ••4821 due:`);
+  });
+});
+
+describe("JSON backup", () => {
+  // The bill store checks chrome.storage for encryption settings.
+  beforeEach(() => {
+    installFakeChrome();
+  });
+
+  it("names files by format and date", () => {
+    expect(exportSummaries("csv", [], REMINDERS, NOW)).toMatchObject({ fileName: "bills-2025-03-20.csv", mimeType: "text/csv" });
+    expect(exportSummaries("ics", [], REMINDERS, NOW)).toMatchObject({ fileName: "bills-2025-03-20.ics", mimeType: "text/calendar" });
+    expect(exportSummaries("json", [], REMINDERS, NOW)).toMatchObject({ fileName: "bills-backup-2025-03-20.json", mimeType: "application/json" });
+  });
+
+  it("restores every field into another browser's store", async () => {
+    const original = bill({ status: "partially_paid", paidMinor: 100000, snoozedUntil: "2025-03-21T09:00:00.000Z", legacy: { BankName: "HDFC" } });
+    const backup = JSON.stringify(createBackup([original], NOW));
+    expect(await importPaymentSummaries(parseBackup(backup))).toEqual({ added: 1, skipped: 0 });
+    const [restored] = await getPaymentSummariesFromIndexedDB();
+    expect(restored).toEqual({ ...original, id: restored.id });
+  });
+
+  it("merges with the statement dedup rules", async () => {
+    await savePaymentSummaryToIndexedDB({ bankName: "HDFC Bank", cardLast4: "4821", statementPeriod: "2025-03", amountMinor: 1, currency: "INR" });
+    const backup = JSON.stringify(createBackup([
+      bill({ bankName: " hdfc bank " }),
+      bill({ id: 2, statementPeriod: "2025-02", dueDate: "2025-03-05" }),
+      bill({ id: 3, statementPeriod: "2025-02", dueDate: "2025-03-05" }),
+    ], NOW));
+    expect(await importPaymentSummaries(parseBackup(backup))).toEqual({ added: 1, skipped: 2 });
+    const stored = await getPaymentSummariesFromIndexedDB();
+    expect(stored.map(summary => summary.identity).sort()).toEqual(["hdfc bank|4821|2025-02", "hdfc bank|4821|2025-03"]);
+    expect(stored.find(summary => summary.statementPeriod === "2025-03")?.amountMinor).toBe(1);
+  });
+
+  it("rejects files that are not valid backups", () => {
+    expect(() => parseBackup("not json")).toThrow("The file is not valid JSON");
+    expect(() => parseBackup(JSON.stringify({ summaries: [] }))).toThrow("The file is not a Bill Tracker backup");
+    expect(() => parseBackup(JSON.stringify({ ...createBackup([], NOW), version: 99 }))).toThrow("Backup version 99 is not supported");
+    expect(() => parseBackup(JSON.stringify(createBackup([bill({ status: "lost" as never })], NOW)))).toThrow('Bill 1 in the backup has an unknown status "lost"');
+    expect(() => parseBackup(JSON.stringify(createBackup([bill({ amountMinor: 12.5 })], NOW)))).toThrow("Bill 1 in the backup has an invalid amountMinor");
+  });
+});
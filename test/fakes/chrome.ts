@@ -0,0 +1,219 @@
+// ----------------------
+// In-Memory chrome.* Fake
+// ----------------------
+// Covers the parts of the extension APIs the background modules use. State lives in
+// plain maps that tests can inspect; events keep their listeners so tests can fire
+// them with dispatch(). Values are cloned on the way in and out, like chrome.storage.
+
+type Listener = (...args: any[]) => any;
+
+export class FakeEvent<T extends Listener = Listener> {
+  readonly listeners: T[] = [];
+
+  addListener(listener: T) {
+    this.listeners.push(listener);
+  }
+
+  removeListener(listener: T) {
+    const index = this.listeners.indexOf(listener);
+    if (index >= 0) this.listeners.splice(index, 1);
+  }
+
+  hasListener(listener: T): boolean {
+    return this.listeners.includes(listener);
+  }
+
+  dispatch(...args: Parameters<T>): ReturnType<T>[] {
+    return this.listeners.map(listener => listener(...args));
+  }
+}
+
+class FakeStorageArea {
+  readonly items = new Map<string, unknown>();
+
+  constructor(private areaName: string, private onChanged: FakeEvent) {}
+
+  async get(keys?: string | string[] | null): Promise<Record<string, any>> {
+    const wanted = keys === undefined || keys === null ? [...this.items.keys()] : typeof keys === "string" ? [keys] : keys;
+    const result: Record<string, any> = {};
+    for (const key of wanted) {
+      if (this.items.has(key)) result[key] = structuredClone(this.items.get(key));
+    }
+    return result;
+  }
+
+  async set(items: Record<string, unknown>): Promise<void> {
+    const changes: Record<string, chrome.storage.StorageChange> = {};
+    for (const [key, value] of Object.entries(items)) {
+      changes[key] = { oldValue: structuredClone(this.items.get(key)), newValue: structuredClone(value) };
+      this.items.set(key, structuredClone(value));
+    }
+    this.onChanged.dispatch(changes, this.areaName);
+  }
+
+  async remove(keys: string | string[]): Promise<void> {
+    const changes: Record<string, chrome.storage.StorageChange> = {};
+    for (const key of typeof keys === "string" ? [keys] : keys) {
+      if (!this.items.has(key)) continue;
+      changes[key] = { oldValue: this.items.get(key) };
+      this.items.delete(key);
+    }
+    if (Object.keys(changes).length > 0) this.onChanged.dispatch(changes, this.areaName);
+  }
+
+  async clear(): Promise<void> {
+    await this.remove([...this.items.keys()]);
+  }
+}
+
+export interface FakeNotification {
+  id: string;
+  options: chrome.notifications.NotificationOptions<true>;
+}
+
+export interface FakeChrome {
+  chrome: typeof chrome;
+  storage: { local: FakeStorageArea; sync: FakeStorageArea; session: FakeStorageArea };
+  alarms: Map<string, chrome.alarms.Alarm>;
+  notifications: Map<string, FakeNotification>;
+  openedTabs: string[];
+  events: {
+    storageChanged: FakeEvent;
+    alarm: FakeEvent<(alarm: chrome.alarms.Alarm) => void>;
+    message: FakeEvent<(message: any, sender: chrome.runtime.MessageSender, sendResponse: (response?: any) => void) => boolean | void>;
+    connect: FakeEvent;
+    installed: FakeEvent;
+    startup: FakeEvent;
+    notificationClicked: FakeEvent<(notificationId: string) => void>;
+    notificationButtonClicked: FakeEvent<(notificationId: string, buttonIndex: number) => void>;
+  };
+  authToken: string | null; // What chrome.identity.getAuthToken hands out; null fails sign-in
+  profileEmail: string; // The Chrome profile's account
+  webAuthFlow: ((url: URL) => string | null) | null; // Redirect URL a web auth flow ends at; null fails it
+  webAuthUrls: URL[]; // Every web auth flow launched, in order
+  interactiveSignIns: number; // Sign-ins that were allowed to open a window
+}
+
+export const EXTENSION_ORIGIN = "chrome-extension://fake-extension-id";
+
+// Builds a fresh fake and installs it as globalThis.chrome.
+export function installFakeChrome(): FakeChrome {
+  const storageChanged = new FakeEvent();
+  const fake: FakeChrome = {
+    chrome: undefined as unknown as typeof chrome,
+    storage: {
+      local: new FakeStorageArea("local", storageChanged),
+      sync: new FakeStorageArea("sync", storageChanged),
+      session: new FakeStorageArea("session", storageChanged),
+    },
+    alarms: new Map(),
+    notifications: new Map(),
+    openedTabs: [],
+    events: {
+      storageChanged,
+      alarm: new FakeEvent(),
+      message: new FakeEvent(),
+      connect: new FakeEvent(),
+      installed: new FakeEvent(),
+      startup: new FakeEvent(),
+      notificationClicked: new FakeEvent(),
+      notificationButtonClicked: new FakeEvent(),
+    },
+    authToken: "fake-oauth-token",
+    profileEmail: "profile@example.com",
+    webAuthFlow: null,
+    webAuthUrls: [],
+    interactiveSignIns: 0,
+  };
+
+  let notificationCount = 0;
+  const runtime = {
+    lastError: undefined as chrome.runtime.LastError | undefined,
+    id: "fake-extension-id",
+    getManifest: () => ({ manifest_version: 3, name: "Bill Tracker", version: "1.0.0", icons: { "128": "icons/icon-128.png" } }),
+    getURL: (path: string) => `${EXTENSION_ORIGIN}/${path.replace(/^\//, "")}`,
+    getPlatformInfo: (callback?: (info: { os: string }) => void) => {
+      callback?.({ os: "linux" });
+      return Promise.resolve({ os: "linux" });
+    },
+    // Delivers the message to the onMessage listeners the way Chrome does: a listener
+    // returning true keeps the channel open for an asynchronous sendResponse.
+    sendMessage: (message: unknown, callback?: (response: unknown) => void) => {
+      let responded = false;
+      const sendResponse = (response?: unknown) => {
+        if (responded) return;
+        responded = true;
+        queueMicrotask(() => callback?.(response));
+      };
+      const results = fake.events.message.dispatch(message, { id: runtime.id }, sendResponse);
+      if (!responded && !results.includes(true)) sendResponse(undefined);
+    },
+    connect: () => { throw new Error("chrome.runtime.connect is not faked"); },
+    openOptionsPage: async () => { fake.openedTabs.push(runtime.getURL("options.html")); },
+    onMessage: fake.events.message,
+    onConnect: fake.events.connect,
+    onInstalled: fake.events.installed,
+    onStartup: fake.events.startup,
+  };
+
+  fake.chrome = {
+    runtime,
+    storage: { ...fake.storage, onChanged: storageChanged },
+    alarms: {
+      create: (name: string, info: chrome.alarms.AlarmCreateInfo) => {
+        const scheduledTime = info.when ?? Date.now() + (info.delayInMinutes ?? info.periodInMinutes ?? 0) * 60000;
+        fake.alarms.set(name, { name, scheduledTime, periodInMinutes: info.periodInMinutes });
+        return Promise.resolve();
+      },
+      get: async (name: string) => fake.alarms.get(name),
+      getAll: async () => [...fake.alarms.values()],
+      clear: async (name: string) => fake.alarms.delete(name),
+      clearAll: async () => {
+        const had = fake.alarms.size > 0;
+        fake.alarms.clear();
+        return had;
+      },
+      onAlarm: fake.events.alarm,
+    },
+    notifications: {
+      create: (idOrOptions: string | chrome.notifications.NotificationOptions<true>, maybeOptions?: chrome.notifications.NotificationOptions<true>) => {
+        const id = typeof idOrOptions === "string" ? idOrOptions : `notification-${++notificationCount}`;
+        const options = typeof idOrOptions === "string" ? maybeOptions! : idOrOptions;
+        fake.notifications.set(id, { id, options });
+        return Promise.resolve(id);
+      },
+      clear: async (id: string) => fake.notifications.delete(id),
+      onClicked: fake.events.notificationClicked,
+      onButtonClicked: fake.events.notificationButtonClicked,
+    },
+    tabs: {
+      create: async ({ url }: { url: string }) => {
+        fake.openedTabs.push(url);
+        return { id: fake.openedTabs.length, url };
+      },
+    },
+    identity: {
+      getAuthToken: (details: { interactive?: boolean }, callback: (token?: string) => void) => {
+        if (details.interactive) fake.interactiveSignIns++;
+        runtime.lastError = fake.authToken ? undefined : { message: "The user did not approve access." };
+        callback(fake.authToken || undefined);
+        runtime.lastError = undefined;
+      },
+      getRedirectURL: () => "https://fake-extension-id.chromiumapp.org/",
+      launchWebAuthFlow: (details: { url: string; interactive?: boolean }, callback: (redirectUrl?: string) => void) => {
+        if (details.interactive) fake.interactiveSignIns++;
+        const url = new URL(details.url);
+        fake.webAuthUrls.push(url);
+        const redirectUrl = fake.webAuthFlow?.(url);
+        runtime.lastError = redirectUrl ? undefined : { message: "The user did not approve access." };
+        callback(redirectUrl || undefined);
+        runtime.lastError = undefined;
+      },
+      getProfileUserInfo: async () => ({ email: fake.profileEmail, id: "1" }),
+      AccountStatus: { SYNC: "SYNC", ANY: "ANY" },
+    },
+  } as unknown as typeof chrome;
+
+  (globalThis as { chrome?: typeof chrome }).chrome = fake.chrome;
+  return fake;
+}
@@ -0,0 +1,177 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+
+// ----------------------
+// Fake Gmail Server
+// ----------------------
+// A local HTTP server answering the Gmail API and userinfo endpoints the mail sources
+// call. redirectGoogleApis() points fetch at it, so GmailSource and GmailSync run
+// unchanged. Search matches a quoted keyword anywhere in the subject or body, which
+// is enough for the OR queries the sources build.
+
+export interface FakeGmailMessage {
+  id: string;
+  threadId: string;
+  historyId: number;
+  internalDate: string;
+  from: string;
+  subject: string;
+  body: string;
+  mimeType: "text/plain" | "text/html";
+  attachments?: FakeGmailAttachment[];
+}
+
+export interface FakeGmailAttachment {
+  filename: string;
+  mimeType: string;
+  data: Uint8Array;
+}
+
+const GOOGLE_APIS = "https://www.googleapis.com";
+
+function toBase64Url(data: string | Uint8Array): string {
+  return (typeof data === "string" ? Buffer.from(data, "utf8") : Buffer.from(data)).toString("base64url");
+}
+
+export class FakeGmailServer {
+  readonly messages: FakeGmailMessage[] = [];
+  readonly requests: string[] = []; // Paths requested, in order
+  token = "fake-oauth-token";
+  email = "user@example.com"; // The mailbox's account, as userinfo and profile report it
+  expiredHistory = false; // Answer history requests with 404, as Gmail does for stale IDs
+  private historyId = 1000;
+  private server: Server | null = null;
+  private originalFetch: typeof fetch | null = null;
+  url = "";
+
+  addMessage(message: Partial<FakeGmailMessage> & Pick<FakeGmailMessage, "from" | "subject" | "body">): FakeGmailMessage {
+    this.historyId++;
+    const id = message.id || `msg${this.historyId}`;
+    const added: FakeGmailMessage = {
+      id,
+      threadId: id,
+      historyId: this.historyId,
+      internalDate: String(Date.parse("2025-03-15T10:00:00Z") + this.messages.length * 60000),
+      mimeType: "text/plain",
+      ...message,
+    };
+    this.messages.push(added);
+    return added;
+  }
+
+  async start(): Promise<void> {
+    this.server = createServer((request, response) => this.handle(request, response));
+    await new Promise<void>(resolve => this.server!.listen(0, "127.0.0.1", resolve));
+    this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    this.restoreFetch();
+    if (this.server) await new Promise(resolve => this.server!.close(resolve));
+    this.server = null;
+  }
+
+  // Sends every request for googleapis.com to this server instead.
+  redirectGoogleApis() {
+    const originalFetch = globalThis.fetch;
+    this.originalFetch = originalFetch;
+    globalThis.fetch = (input: string | URL | Request, init?: RequestInit) => {
+      const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+      return originalFetch(url.startsWith(GOOGLE_APIS) ? this.url + url.slice(GOOGLE_APIS.length) : input, init);
+    };
+  }
+
+  restoreFetch() {
+    if (this.originalFetch) globalThis.fetch = this.originalFetch;
+    this.originalFetch = null;
+  }
+
+  private handle(request: IncomingMessage, response: ServerResponse) {
+    const url = new URL(request.url || "/", this.url);
+    this.requests.push(url.pathname + url.search);
+    const send = (status: number, body: unknown) => {
+      response.writeHead(status, { "Content-Type": "application/json" });
+      response.end(JSON.stringify(body));
+    };
+    if (request.headers.authorization !== `Bearer ${this.token}`) return send(401, { error: { code: 401, message: "Invalid Credentials" } });
+
+    const path = url.pathname;
+    if (path === "/oauth2/v1/userinfo") return send(200, { id: "1", email: this.email, name: "Test User" });
+    if (path === "/gmail/v1/users/me/profile") return send(200, { emailAddress: this.email, historyId: String(this.historyId) });
+    if (path === "/gmail/v1/users/me/messages") return send(200, this.search(url.searchParams));
+    if (path === "/gmail/v1/users/me/history") {
+      if (this.expiredHistory) return send(404, { error: { code: 404, message: "Requested entity was not found." } });
+      return send(200, this.history(Number(url.searchParams.get("startHistoryId"))));
+    }
+    const attachment = path.match(/^\/gmail\/v1\/users\/me\/messages\/([^/]+)\/attachments\/att(\d+)$/);
+    const data = attachment && this.messages.find(candidate => candidate.id === attachment[1])?.attachments?.[Number(attachment[2])]?.data;
+    if (data) return send(200, { size: data.length, data: toBase64Url(data) });
+    const match = path.match(/^\/gmail\/v1\/users\/me\/messages\/([^/]+)$/);
+    const message = match && this.messages.find(candidate => candidate.id === match[1]);
+    if (message) return send(200, this.toGmailMessage(message));
+    send(404, { error: { code: 404, message: "Requested entity was not found." } });
+  }
+
+  private search(params: URLSearchParams) {
+    const keywords = [...(params.get("q") || "").matchAll(/"([^"]+)"/g)].map(match => match[1].toLowerCase());
+    const found = this.messages
+      .filter((message) => {
+        const text = `${message.subject} ${message.body}`.toLowerCase();
+        return keywords.length === 0 || keywords.some(keyword => text.includes(keyword));
+      })
+      .reverse(); // Newest first
+    const maxResults = Number(params.get("maxResults") || 100);
+    const start = Number(params.get("pageToken") || 0);
+    const page = found.slice(start, start + maxResults);
+    const nextPageToken = start + maxResults < found.length ? String(start + maxResults) : undefined;
+    return { messages: page.map(({ id, threadId }) => ({ id, threadId })), nextPageToken, resultSizeEstimate: found.length };
+  }
+
+  private history(startHistoryId: number) {
+    const added = this.messages.filter(message => message.historyId > startHistoryId);
+    return {
+      history: added.map(message => ({ id: String(message.historyId), messagesAdded: [{ message: { id: message.id, threadId: message.threadId } }] })),
+      historyId: String(this.historyId),
+    };
+  }
+
+  // Attachments make the message multipart/mixed, with their bodies left to the
+  // attachments endpoint as Gmail does.
+  private toGmailMessage(message: FakeGmailMessage) {
+    const headers = [
+      { name: "From", value: message.from },
+      { name: "Subject", value: message.subject },
+    ];
+    const bodyPart = {
+      mimeType: message.mimeType,
+      headers: [{ name: "Content-Type", value: `${message.mimeType}; charset="UTF-8"` }],
+      body: { size: message.body.length, data: toBase64Url(message.body) },
+    };
+    const attachments = message.attachments || [];
+    const payload = attachments.length === 0
+      ? { ...bodyPart, partId: "", headers: [...headers, ...bodyPart.headers] }
+      : {
+        partId: "",
+        mimeType: "multipart/mixed",
+        headers,
+        body: { size: 0 },
+        parts: [
+          { ...bodyPart, partId: "0" },
+          ...attachments.map((attachment, index) => ({
+            partId: String(index + 1),
+            mimeType: attachment.mimeType,
+            filename: attachment.filename,
+            headers: [{ name: "Content-Disposition", value: `attachment; filename="${attachment.filename}"` }],
+            body: { size: attachment.data.length, attachmentId: `att${index}` },
+          })),
+        ],
+      };
+    return {
+      id: message.id,
+      threadId: message.threadId,
+      historyId: String(message.historyId),
+      internalDate: message.internalDate,
+      payload,
+    };
+  }
+}
@@ -0,0 +1,154 @@
+import { createHash } from "node:crypto";
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+// ----------------------
+// Fixture PDF Generator
+// ----------------------
+// Writes the statement PDFs the attachment tests read: a plain one, and one encrypted
+// with the PDF standard security handler (revision 3, 128-bit RC4) the way banks
+// protect theirs. Text sits at the positions a bank's layout would put it, so labels
+// and values share a line. Run with `npx tsx test/fixtures/generate-pdfs.ts`.
+
+type TextRun = [x: number, y: number, text: string];
+
+const PADDING = Buffer.from("28bf4e5e4e758a4164004e56fffa01082e2e00b6d0683e802f0ca9fe6453697a", "hex");
+const FILE_ID = Buffer.from("5b1f0c9d3e6a47b2a1c48e07f3d2b960", "hex");
+const PERMISSIONS = -3904; // Printing and copying allowed
+
+function md5(...parts: Buffer[]): Buffer {
+  const hash = createHash("md5");
+  for (const part of parts) hash.update(part);
+  return hash.digest();
+}
+
+// RC4 is written out here because OpenSSL 3 no longer ships it by default.
+function rc4(key: Buffer, data: Buffer): Buffer {
+  const state = Array.from({ length: 256 }, (_, i) => i);
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + state[i] + key[i % key.length]) & 0xff;
+    [state[i], state[j]] = [state[j], state[i]];
+  }
+  const output = Buffer.alloc(data.length);
+  for (let n = 0, i = 0, j = 0; n < data.length; n++) {
+    i = (i + 1) & 0xff;
+    j = (j + state[i]) & 0xff;
+    [state[i], state[j]] = [state[j], state[i]];
+    output[n] = data[n] ^ state[(state[i] + state[j]) & 0xff];
+  }
+  return output;
+}
+
+function padPassword(password: string): Buffer {
+  return Buffer.concat([Buffer.from(password, "latin1"), PADDING]).subarray(0, 32);
+}
+
+// RC4 with the key, then 19 more passes with the key XORed with the pass number.
+function rc4Rounds(key: Buffer, data: Buffer): Buffer {
+  let output = rc4(key, data);
+  for (let round = 1; round <= 19; round++) output = rc4(Buffer.from(key.map(byte => byte ^ round)), output);
+  return output;
+}
+
+function stretch(hash: Buffer): Buffer {
+  for (let i = 0; i < 50; i++) hash = md5(hash);
+  return hash;
+}
+
+// The O and U entries and the file key (algorithms 2, 3 and 5 of ISO 32000-1).
+function securityHandler(userPassword: string, ownerPassword: string) {
+  const owner = rc4Rounds(stretch(md5(padPassword(ownerPassword))), padPassword(userPassword));
+  const permissions = Buffer.alloc(4);
+  permissions.writeInt32LE(PERMISSIONS);
+  const key = stretch(md5(padPassword(userPassword), owner, permissions, FILE_ID));
+  const user = Buffer.concat([rc4Rounds(key, md5(PADDING, FILE_ID)), Buffer.alloc(16)]);
+  return { key, owner, user };
+}
+
+function objectKey(key: Buffer, objectNumber: number): Buffer {
+  const suffix = Buffer.from([objectNumber & 0xff, (objectNumber >> 8) & 0xff, (objectNumber >> 16) & 0xff, 0, 0]);
+  return md5(key, suffix).subarray(0, 16);
+}
+
+function escapeText(text: string): string {
+  return text.replace(/[\\()]/g, match => `\\${match}`);
+}
+
+function contentStream(runs: TextRun[]): Buffer {
+  const operators = runs.map(([x, y, text]) => `BT /F1 10 Tf ${x} ${y} Td (${escapeText(text)}) Tj ET`);
+  return Buffer.from(operators.join("\n"), "latin1");
+}
+
+function buildPdf(pages: TextRun[][], password?: { user: string; owner: string }): Buffer {
+  const handler = password ? securityHandler(password.user, password.owner) : null;
+  const objects: Buffer[] = [];
+  const pageIds = pages.map((_, index) => 4 + index * 2);
+  objects[1] = Buffer.from("<< /Type /Catalog /Pages 2 0 R >>");
+  objects[2] = Buffer.from(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`);
+  objects[3] = Buffer.from("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+  pages.forEach((runs, index) => {
+    const pageId = pageIds[index];
+    objects[pageId] = Buffer.from(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Resources << /Font << /F1 3 0 R >> >> /Contents ${pageId + 1} 0 R >>`);
+    let stream = contentStream(runs);
+    if (handler) stream = rc4(objectKey(handler.key, pageId + 1), stream);
+    objects[pageId + 1] = Buffer.concat([Buffer.from(`<< /Length ${stream.length} >>\nstream\n`), stream, Buffer.from("\nendstream")]);
+  });
+  const encryptId = objects.length;
+  if (handler) {
+    objects[encryptId] = Buffer.from(`<< /Filter /Standard /V 2 /R 3 /Length 128 /P ${PERMISSIONS} /O <${handler.owner.toString("hex")}> /U <${handler.user.toString("hex")}> >>`);
+  }
+
+  const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+  const offsets: number[] = [];
+  let length = chunks[0].length;
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = length;
+    const chunk = Buffer.concat([Buffer.from(`${id} 0 obj\n`), objects[id], Buffer.from("\nendobj\n")]);
+    chunks.push(chunk);
+    length += chunk.length;
+  }
+  const xref = ["xref", `0 ${objects.length}`, "0000000000 65535 f "];
+  for (let id = 1; id < objects.length; id++) xref.push(`${String(offsets[id]).padStart(10, "0")} 00000 n `);
+  const id = FILE_ID.toString("hex");
+  const encrypt = handler ? ` /Encrypt ${encryptId} 0 R` : "";
+  xref.push("trailer", `<< /Size ${objects.length} /Root 1 0 R /ID [<${id}> <${id}>]${encrypt} >>`, "startxref", String(length), "%%EOF\n");
+  chunks.push(Buffer.from(xref.join("\n")));
+  return Buffer.concat(chunks);
+}
+
+// ----------------------
+// Fixtures
+// ----------------------
+const HDFC_STATEMENT: TextRun[][] = [
+  [
+    [50, 790, "HDFC Bank Credit Card Statement"],
+    [50, 760, "Name"], [250, 760, "RAHUL SHARMA"],
+    [50, 740, "Card Number"], [250, 740, "XXXX XXXX XXXX 4821"],
+    [50, 720, "Statement Date"], [250, 720, "15/03/2025"],
+    [50, 700, "Payment Due Date"], [250, 700, "04/04/2025"],
+    [50, 680, "Total Amount Due"], [250, 680, "Rs. 23,456.78"],
+    [50, 660, "Minimum Amount Due"], [250, 660, "Rs. 1,180.00"],
+    [50, 620, "Pay by the due date to avoid late payment charges."],
+  ],
+  [
+    [50, 790, "Domestic Transactions"],
+    [50, 770, "02/03/2025"], [150, 770, "AMAZON PAY INDIA"], [450, 770, "2,499.00"],
+    [50, 750, "09/03/2025"], [150, 750, "SWIGGY BANGALORE"], [450, 750, "640.50"],
+  ],
+];
+
+const SBI_STATEMENT: TextRun[][] = [
+  [
+    [50, 790, "SBI Card Monthly Statement"],
+    [50, 760, "Credit Card Number"], [250, 760, "XXXX XXXX XXXX 7731"],
+    [50, 740, "Statement Date"], [250, 740, "20 Mar 2025"],
+    [50, 720, "Payment Due Date"], [250, 720, "09 Apr 2025"],
+    [50, 700, "Total Amount Due"], [250, 700, "Rs. 8,450.00"],
+    [50, 680, "Minimum Amount Due"], [250, 680, "Rs. 423.00"],
+  ],
+];
+
+const directory = import.meta.dirname;
+// HDFC's rule: the first four letters of the name in capitals, then DDMM of the date of birth (15 March 1990).
+writeFileSync(join(directory, "hdfc-statement-locked.pdf"), buildPdf(HDFC_STATEMENT, { user: "RAHU1503", owner: "hdfc-owner-password" }));
+writeFileSync(join(directory, "sbi-statement.pdf"), buildPdf(SBI_STATEMENT));
@@ -0,0 +1,137 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { recordMessage } from "../src/db/ledger";
+import { addPayment } from "../src/db/payments";
+import { reconcilePayment } from "../src/db/reconcile";
+import { getPaymentSummariesFromIndexedDB, NewPaymentSummary, savePaymentSummaryToIndexedDB } from "../src/db/summaries";
+import { disableEncryption, enableEncryption, lockVault, unlockVault } from "../src/db/vault";
+import { PROTOCOL_VERSION, sendRequest } from "../src/protocol";
+import { FakeChrome, installFakeChrome } from "./fakes/chrome";
+
+// Requests go through sendRequest and the fake runtime to the listener background.ts
+// registers, exactly as the popup and options page send them.
+
+const BILL: NewPaymentSummary = {
+  bankName: "HDFC Bank",
+  cardLast4: "4821",
+  statementPeriod: "2025-03",
+  amountMinor: 2345678,
+  minimumDueMinor: 118000,
+  currency: "INR",
+  dueDate: "2025-04-04",
+  sourceMessageId: "statement-1",
+};
+
+async function storedBill() {
+  await savePaymentSummaryToIndexedDB(BILL);
+  return (await getPaymentSummariesFromIndexedDB())[0];
+}
+
+describe("popup request handlers", () => {
+  let fake: FakeChrome;
+
+  beforeAll(async () => {
+    // background.ts starts a keep-alive interval when it loads.
+    vi.useFakeTimers({ toFake: ["setInterval"] });
+    fake = installFakeChrome();
+    await import("../src/background");
+  });
+
+  it("rejects requests from another protocol version", async () => {
+    const response = await new Promise(resolve => fake.chrome.runtime.sendMessage({ version: PROTOCOL_VERSION - 1, request: { type: "getStatus" } }, resolve));
+    expect(response).toEqual({ ok: false, error: `Unsupported protocol version ${PROTOCOL_VERSION - 1}; expected ${PROTOCOL_VERSION}` });
+  });
+
+  it("rejects unknown request types", async () => {
+    await expect(sendRequest({ type: "launchRockets" } as never)).rejects.toThrow("Unknown request type: launchRockets");
+  });
+
+  it("reports the engine and queue status", async () => {
+    expect(await sendRequest({ type: "getStatus" })).toEqual({ engineState: "idle", engineProgress: undefined, queuedMessages: 0, lastResult: undefined });
+  });
+
+  it("lists bills with a link to their statement email", async () => {
+    await recordMessage({
+      id: "statement-1",
+      source: "gmail",
+      subject: "Statement",
+      sender: "alerts@hdfcbank.net",
+      content: "",
+      link: "https://mail.google.com/mail/u/0/#all/statement-1",
+    }, "statements", false);
+    const bill = await storedBill();
+    const { summaries } = await sendRequest({ type: "getSummaries" });
+    expect(summaries).toEqual([{ ...bill, sourceLink: "https://mail.google.com/mail/u/0/#all/statement-1" }]);
+  });
+
+  it("edits a bill and rejects invalid values", async () => {
+    const bill = await storedBill();
+    const { summary } = await sendRequest({ type: "editSummary", summaryId: bill.id, amount: "₹20,000", dueDate: "10/04/2025" });
+    expect(summary).toMatchObject({ amountMinor: 2000000, dueDate: "2025-04-10", status: "unpaid" });
+    await expect(sendRequest({ type: "editSummary", summaryId: bill.id, amount: "lots" })).rejects.toThrow('"lots" is not a valid amount');
+    await expect(sendRequest({ type: "editSummary", summaryId: bill.id, bankName: " " })).rejects.toThrow("Bank name cannot be empty");
+    await expect(sendRequest({ type: "editSummary", summaryId: 999, bankName: "Axis" })).rejects.toThrow("Summary 999 does not exist");
+  });
+
+  it("marks bills paid and unpaid, updating their reminders", async () => {
+    const bill = await storedBill();
+    await sendRequest({ type: "markPaid", summaryId: bill.id });
+    expect((await getPaymentSummariesFromIndexedDB())[0]).toMatchObject({ status: "paid", paidMinor: bill.amountMinor });
+    expect(fake.alarms.has(`reminder:${bill.id}`)).toBe(false);
+
+    await sendRequest({ type: "markUnpaid", summaryId: bill.id });
+    expect((await getPaymentSummariesFromIndexedDB())[0]).toMatchObject({ status: "unpaid", paidMinor: 0 });
+    expect(fake.alarms.has(`reminder:${bill.id}`)).toBe(true);
+  });
+
+  it("deletes a bill", async () => {
+    const bill = await storedBill();
+    await sendRequest({ type: "deleteSummary", summaryId: bill.id });
+    expect(await getPaymentSummariesFromIndexedDB()).toHaveLength(0);
+  });
+
+  it("snoozes reminders for an existing bill only", async () => {
+    const bill = await storedBill();
+    await sendRequest({ type: "snoozeReminder", summaryId: bill.id, minutes: 60 });
+    expect((await getPaymentSummariesFromIndexedDB())[0].snoozedUntil).toBeDefined();
+    await expect(sendRequest({ type: "snoozeReminder", summaryId: 999 })).rejects.toThrow("Summary 999 does not exist");
+  });
+
+  it("lists payments awaiting confirmation and applies the user's choice", async () => {
+    await savePaymentSummaryToIndexedDB({ ...BILL, cardLast4: undefined });
+    await savePaymentSummaryToIndexedDB({ ...BILL, cardLast4: undefined, statementPeriod: "2025-02", dueDate: "2025-03-05" });
+    const payment = await addPayment({ amountMinor: 100000, currency: "INR", paidOn: "2025-03-01", bankName: "HDFC Bank", sourceMessageId: "payment-1" });
+    await reconcilePayment(payment);
+
+    const { pending } = await sendRequest({ type: "getPendingPayments" });
+    expect(pending).toHaveLength(1);
+    expect(pending[0].candidates).toHaveLength(2);
+
+    await sendRequest({ type: "resolvePayment", paymentId: payment.id, summaryId: null });
+    expect((await sendRequest({ type: "getPendingPayments" })).pending).toHaveLength(0);
+  });
+
+  it("saves valid statement templates only", async () => {
+    const template = { id: "kotak", bankName: "Kotak", senderDomains: ["kotak.com"], labels: { totalDue: "total amount due" } };
+    await sendRequest({ type: "saveStatementTemplate", template });
+    expect((await sendRequest({ type: "getStatementTemplates" })).templates).toEqual([template]);
+    await expect(sendRequest({ type: "saveStatementTemplate", template: { ...template, labels: { totalDue: "(" } } })).rejects.toThrow("Invalid pattern: (");
+    await sendRequest({ type: "deleteStatementTemplate", id: "kotak" });
+    expect((await sendRequest({ type: "getStatementTemplates" })).templates).toEqual([]);
+  });
+
+  it("keeps an account and its bills while they are locked, and removes both once unlocked", async () => {
+    await fake.storage.local.set({ gmailAccounts: [{ email: "second@example.com", addedAt: "2025-03-01T00:00:00.000Z" }] });
+    await savePaymentSummaryToIndexedDB({ ...BILL, sourceMessageId: "statement-second", account: "second@example.com" });
+    await enableEncryption("correct horse battery", 15);
+    await lockVault();
+
+    await expect(sendRequest({ type: "removeGmailAccount", email: "second@example.com" })).rejects.toThrow("Your bills are locked");
+    expect((await sendRequest({ type: "listGmailAccounts" })).accounts).toEqual([expect.objectContaining({ email: "second@example.com" })]);
+
+    await unlockVault("correct horse battery");
+    expect(await sendRequest({ type: "removeGmailAccount", email: "second@example.com" })).toEqual({ removedBills: 1 });
+    expect((await sendRequest({ type: "listGmailAccounts" })).accounts).toEqual([]);
+    expect((await getPaymentSummariesFromIndexedDB()).map(bill => bill.account)).not.toContain("second@example.com");
+    await disableEncryption("correct horse battery");
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import { formatPlainAmount, parseAmount, parseDate, parsePlainAmount } from "../src/extract/normalize";
+import { extractStatement, PipelineOptions } from "../src/extract/pipeline";
+import { validateSettings } from "../src/settings";
+
+// Dates without a year are resolved against this day.
+const REFERENCE = Date.UTC(2025, 0, 10);
+
+describe("amounts", () => {
+  it.each([
+    // text, locale, amountMinor, currency
+    ["₹1,23,456.00", "en-IN", 12345600, "INR"],
+    ["Rs. 5,000 Cr", "en-IN", -500000, "INR"],
+    ["Rs. 5,000 Dr", "en-IN", 500000, "INR"],
+    ["Rs.1,23,45,678.90", "en-IN", 1234567890, "INR"],
+    ["INR 23456.78", "en-IN", 2345678, "INR"],
+    ["$1,234.56", "en-US", 123456, "USD"],
+    ["1.234,56 €", "de-DE", 123456, "EUR"],
+    ["EUR 1.234.567,89", "de-DE", 123456789, "EUR"],
+    ["12 345,67 EUR", "fr-FR", 1234567, "EUR"],
+    ["CHF 1'234.50", "de-CH", 123450, "CHF"],
+    ["£12.5", "en-GB", 1250, "GBP"],
+    ["¥1,500", "ja-JP", 1500, "JPY"],
+    ["S$2,000.00", "en-SG", 200000, "SGD"],
+    ["1,234", "de-DE", 123400, "INR"], // Three digits after a lone separator group, whatever the locale
+    ["KWD 1,234", "de-DE", 1234, "KWD"], // ...unless the currency has three decimals
+    ["KWD 1,234", "en-IN", 1234000, "KWD"],
+    ["-500", "en-IN", -50000, "INR"],
+    ["Rs.-500", "en-IN", -50000, "INR"],
+    ["(1,234.00)", "en-IN", -123400, "INR"],
+    ["Amount Due - Rs 500", "en-IN", 50000, "INR"],
+    ["Rs. 500.", "en-IN", 50000, "INR"],
+  ])("parses %s in %s", (text, locale, amountMinor, currency) => {
+    expect(parseAmount(text, "INR", locale)).toEqual({ amountMinor, currency });
+  });
+
+  it.each(["", "Rs.", "Total Amount Due", "Rs. 1,234.567", "¥1,500.5"])("finds no amount in %j", (text) => {
+    expect(parseAmount(text)).toBeNull();
+  });
+
+  it.each([
+    [{ amountMinor: 123456, currency: "INR" }, "1234.56"],
+    [{ amountMinor: 1500, currency: "JPY" }, "1500"],
+    [{ amountMinor: 1234567, currency: "KWD" }, "1234.567"],
+  ])("writes %j as %s", (amount, plain) => {
+    expect(formatPlainAmount(amount)).toBe(plain);
+    expect(parseAmount(plain, amount.currency, "de-DE")).toEqual(amount);
+    expect(parsePlainAmount(plain, amount.currency)).toEqual(amount);
+  });
+
+  it.each([
+    ["1234.567", "INR"],
+    ["1234.5", "JPY"],
+    ["1,234.56", "INR"],
+    ["-12.00", "INR"],
+  ])("refuses %s as a plain %s amount", (plain, currency) => {
+    expect(parsePlainAmount(plain, currency)).toBeNull();
+  });
+});
+
+describe("dates", () => {
+  it.each([
+    // text, locale, ISO date
+    ["2025-03-15", "en-US", "2025-03-15"],
+    ["2025/3/15", "de-DE", "2025-03-15"],
+    ["15/03/25", "en-IN", "2025-03-15"],
+    ["15/03/2025", "en-US", "2025-03-15"], // 15 can only be the day
+    ["03/15/25", "en-IN", "2025-03-15"],
+    ["04/05/2025", "en-IN", "2025-05-04"],
+    ["04/05/2025", "en-GB", "2025-05-04"],
+    ["04/05/2025", "en-US", "2025-04-05"],
+    ["15.03.2025", "de-DE", "2025-03-15"],
+    ["15 Mar 2025", "en-IN", "2025-03-15"],
+    ["15-Mar-25", "en-IN", "2025-03-15"],
+    ["15th of March, 2025", "en-GB", "2025-03-15"],
+    ["Mar 15, 2025", "en-US", "2025-03-15"],
+    ["Sept 3rd 2025", "en-US", "2025-09-03"],
+    ["Sat, 15 Mar 2025 10:30:00 +0530", "en-IN", "2025-03-15"],
+    ["15. März 2025", "de-DE", "2025-03-15"],
+    ["3 févr. 2025", "fr-FR", "2025-02-03"],
+    ["March 15th", "en-US", "2025-03-15"],
+    ["15 Mar", "en-IN", "2025-03-15"],
+    ["Dec 28", "en-US", "2024-12-28"], // Closer to the reference than next December
+    ["received on 15 March", "en-IN", "2025-03-15"],
+    ["Payment of Rs 500 received on 2 Jan", "en-IN", "2025-01-02"],
+  ])("parses %s in %s", (text, locale, isoDate) => {
+    expect(parseDate(text, { locale, reference: REFERENCE })).toBe(isoDate);
+  });
+
+  it.each([
+    ["31/02/2025", "en-IN"],
+    ["13/13/2025", "en-US"],
+    ["Card ending 4821", "en-IN"],
+    ["Summary 12", "en-IN"],
+    ["15 März 2025", "en-IN"], // German month names only in a German locale
+  ])("finds no date in %s in %s", (text, locale) => {
+    expect(parseDate(text, { locale, reference: REFERENCE })).toBeNull();
+  });
+});
+
+describe("rule extraction in a locale", () => {
+  const options = (locale: string): PipelineOptions => ({ mode: "rules", templates: [], maxEmailContentLength: 4096, locale, getEngine: async () => null });
+
+  it("reads decimal commas whatever the locale, and numeric dates in the locale's order", async () => {
+    const statement = "Kartennummer: XXXX XXXX XXXX 1234\nStatement Date: 02/03/2025\nPayment Due Date: 03/04/2025\nTotal Amount Due: 1.234,56 €";
+    const result = await extractStatement(statement, "Musterbank <karten@musterbank.de>", options("en-US"));
+    expect(result).toMatchObject({ ok: true, record: { amountMinor: 123456, currency: "EUR", dueDate: "2025-03-04", statementPeriod: "2025-02" } });
+  });
+
+  it("keeps the third decimal of a dinar amount", async () => {
+    const statement = "Card Number: XXXX XXXX XXXX 4821\nPayment Due Date: 04/04/2025\nTotal Amount Due: KWD 1,234.567";
+    const result = await extractStatement(statement, "Gulf Bank <cards@gulfbank.com.kw>", options("en-IN"));
+    expect(result).toMatchObject({ ok: true, record: { amountMinor: 1234567, currency: "KWD" }, data: { "Total Amount Due": "1234.567" } });
+  });
+
+  it("leaves nothing due on a credit balance", async () => {
+    const statement = "Card Number: XXXX XXXX XXXX 4821\nPayment Due Date: 04/04/2025\nTotal Amount Due: Rs. 5,000 Cr";
+    const result = await extractStatement(statement, "HDFC Bank InstaAlerts <alerts@hdfcbank.net>", options("en-IN"));
+    expect(result).toMatchObject({ ok: true, record: { amountMinor: 0, currency: "INR", dueDate: "2025-04-04" } });
+  });
+});
+
+describe("locale setting", () => {
+  it.each([
+    ["en-IN", true],
+    ["de-DE", true],
+    ["fr", true],
+    ["", false],
+    ["not a locale", false],
+  ])("accepts %j: %s", (locale, valid) => {
+    expect(validateSettings({ locale })).toHaveLength(valid ? 0 : 1);
+  });
+});
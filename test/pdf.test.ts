@@ -0,0 +1,208 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { getLedgerEntry, NEEDS_PDF_PASSWORD } from "../src/db/ledger";
+import { getPaymentSummariesFromIndexedDB } from "../src/db/summaries";
+import { extractPdfText } from "../src/extract/pdf";
+import {
+  BUILT_IN_PASSWORD_RULES,
+  EMPTY_PASSWORD_PROFILE,
+  expandPasswordPattern,
+  passwordCandidates,
+  PdfPasswordProfile,
+  savePasswordProfile,
+  saveUserPasswordRule,
+} from "../src/extract/pdfPasswords";
+import { GmailSource } from "../src/mail/gmail";
+import { LocalMailSource } from "../src/mail/local";
+import { checkEmails, retryPasswordProtectedEmails } from "../src/worker/queue";
+import { installFakeChrome } from "./fakes/chrome";
+import { FakeGmailServer } from "./fakes/gmailServer";
+
+// Written by test/fixtures/generate-pdfs.ts.
+const fixture = (name: string) => new Uint8Array(readFileSync(join(import.meta.dirname, "fixtures", name)));
+const HDFC_PDF = fixture("hdfc-statement-locked.pdf"); // Password RAHU1503
+const SBI_PDF = fixture("sbi-statement.pdf");
+
+const PROFILE: PdfPasswordProfile = {
+  name: "Rahul Sharma",
+  dateOfBirth: "1990-03-15",
+  pan: "ABCDE1234F",
+  mobile: "9876543210",
+  cardLast4: ["7731"],
+};
+
+const HDFC_SENDER = "HDFC Bank InstaAlerts <alerts@hdfcbank.net>";
+const TEASER = "Dear Customer,\n\nYour HDFC Bank Credit Card Statement for March 2025 is attached. Open it with the first four letters of your name and your date of birth.";
+
+describe("PDF text", () => {
+  it("reads a plain PDF with each label and value on one line", async () => {
+    const result = await extractPdfText(SBI_PDF);
+    expect(result).toMatchObject({ ok: true, pages: 1, encrypted: false });
+    if (!result.ok) return;
+    expect(result.text.split("\n")).toContain("Total Amount Due | Rs. 8,450.00");
+    expect(result.text.split("\n")).toContain("Payment Due Date | 09 Apr 2025");
+  });
+
+  it("opens an encrypted PDF with the first password that works", async () => {
+    const result = await extractPdfText(HDFC_PDF, ["rahu1503", "RAHU1503"]);
+    expect(result).toMatchObject({ ok: true, pages: 2, encrypted: true });
+    if (!result.ok) return;
+    expect(result.text).toContain("Card Number | XXXX XXXX XXXX 4821");
+    // Pages are separated by a blank line.
+    expect(result.text).toContain("\n\nDomestic Transactions\n02/03/2025 | AMAZON PAY INDIA | 2,499.00");
+  });
+
+  it.each([
+    [[], "The PDF needs a password"],
+    [["RAHU0315", "rahu1503"], "None of 2 password(s) opened the PDF"],
+  ])("reports a PDF that %j cannot open", async (passwords, error) => {
+    expect(await extractPdfText(HDFC_PDF, passwords)).toEqual({ ok: false, reason: "password", error });
+  });
+
+  it("reports a file that is not a PDF", async () => {
+    expect(await extractPdfText(new TextEncoder().encode("Total Amount Due: Rs. 500"))).toMatchObject({ ok: false, reason: "invalid" });
+  });
+});
+
+describe("PDF password rules", () => {
+  it.each([
+    ["{NAME4}{DD}{MM}", ["RAHU1503"]],
+    ["{name4}{DD}{MM}", ["rahu1503"]],
+    ["{Name}{YYYY}", ["Rahul1990"]],
+    ["{DD}{MM}{YY}", ["150390"]],
+    ["{DD}{MM}{YYYY}{card4}", ["150319904821", "150319907731"]],
+    ["{PAN}", ["ABCDE1234F"]],
+    ["{pan}{mobile4}", ["abcde1234f3210"]],
+  ])("expands %s", (pattern, passwords) => {
+    expect(expandPasswordPattern(pattern, PROFILE, ["4821", "7731"])).toEqual(passwords);
+  });
+
+  it("yields nothing for a pattern whose details are missing", () => {
+    expect(expandPasswordPattern("{NAME4}{DD}{MM}", { ...EMPTY_PASSWORD_PROFILE, name: "Rahul" }, [])).toEqual([]);
+    expect(expandPasswordPattern("{DD}{MM}{YYYY}{card4}", PROFILE, [])).toEqual([]);
+  });
+
+  it("tries the rules for the sender's bank first, with the cards the email names", () => {
+    const candidates = passwordCandidates(BUILT_IN_PASSWORD_RULES, { ...PROFILE, cardLast4: [] }, "SBI Card <statements@sbicard.com>", "Card ending 7731");
+    expect(candidates[0]).toBe("150319907731");
+    expect(candidates).toContain("RAHU1503");
+  });
+
+  it("rejects rules with unknown placeholders", async () => {
+    installFakeChrome();
+    expect(await saveUserPasswordRule({ id: "mine", bankName: "My Bank", senderDomains: ["mybank.com"], pattern: "{NAME4}{DOB}" })).toBe("Unknown placeholder {DOB}");
+  });
+});
+
+describe("statement attachments", () => {
+  let gmail: FakeGmailServer;
+  let source: GmailSource;
+
+  beforeEach(async () => {
+    installFakeChrome();
+    gmail = new FakeGmailServer();
+    await gmail.start();
+    gmail.redirectGoogleApis();
+    source = Object.assign(new GmailSource(90), { fetchDelayMs: 0 });
+  });
+
+  afterEach(async () => {
+    await gmail.stop();
+  });
+
+  it("extracts the bill from a password-protected PDF attached to a teaser email", async () => {
+    await savePasswordProfile(PROFILE);
+    const message = gmail.addMessage({
+      from: HDFC_SENDER,
+      subject: "Your HDFC Bank Credit Card Statement",
+      body: TEASER,
+      attachments: [{ filename: "Statement_Mar2025.pdf", mimeType: "application/pdf", data: HDFC_PDF }],
+    });
+
+    await checkEmails([source]);
+
+    expect(gmail.requests).toContain(`/gmail/v1/users/me/messages/${message.id}/attachments/att0`);
+    expect(await getPaymentSummariesFromIndexedDB()).toEqual([expect.objectContaining({
+      bankName: "HDFC Bank",
+      cardLast4: "4821",
+      statementPeriod: "2025-03",
+      amountMinor: 2345678,
+      minimumDueMinor: 118000,
+      dueDate: "2025-04-04",
+      sourceMessageId: message.id,
+    })]);
+  });
+
+  it("keeps a teaser whose PDF no password opens until the passwords change", async () => {
+    const message = gmail.addMessage({
+      from: HDFC_SENDER,
+      subject: "Your HDFC Bank Credit Card Statement",
+      body: TEASER,
+      attachments: [{ filename: "Statement_Mar2025.pdf", mimeType: "application/pdf", data: HDFC_PDF }],
+    });
+
+    await checkEmails([source]);
+    await checkEmails([source]);
+
+    expect(await getLedgerEntry("statements", message.id)).toMatchObject({ status: "error", error: NEEDS_PDF_PASSWORD });
+    expect(gmail.requests.filter(path => path.includes("/attachments/"))).toHaveLength(1);
+    expect(await getPaymentSummariesFromIndexedDB()).toEqual([]);
+
+    await savePasswordProfile(PROFILE);
+    expect(await retryPasswordProtectedEmails([source])).toBe(1);
+
+    expect(await getLedgerEntry("statements", message.id)).toMatchObject({ status: "success" });
+    expect(await getPaymentSummariesFromIndexedDB()).toEqual([expect.objectContaining({ bankName: "HDFC Bank", amountMinor: 2345678 })]);
+  });
+
+  it("downloads no attachments of mail that cannot be a statement", async () => {
+    // After the backfill, history sync lists every new message.
+    await checkEmails([source]);
+    const message = gmail.addMessage({
+      from: "Travel Deals <offers@example.com>",
+      subject: "Your itinerary",
+      body: "Have a good trip.",
+      attachments: [{ filename: "itinerary.pdf", mimeType: "application/pdf", data: SBI_PDF }],
+    });
+
+    await checkEmails([source]);
+
+    expect(gmail.requests.some(path => path.includes("/attachments/"))).toBe(false);
+    expect(await getLedgerEntry("statements", message.id)).toMatchObject({ status: "skipped" });
+  });
+
+  it("reads PDFs attached to imported .eml files", async () => {
+    const pdf = Buffer.from(SBI_PDF).toString("base64").replace(/.{76}/g, "$&\r\n");
+    const eml = [
+      "From: SBI Card <statements@sbicard.com>",
+      "Subject: Your SBI Card Monthly Statement",
+      "Message-ID: <sbi-statement-1@sbicard.com>",
+      "Content-Type: multipart/mixed; boundary=\"b1\"",
+      "",
+      "--b1",
+      "Content-Type: text/plain; charset=UTF-8",
+      "",
+      "Your credit card statement is attached.",
+      "--b1",
+      "Content-Type: application/pdf; name=\"statement.pdf\"",
+      "Content-Disposition: attachment; filename=\"statement.pdf\"",
+      "Content-Transfer-Encoding: base64",
+      "",
+      pdf,
+      "--b1--",
+      "",
+    ].join("\r\n");
+    const local = new LocalMailSource();
+    local.addFile("statement.eml", new TextEncoder().encode(eml));
+
+    await checkEmails([local]);
+
+    expect(await getPaymentSummariesFromIndexedDB()).toEqual([expect.objectContaining({
+      cardLast4: "7731",
+      amountMinor: 845000,
+      dueDate: "2025-04-09",
+      sourceMessageId: "<sbi-statement-1@sbicard.com>",
+    })]);
+  });
+});
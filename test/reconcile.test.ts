@@ -0,0 +1,128 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { addPayment, getPayments, NewPaymentRecord } from "../src/db/payments";
+import { deleteSummary, editSummary, getPendingPayments, reconcilePayment, reconcileUnmatchedPayments, resolvePayment } from "../src/db/reconcile";
+import { getPaymentSummariesFromIndexedDB, NewPaymentSummary, savePaymentSummaryToIndexedDB } from "../src/db/summaries";
+import { installFakeChrome } from "./fakes/chrome";
+
+// Reconciliation replaced the old updateMatchingRecord, which marked a summary paid
+// when a payment email's amount matched it; these cover the same ground.
+
+const HDFC: NewPaymentSummary = {
+  bankName: "HDFC Bank",
+  cardLast4: "4821",
+  statementPeriod: "2025-03",
+  amountMinor: 2345678,
+  minimumDueMinor: 118000,
+  currency: "INR",
+  dueDate: "2025-04-04",
+  sourceMessageId: "statement-hdfc",
+};
+
+const PAYMENT: NewPaymentRecord = {
+  amountMinor: 2345678,
+  currency: "INR",
+  paidOn: "2025-04-01",
+  bankName: "HDFC Bank",
+  cardLast4: "4821",
+  sourceMessageId: "payment-1",
+};
+
+async function summaryByBank(bankName: string) {
+  return (await getPaymentSummariesFromIndexedDB()).find(summary => summary.bankName === bankName)!;
+}
+
+describe("reconcilePayment", () => {
+  beforeEach(() => {
+    installFakeChrome();
+  });
+
+  it("marks the matching bill paid and links the payment", async () => {
+    await savePaymentSummaryToIndexedDB(HDFC);
+    const outcome = await reconcilePayment(await addPayment(PAYMENT));
+    expect(outcome.status).toBe("matched");
+    const summary = await summaryByBank("HDFC Bank");
+    expect(summary).toMatchObject({ status: "paid", paidMinor: 2345678 });
+    const [payment] = await getPayments();
+    expect(payment).toMatchObject({ status: "matched", summaryId: summary.id });
+  });
+
+  it("tracks partial and minimum payments", async () => {
+    await savePaymentSummaryToIndexedDB(HDFC);
+    await reconcilePayment(await addPayment({ ...PAYMENT, amountMinor: 50000 }));
+    expect((await summaryByBank("HDFC Bank")).status).toBe("partially_paid");
+    await reconcilePayment(await addPayment({ ...PAYMENT, amountMinor: 68000, sourceMessageId: "payment-2" }));
+    expect(await summaryByBank("HDFC Bank")).toMatchObject({ status: "minimum_paid", paidMinor: 118000 });
+  });
+
+  it("leaves a payment for another bank unmatched", async () => {
+    await savePaymentSummaryToIndexedDB(HDFC);
+    const outcome = await reconcilePayment(await addPayment({ ...PAYMENT, bankName: "Axis Bank", cardLast4: "1234" }));
+    expect(outcome.status).toBe("unmatched");
+    expect((await summaryByBank("HDFC Bank")).status).toBe("unpaid");
+  });
+
+  it("asks the user to choose between two bills of the same bank", async () => {
+    await savePaymentSummaryToIndexedDB({ ...HDFC, cardLast4: undefined });
+    await savePaymentSummaryToIndexedDB({ ...HDFC, cardLast4: undefined, statementPeriod: "2025-02", dueDate: "2025-03-05", amountMinor: 900000 });
+    const outcome = await reconcilePayment(await addPayment({ ...PAYMENT, cardLast4: undefined, amountMinor: 100000 }));
+    expect(outcome.status).toBe("needs_confirmation");
+
+    const [pending] = await getPendingPayments();
+    expect(pending.candidates).toHaveLength(2);
+    const chosen = pending.candidates.find(summary => summary.statementPeriod === "2025-03")!;
+    await resolvePayment(pending.payment.id, chosen.id);
+    expect(await getPendingPayments()).toHaveLength(0);
+    const summaries = await getPaymentSummariesFromIndexedDB();
+    expect(summaries.find(summary => summary.id === chosen.id)).toMatchObject({ paidMinor: 100000, status: "partially_paid" });
+  });
+
+  it("matches payments recorded before their statement arrived", async () => {
+    await reconcilePayment(await addPayment(PAYMENT));
+    expect((await getPayments("unmatched"))).toHaveLength(1);
+    await savePaymentSummaryToIndexedDB(HDFC);
+    expect(await reconcileUnmatchedPayments()).toBe(1);
+    expect((await summaryByBank("HDFC Bank")).status).toBe("paid");
+  });
+
+  it("records a payment email only once", async () => {
+    const first = await addPayment(PAYMENT);
+    const second = await addPayment({ ...PAYMENT, amountMinor: 1 });
+    expect(second.id).toBe(first.id);
+    expect(await getPayments()).toHaveLength(1);
+  });
+});
+
+describe("manual corrections", () => {
+  beforeEach(() => {
+    installFakeChrome();
+  });
+
+  it("stops offering a deleted bill to payments awaiting confirmation", async () => {
+    await savePaymentSummaryToIndexedDB({ ...HDFC, cardLast4: undefined });
+    await savePaymentSummaryToIndexedDB({ ...HDFC, cardLast4: undefined, statementPeriod: "2025-02", dueDate: "2025-03-05", amountMinor: 900000 });
+    await savePaymentSummaryToIndexedDB({ ...HDFC, cardLast4: undefined, statementPeriod: "2025-01", dueDate: "2025-02-05", amountMinor: 700000 });
+    await reconcilePayment(await addPayment({ ...PAYMENT, cardLast4: undefined, paidOn: undefined, amountMinor: 100000 }));
+    const [march, february, january] = await getPaymentSummariesFromIndexedDB();
+
+    await deleteSummary(march.id);
+    expect(await getPayments()).toEqual([expect.objectContaining({ status: "needs_confirmation", candidateIds: [february.id, january.id] })]);
+    await deleteSummary(february.id);
+    await deleteSummary(january.id);
+    expect(await getPayments()).toEqual([expect.objectContaining({ status: "unmatched", candidateIds: [] })]);
+  });
+
+  it("rejects an edit that would duplicate another bill", async () => {
+    await savePaymentSummaryToIndexedDB(HDFC);
+    await savePaymentSummaryToIndexedDB({ ...HDFC, bankName: "Axis Bank", sourceMessageId: "statement-axis" });
+    const hdfc = await summaryByBank("HDFC Bank");
+    const axis = await summaryByBank("Axis Bank");
+
+    await expect(editSummary(axis.id, { bankName: "hdfc bank" })).rejects.toThrow(`Bill ${hdfc.id} already has the same bank, card and statement period`);
+    expect(await editSummary(axis.id, { bankName: "Axis Bank Ltd", amountMinor: 100 })).toMatchObject({ bankName: "Axis Bank Ltd", amountMinor: 100 });
+  });
+
+  it("rejects changes to bills and payments that do not exist", async () => {
+    await expect(deleteSummary(999)).rejects.toEqual(new Error("Summary 999 does not exist"));
+    await expect(resolvePayment(999, null)).rejects.toEqual(new Error("Payment 999 is not awaiting confirmation"));
+  });
+});
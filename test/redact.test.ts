@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import { redact, redactValue } from "../src/extract/redact";
+import { BUILT_IN_TEMPLATES, parseStatement } from "../src/extract/statement";
+
+const HDFC_STATEMENT = `Dear Rahul Sharma,
+
+Your HDFC Bank Credit Card statement for the period 16-Feb-2025 to 15-Mar-2025 is ready.
+
+Card Number: 4111 1111 1111 1111
+Statement Date: 15/03/2025
+Payment Due Date: 04/04/2025
+Total Amount Due: Rs. 23,456.78
+Minimum Amount Due: Rs. 1,180.00
+
+Communication address: Flat 402, Sunshine Apartments
+12th Cross, Indiranagar
+Bengaluru - 560038
+
+Auto-debit from A/c No. 50100123456789 is active.
+Registered mobile: +91 98765 43210. Email: rahul.sharma@gmail.com
+For queries call 1800 202 6161 or write to customerservices.cards@hdfcbank.com`;
+
+const CHASE_STATEMENT = `Jane Doe
+1234 Elm Street, Apt 5B
+Springfield, IL 62704
+
+Chase Freedom Unlimited ending in 5100
+Account number: 5555 5555 5555 4444
+Statement Closing Date: 03/15/2025
+New Balance: $1,234.56
+Minimum Payment Due: $35.00
+Payment Due Date: 04/10/2025
+
+Pay by phone at (800) 432-1000 or 1-800-436-7958.
+Questions? jane.doe@example.com`;
+
+describe("redact", () => {
+  describe("Indian statements", () => {
+    const redacted = redact(HDFC_STATEMENT);
+
+    it("masks the card number down to its last 4 digits", () => {
+      expect(redacted).toContain("Card Number: XXXX XXXX XXXX 1111");
+      expect(redacted).not.toContain("4111 1111");
+    });
+
+    it("masks bank account numbers", () => {
+      expect(redacted).toContain("Auto-debit from A/c No. [account number] is active.");
+      expect(redacted).not.toContain("50100123456789");
+    });
+
+    it("masks mobile and toll-free numbers", () => {
+      expect(redacted).toContain("Registered mobile: [phone].");
+      expect(redacted).toContain("For queries call [phone] or write");
+    });
+
+    it("masks email addresses but keeps the domain", () => {
+      expect(redacted).toContain("Email: •••@gmail.com");
+      expect(redacted).toContain("•••@hdfcbank.com");
+      expect(redacted).not.toContain("rahul.sharma");
+    });
+
+    it("masks every line of the address", () => {
+      expect(redacted).toContain("Communication address: [address]\n[address]\n[address]\n");
+      expect(redacted).not.toMatch(/Indiranagar|560038|Sunshine/);
+    });
+
+    it("leaves amounts, dates and the statement period alone", () => {
+      for (const line of [
+        "for the period 16-Feb-2025 to 15-Mar-2025 is ready.",
+        "Statement Date: 15/03/2025",
+        "Payment Due Date: 04/04/2025",
+        "Total Amount Due: Rs. 23,456.78",
+        "Minimum Amount Due: Rs. 1,180.00",
+      ]) {
+        expect(redacted).toContain(line);
+      }
+    });
+
+    it("parses to the same statement fields as the original", () => {
+      const sender = "HDFC Bank <alerts@hdfcbank.net>";
+      const original = parseStatement(HDFC_STATEMENT, sender, BUILT_IN_TEMPLATES).fields;
+      const fromRedacted = parseStatement(redacted, sender, BUILT_IN_TEMPLATES).fields;
+      for (const field of ["statementDate", "dueDate", "totalDue", "minimumDue", "cardLast4"] as const) {
+        expect(fromRedacted[field]?.value).toBe(original[field]?.value);
+      }
+    });
+  });
+
+  describe("US statements", () => {
+    const redacted = redact(CHASE_STATEMENT);
+
+    it("masks the street and city lines of the address", () => {
+      expect(redacted.startsWith("Jane Doe\n[address]\n[address]\n")).toBe(true);
+    });
+
+    it("masks card numbers even under an account label", () => {
+      expect(redacted).toContain("Account number: XXXX XXXX XXXX 4444");
+      expect(redacted).toContain("ending in 5100");
+    });
+
+    it("masks phone numbers in every common format", () => {
+      expect(redacted).toContain("Pay by phone at [phone] or [phone].");
+    });
+
+    it("leaves dollar amounts and dates alone", () => {
+      expect(redacted).toContain("New Balance: $1,234.56");
+      expect(redacted).toContain("Payment Due Date: 04/10/2025");
+      expect(redacted).toContain("Statement Closing Date: 03/15/2025");
+    });
+
+    it("masks email addresses", () => {
+      expect(redacted).toContain("Questions? •••@example.com");
+    });
+  });
+
+  it("keeps partially masked card numbers to their last 4 digits", () => {
+    expect(redact("Card 5241 81XX XXXX 1234 statement")).toBe("Card XXXX XXXX XXXX 1234 statement");
+    expect(redact("Card ending XX4821")).toBe("Card ending XX4821");
+  });
+
+  it("leaves digit runs that are not card numbers to the other rules", () => {
+    // 16 digits failing the Luhn check are a reference, not a card.
+    expect(redact("UTR 1234567812345678 credited")).toBe("UTR [account number] credited");
+    expect(redact("Credit limit 200000")).toBe("Credit limit 200000");
+  });
+
+  it("is idempotent", () => {
+    expect(redact(redact(HDFC_STATEMENT))).toBe(redact(HDFC_STATEMENT));
+    expect(redact(redact(CHASE_STATEMENT))).toBe(redact(CHASE_STATEMENT));
+  });
+
+  it("redacts every string in records for logging", () => {
+    expect(redactValue({ account: "me@example.com", amountMinor: 100, notes: ["Call 9876543210"] }))
+      .toEqual({ account: "•••@example.com", amountMinor: 100, notes: ["Call [phone]"] });
+  });
+});
@@ -0,0 +1,8 @@
+import "fake-indexeddb/auto";
+import { IDBFactory } from "fake-indexeddb";
+import { beforeEach } from "vitest";
+
+// Every test starts with an empty database; openDatabase() looks indexedDB up on each call.
+beforeEach(() => {
+  globalThis.indexedDB = new IDBFactory();
+});
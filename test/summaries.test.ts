@@ -0,0 +1,52 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { getPaymentSummariesFromIndexedDB, NewPaymentSummary, savePaymentSummaryToIndexedDB } from "../src/db/summaries";
+import { installFakeChrome } from "./fakes/chrome";
+
+const STATEMENT: NewPaymentSummary = {
+  bankName: "HDFC Bank",
+  cardLast4: "4821",
+  statementPeriod: "2025-03",
+  amountMinor: 2345678,
+  minimumDueMinor: 118000,
+  currency: "INR",
+  dueDate: "2025-04-04",
+  sourceMessageId: "msg-1",
+  extractionMode: "rules",
+};
+
+describe("savePaymentSummaryToIndexedDB", () => {
+  beforeEach(() => {
+    installFakeChrome();
+  });
+
+  it("stores a new bill as unpaid with its identity", async () => {
+    expect(await savePaymentSummaryToIndexedDB(STATEMENT)).toBe(true);
+    const [summary] = await getPaymentSummariesFromIndexedDB();
+    expect(summary).toMatchObject({
+      ...STATEMENT,
+      paidMinor: 0,
+      status: "unpaid",
+      identity: "hdfc bank|4821|2025-03",
+    });
+    expect(summary.createdAt).toBe(summary.updatedAt);
+  });
+
+  it("skips a statement already stored for the same bank, card and period", async () => {
+    await savePaymentSummaryToIndexedDB(STATEMENT);
+    expect(await savePaymentSummaryToIndexedDB({ ...STATEMENT, sourceMessageId: "msg-2" })).toBe(false);
+    expect(await getPaymentSummariesFromIndexedDB()).toHaveLength(1);
+  });
+
+  it("treats bank names differing only in case and spacing as the same bank", async () => {
+    await savePaymentSummaryToIndexedDB(STATEMENT);
+    expect(await savePaymentSummaryToIndexedDB({ ...STATEMENT, bankName: "  hdfc BANK " })).toBe(false);
+    expect(await getPaymentSummariesFromIndexedDB()).toHaveLength(1);
+  });
+
+  it("keeps statements for other periods and cards", async () => {
+    await savePaymentSummaryToIndexedDB(STATEMENT);
+    expect(await savePaymentSummaryToIndexedDB({ ...STATEMENT, statementPeriod: "2025-04" })).toBe(true);
+    expect(await savePaymentSummaryToIndexedDB({ ...STATEMENT, cardLast4: "9012" })).toBe(true);
+    expect(await getPaymentSummariesFromIndexedDB()).toHaveLength(3);
+  });
+});
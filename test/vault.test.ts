@@ -0,0 +1,207 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { openDatabase } from "../src/db/database";
+import { getLedgerEntry, getLedgerStatuses, recordMessage } from "../src/db/ledger";
+import { addPayment, getPayments } from "../src/db/payments";
+import { deleteSummary, reconcilePayment } from "../src/db/reconcile";
+import { getPaymentSummariesFromIndexedDB, NewPaymentSummary, savePaymentSummaryToIndexedDB } from "../src/db/summaries";
+import {
+  AUTO_LOCK_ALARM,
+  changePassphrase,
+  disableEncryption,
+  enableEncryption,
+  getVaultStatus,
+  lockVault,
+  unlockVault,
+  VaultLockedError,
+} from "../src/db/vault";
+import { getPasswordProfile, PdfPasswordProfile, savePasswordProfile } from "../src/extract/pdfPasswords";
+import { LocalMailSource } from "../src/mail/local";
+import { MailMessage } from "../src/mail/types";
+import { handleAlarm } from "../src/worker/alarms";
+import { checkEmails, processQueue } from "../src/worker/queue";
+import { FakeChrome, installFakeChrome } from "./fakes/chrome";
+
+const STATEMENT: NewPaymentSummary = {
+  bankName: "HDFC Bank",
+  cardLast4: "4821",
+  statementPeriod: "2025-03",
+  amountMinor: 2345678,
+  currency: "INR",
+  dueDate: "2025-04-04",
+  sourceMessageId: "statement-1",
+};
+
+const PASSPHRASE = "correct horse battery";
+
+const PROFILE: PdfPasswordProfile = {
+  name: "Rahul Sharma",
+  dateOfBirth: "1990-03-15",
+  pan: "ABCDE1234F",
+  mobile: "9876543210",
+  cardLast4: ["7731"],
+};
+
+const EMAIL: MailMessage = {
+  id: "statement-1",
+  source: "gmail",
+  subject: "Your HDFC Bank Credit Card Statement",
+  sender: "HDFC Bank InstaAlerts <alerts@hdfcbank.net>",
+  content: "Card Number: XXXX XXXX XXXX 4821\nPayment Due Date: 04/04/2025\nTotal Amount Due: Rs. 23,456.78\nMinimum Amount Due: Rs. 1,180.00",
+};
+
+// The records as IndexedDB holds them, serialized so plaintext anywhere in them shows.
+function storedRecords(store: string): Promise<string> {
+  return openDatabase().then(db => new Promise((resolve, reject) => {
+    const request = db.transaction(store, "readonly").objectStore(store).getAll();
+    request.onsuccess = () => resolve(JSON.stringify(request.result));
+    request.onerror = () => reject(request.error);
+  }));
+}
+
+describe("encryption at rest", () => {
+  let fake: FakeChrome;
+
+  beforeEach(() => {
+    fake = installFakeChrome();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("seals stored bills, payments and ledger entries, leaving only keys and links in the clear", async () => {
+    await savePaymentSummaryToIndexedDB(STATEMENT);
+    await addPayment({ amountMinor: 2345678, currency: "INR", bankName: "HDFC Bank", cardLast4: "4821", paidOn: "2025-04-01", sourceMessageId: "payment-1" });
+    await recordMessage(EMAIL, "statements", true);
+    await enableEncryption(PASSPHRASE, 15);
+
+    for (const store of ["summaries", "payments", "processedMessages"]) {
+      const stored = await storedRecords(store);
+      expect(stored).not.toContain("HDFC");
+      expect(stored).not.toContain("2345678");
+      expect(stored).not.toContain("4821");
+      expect(stored).not.toContain("2025-04-0");
+    }
+    expect(await getPaymentSummariesFromIndexedDB()).toEqual([expect.objectContaining({ ...STATEMENT, identity: "hdfc bank|4821|2025-03", status: "unpaid" })]);
+    expect(await getPayments("unmatched")).toEqual([expect.objectContaining({ bankName: "HDFC Bank", sourceMessageId: "payment-1" })]);
+    expect(await getLedgerEntry("statements", "statement-1")).toMatchObject({ subject: EMAIL.subject, content: EMAIL.content, status: "queued" });
+  });
+
+  it("still finds duplicate statements and reconciles payments while encrypted", async () => {
+    await enableEncryption(PASSPHRASE, 15);
+    expect(await savePaymentSummaryToIndexedDB(STATEMENT)).toBe(true);
+    expect(await savePaymentSummaryToIndexedDB({ ...STATEMENT, bankName: " hdfc bank ", sourceMessageId: "statement-2" })).toBe(false);
+
+    const payment = await addPayment({ amountMinor: 2345678, currency: "INR", bankName: "HDFC Bank", cardLast4: "4821", paidOn: "2025-04-01", sourceMessageId: "payment-1" });
+    expect(await reconcilePayment(payment)).toMatchObject({ status: "matched", summary: { status: "paid", paidMinor: 2345678 } });
+
+    const [summary] = await getPaymentSummariesFromIndexedDB();
+    await deleteSummary(summary.id);
+    expect(await getPayments()).toEqual([expect.objectContaining({ status: "unmatched", summaryId: undefined, amountMinor: 2345678 })]);
+  });
+
+  it("refuses reads and writes while locked, and wrong passphrases", async () => {
+    await savePaymentSummaryToIndexedDB(STATEMENT);
+    await enableEncryption(PASSPHRASE, 15);
+    await lockVault();
+
+    expect(await getVaultStatus()).toMatchObject({ enabled: true, locked: true });
+    await expect(getPaymentSummariesFromIndexedDB()).rejects.toBeInstanceOf(VaultLockedError);
+    await expect(savePaymentSummaryToIndexedDB({ ...STATEMENT, statementPeriod: "2025-04" })).rejects.toBeInstanceOf(VaultLockedError);
+    await expect(unlockVault("wrong passphrase")).rejects.toThrow("Wrong passphrase");
+
+    await unlockVault(PASSPHRASE);
+    expect(await getPaymentSummariesFromIndexedDB()).toHaveLength(1);
+  });
+
+  it("keeps the session in session storage until the auto-lock alarm", async () => {
+    await enableEncryption(PASSPHRASE, 15);
+    const status = await getVaultStatus();
+    expect(status).toMatchObject({ enabled: true, locked: false, autoLockMinutes: 15 });
+    expect(fake.alarms.get(AUTO_LOCK_ALARM)?.scheduledTime).toBe(status.lockAt);
+    // The session survives in chrome.storage.session, not just in memory.
+    expect(fake.storage.session.items.has("vaultSession")).toBe(true);
+
+    await handleAlarm({ name: AUTO_LOCK_ALARM, scheduledTime: status.lockAt! });
+    expect(await getVaultStatus()).toMatchObject({ locked: true });
+    expect(fake.storage.session.items.has("vaultSession")).toBe(false);
+  });
+
+  it("locks once the auto-lock time has passed even if the alarm was missed", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      await enableEncryption(PASSPHRASE, 15);
+      vi.setSystemTime(Date.now() + 16 * 60 * 1000);
+      expect(await getVaultStatus()).toMatchObject({ locked: true });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("re-encrypts with a new passphrase", async () => {
+    await savePaymentSummaryToIndexedDB(STATEMENT);
+    await enableEncryption(PASSPHRASE, 15);
+    const before = await storedRecords("summaries");
+    await expect(changePassphrase("wrong passphrase", "new passphrase")).rejects.toThrow("Wrong passphrase");
+
+    await changePassphrase(PASSPHRASE, "new passphrase");
+    expect(await storedRecords("summaries")).not.toBe(before);
+    await lockVault();
+    await expect(unlockVault(PASSPHRASE)).rejects.toThrow("Wrong passphrase");
+    await unlockVault("new passphrase");
+    expect(await getPaymentSummariesFromIndexedDB()).toEqual([expect.objectContaining({ bankName: "HDFC Bank" })]);
+  });
+
+  it("stores everything in plaintext again when turned off", async () => {
+    await savePaymentSummaryToIndexedDB(STATEMENT);
+    await enableEncryption(PASSPHRASE, 15);
+    await disableEncryption(PASSPHRASE);
+
+    expect(await getVaultStatus()).toMatchObject({ enabled: false, locked: false });
+    expect(await storedRecords("summaries")).toContain("hdfc bank|4821|2025-03");
+    expect(await savePaymentSummaryToIndexedDB({ ...STATEMENT, sourceMessageId: "statement-2" })).toBe(false);
+  });
+
+  it("seals the PDF password profile and keeps it from being read while locked", async () => {
+    await savePasswordProfile(PROFILE);
+    await enableEncryption(PASSPHRASE, 15);
+    const stored = JSON.stringify(fake.storage.local.items.get("pdfPasswordProfile"));
+    for (const detail of ["Rahul", "1990-03-15", "ABCDE1234F", "9876543210", "7731"]) expect(stored).not.toContain(detail);
+    expect(await getPasswordProfile()).toEqual(PROFILE);
+
+    await lockVault();
+    await expect(getPasswordProfile()).rejects.toBeInstanceOf(VaultLockedError);
+    await expect(savePasswordProfile(PROFILE)).rejects.toBeInstanceOf(VaultLockedError);
+
+    await unlockVault(PASSPHRASE);
+    await disableEncryption(PASSPHRASE);
+    expect(fake.storage.local.items.get("pdfPasswordProfile")).toEqual(PROFILE);
+  });
+
+  it("keeps emails queued while locked and processes them after unlock", async () => {
+    await enableEncryption(PASSPHRASE, 15);
+    await recordMessage(EMAIL, "statements", true);
+    await lockVault();
+
+    await processQueue();
+    expect(await getLedgerStatuses()).toEqual([expect.objectContaining({ messageId: "statement-1", status: "queued" })]);
+    await expect(getLedgerEntry("statements", "statement-1")).rejects.toBeInstanceOf(VaultLockedError);
+
+    await unlockVault(PASSPHRASE);
+    await processQueue();
+    expect(await getLedgerEntry("statements", "statement-1")).toMatchObject({ status: "success" });
+    expect(await getPaymentSummariesFromIndexedDB()).toEqual([expect.objectContaining({ bankName: "HDFC Bank", amountMinor: 2345678 })]);
+  });
+
+  it("reads no mail while locked", async () => {
+    await enableEncryption(PASSPHRASE, 15);
+    await lockVault();
+    const source = new LocalMailSource();
+    source.addFile("statement.eml", new TextEncoder().encode(`From: ${EMAIL.sender}\r\nSubject: ${EMAIL.subject}\r\n\r\n${EMAIL.content}`));
+
+    await checkEmails([source]);
+    expect(await getLedgerStatuses()).toEqual([]);
+    await expect(recordMessage(EMAIL, "statements", true)).rejects.toBeInstanceOf(VaultLockedError);
+
+    await unlockVault(PASSPHRASE);
+    await checkEmails([source]);
+    expect(await getPaymentSummariesFromIndexedDB()).toEqual([expect.objectContaining({ bankName: "HDFC Bank", amountMinor: 2345678 })]);
+  });
+});
@@ -0,0 +1,11 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    include: ["test/**/*.test.ts"],
+    setupFiles: ["test/setup.ts"],
+    environment: "node",
+    // The background modules log every step; only show it for failing tests.
+    silent: "passed-only",
+  },
+});